@@ -0,0 +1,141 @@
+/**
+ * PCM16 Capture Processor - AudioWorklet that turns mic input into fixed-size PCM16 frames
+ *
+ * Runs at the device sample rate (usually 44.1/48 kHz), downmixes to mono, resamples to
+ * `targetSampleRate` and posts Int16 frames of exactly `frameSize` samples. Downsampling
+ * low-passes first (windowed-sinc FIR) so energy above the new Nyquist doesn't fold back
+ * into the speech band, then interpolates between filtered samples.
+ * Send the string 'flush' on the port to emit the last (zero-padded) frame; the processor
+ * answers with { type: 'flushed' } once every frame has been posted.
+ */
+// Low-pass cutoff as a fraction of the target rate: 7.5 kHz at 16 kHz, just under Nyquist
+const CUTOFF_RATIO = 7500 / 16000;
+// Odd, so the filter is symmetric around its centre tap
+const FILTER_TAPS = 63;
+
+/**
+ * Blackman-windowed sinc low-pass, normalized to unity gain at DC
+ */
+function createLowPassFilter(cutoffHz, inputRate, taps) {
+  const fc = cutoffHz / inputRate;
+  const middle = (taps - 1) / 2;
+  const coefficients = new Float32Array(taps);
+  let sum = 0;
+
+  for (let n = 0; n < taps; n++) {
+    const x = n - middle;
+    const sinc = x === 0 ? 2 * fc : Math.sin(2 * Math.PI * fc * x) / (Math.PI * x);
+    const window =
+      0.42 - 0.5 * Math.cos((2 * Math.PI * n) / (taps - 1)) + 0.08 * Math.cos((4 * Math.PI * n) / (taps - 1));
+    coefficients[n] = sinc * window;
+    sum += coefficients[n];
+  }
+
+  for (let n = 0; n < taps; n++) {
+    coefficients[n] /= sum;
+  }
+  return coefficients;
+}
+
+class Pcm16CaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+
+    const { targetSampleRate = 16000, frameSize = 1600 } = options.processorOptions || {};
+
+    // Input samples per output sample; `sampleRate` is the AudioWorkletGlobalScope rate
+    this.ratio = sampleRate / targetSampleRate;
+    this.frameSize = frameSize;
+    this.frame = new Int16Array(frameSize);
+    this.frameIndex = 0;
+
+    // Only downsampling needs the anti-alias filter
+    this.filter = this.ratio > 1 ? createLowPassFilter(CUTOFF_RATIO * targetSampleRate, sampleRate, FILTER_TAPS) : null;
+    // Recent input, written twice so the newest FILTER_TAPS samples are always contiguous
+    this.history = new Float32Array(FILTER_TAPS * 2);
+    this.historyIndex = 0;
+
+    // Resampler state carried across render quanta: the last two filtered samples and
+    // where the next output sample falls between them (0 = previous, 1 = current)
+    this.previous = 0;
+    this.current = 0;
+    this.phase = 1;
+
+    this.port.onmessage = (event) => {
+      if (event.data === 'flush') {
+        this.flush();
+      }
+    };
+  }
+
+  pushSample(value) {
+    const clamped = Math.max(-1, Math.min(1, value));
+    this.frame[this.frameIndex++] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+
+    if (this.frameIndex === this.frameSize) {
+      this.postFrame();
+    }
+  }
+
+  postFrame() {
+    const buffer = this.frame.buffer;
+    this.port.postMessage({ type: 'frame', buffer }, [buffer]);
+    this.frame = new Int16Array(this.frameSize);
+    this.frameIndex = 0;
+  }
+
+  flush() {
+    if (this.frameIndex > 0) {
+      // Remaining samples are already zero, so the last frame keeps the fixed size
+      this.postFrame();
+    }
+    this.port.postMessage({ type: 'flushed' });
+  }
+
+  lowPass(sample) {
+    if (!this.filter) return sample;
+
+    this.history[this.historyIndex] = sample;
+    this.history[this.historyIndex + FILTER_TAPS] = sample;
+    this.historyIndex = (this.historyIndex + 1) % FILTER_TAPS;
+
+    // history[historyIndex .. historyIndex + FILTER_TAPS) runs oldest to newest
+    let filtered = 0;
+    for (let k = 0; k < FILTER_TAPS; k++) {
+      filtered += this.filter[k] * this.history[this.historyIndex + k];
+    }
+    return filtered;
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (!input || input.length === 0) return true;
+
+    const channelCount = input.length;
+    const length = input[0].length;
+
+    for (let i = 0; i < length; i++) {
+      // Downmix to mono
+      let sample = 0;
+      for (let c = 0; c < channelCount; c++) {
+        sample += input[c][i];
+      }
+      sample /= channelCount;
+
+      this.previous = this.current;
+      this.current = this.lowPass(sample);
+
+      // Emit every output sample that falls between the previous and current input,
+      // interpolating the fractional position; output samples are `ratio` inputs apart
+      while (this.phase <= 1) {
+        this.pushSample(this.previous + (this.current - this.previous) * this.phase);
+        this.phase += this.ratio;
+      }
+      this.phase -= 1;
+    }
+
+    return true;
+  }
+}
+
+registerProcessor('pcm16-capture', Pcm16CaptureProcessor);
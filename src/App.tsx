@@ -6,6 +6,9 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AnimatePresence } from "framer-motion";
 import DashboardLayout from "./components/DashboardLayout";
+import MotionPreference from "./components/MotionPreference";
+import RequireAuth from "./components/auth/RequireAuth";
+import RequirePermission from "./components/auth/RequirePermission";
 import { queryClient } from "@/lib/query-client";
 
 // Pages - Eager loading for critical pages
@@ -22,6 +25,10 @@ const FeedbacksPage = lazy(() => import("./pages/Feedbacks"));
 const ConfigPage = lazy(() => import("./pages/Config"));
 const DocumentoTecnicoPage = lazy(() => import("./pages/DocumentoTecnico"));
 const VoiceInteractionPage = lazy(() => import("./pages/VoiceInteraction"));
+const LoginPage = lazy(() => import("./pages/Login"));
+const RegisterPage = lazy(() => import("./pages/Register"));
+const ForgotPasswordPage = lazy(() => import("./pages/ForgotPassword"));
+const ResetPasswordPage = lazy(() => import("./pages/ResetPassword"));
 
 // Loading fallback component
 const PageLoader = () => (
@@ -36,32 +43,61 @@ const App = () => (
       <Toaster />
       <Sonner />
       <BrowserRouter>
-        <AnimatePresence mode="wait">
-          <Suspense fallback={<PageLoader />}>
-            <Routes>
-              {/* Rota da Nova Home Page Imersiva */}
-              <Route path="/" element={<HomePage />} />
+        <MotionPreference>
+          <AnimatePresence mode="wait">
+            <Suspense fallback={<PageLoader />}>
+              <Routes>
+                {/* Rota da Nova Home Page Imersiva */}
+                <Route path="/" element={<HomePage />} />
 
-              {/* Rota de Voice Interaction (standalone) */}
-              <Route path="/voice" element={<VoiceInteractionPage />} />
+                {/* Rota de Voice Interaction (standalone) */}
+                <Route path="/voice" element={<VoiceInteractionPage />} />
 
-              {/* Rotas do Dashboard Aninhadas */}
-              <Route path="/dashboard" element={<DashboardLayout />}>
-                <Route index element={<VisaoGeralPage />} /> {/* /dashboard */}
-                <Route path="leads" element={<LeadsPage />} />
-                <Route path="respostas" element={<RespostasPage />} />
-                <Route path="funcionalidades" element={<FuncionalidadesPage />} />
-                <Route path="insights" element={<InsightsPage />} />
-                <Route path="feedbacks" element={<FeedbacksPage />} />
-                <Route path="documento-tecnico" element={<DocumentoTecnicoPage />} />
-                <Route path="config" element={<ConfigPage />} />
-              </Route>
+                {/* Rotas de Autenticação */}
+                <Route path="/login" element={<LoginPage />} />
+                <Route path="/register" element={<RegisterPage />} />
+                <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+                <Route path="/reset-password/:token" element={<ResetPasswordPage />} />
 
-              {/* Rota de Catch-All (404) */}
-              <Route path="*" element={<NotFound />} />
-            </Routes>
-          </Suspense>
-        </AnimatePresence>
+                {/* Rotas do Dashboard Aninhadas (exigem login) */}
+                <Route
+                  path="/dashboard"
+                  element={
+                    <RequireAuth>
+                      <DashboardLayout />
+                    </RequireAuth>
+                  }
+                >
+                  <Route index element={<VisaoGeralPage />} /> {/* /dashboard */}
+                  <Route path="leads" element={<LeadsPage />} />
+                  <Route path="respostas" element={<RespostasPage />} />
+                  <Route path="funcionalidades" element={<FuncionalidadesPage />} />
+                  <Route path="insights" element={<InsightsPage />} />
+                  <Route path="feedbacks" element={<FeedbacksPage />} />
+                  <Route
+                    path="documento-tecnico"
+                    element={
+                      <RequirePermission permission="document:generate">
+                        <DocumentoTecnicoPage />
+                      </RequirePermission>
+                    }
+                  />
+                  <Route
+                    path="config"
+                    element={
+                      <RequirePermission permission="config:view">
+                        <ConfigPage />
+                      </RequirePermission>
+                    }
+                  />
+                </Route>
+
+                {/* Rota de Catch-All (404) */}
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+            </Suspense>
+          </AnimatePresence>
+        </MotionPreference>
       </BrowserRouter>
     </TooltipProvider>
   </QueryClientProvider>
@@ -2,6 +2,8 @@ import React from 'react';
 import { motion } from 'framer-motion';
 import { cn } from '@/lib/utils';
 import ConcentricWave from './ConcentricWave';
+import { StaticVoiceIndicator } from './voice/StaticVoiceIndicator';
+import { useReducedMotion } from '@/hooks/useAccessibility';
 
 type AgentState = 'idle' | 'listening' | 'speaking' | 'thinking';
 
@@ -13,7 +15,8 @@ interface ChromeSphereProps {
 const SPHERE_SIZE = 320;
 
 const ChromeSphere: React.FC<ChromeSphereProps> = ({ state, size = SPHERE_SIZE }) => {
-  
+  const reducedMotion = useReducedMotion();
+
   // Framer Motion variants for the sphere's core (now controlling the image)
   const sphereVariants = {
     idle: {
@@ -34,6 +37,15 @@ const ChromeSphere: React.FC<ChromeSphereProps> = ({ state, size = SPHERE_SIZE }
     },
   };
 
+  // Reduced motion: no pulse, no waves, just the state
+  if (reducedMotion) {
+    return (
+      <div className="relative flex flex-col items-center justify-center" style={{ width: size, height: size }}>
+        <StaticVoiceIndicator state={state} size={size} />
+      </div>
+    );
+  }
+
   return (
     <div className="relative flex flex-col items-center justify-center" style={{ width: size, height: size }}>
       
@@ -1,11 +1,13 @@
 import React from 'react';
 import { motion } from 'framer-motion';
+import { useReducedMotion } from '@/hooks/useAccessibility';
 
 interface ConcentricWaveProps {
   size: number; // Diameter of the sphere
 }
 
 const ConcentricWave: React.FC<ConcentricWaveProps> = ({ size }) => {
+  const reducedMotion = useReducedMotion();
   const waveCount = 3;
   const baseDuration = 1.8; // Duration of expansion
 
@@ -20,6 +22,9 @@ const ConcentricWave: React.FC<ConcentricWaveProps> = ({ size }) => {
     },
   };
 
+  // Purely decorative, so reduced motion drops it entirely
+  if (reducedMotion) return null;
+
   return (
     <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
       {[...Array(waveCount)].map((_, index) => (
@@ -5,6 +5,7 @@
 
 import React, { Component, ErrorInfo, ReactNode } from 'react';
 import { AlertCircle, RefreshCw } from 'lucide-react';
+import { t } from '@/lib/i18n';
 
 interface Props {
   children: ReactNode;
@@ -94,9 +95,9 @@ function ErrorFallback({ error, onReset, onReload }: ErrorFallbackProps): JSX.El
           </div>
 
           <div className="space-y-2">
-            <h1 className="text-2xl font-bold tracking-tight">Algo deu errado</h1>
+            <h1 className="text-2xl font-bold tracking-tight">{t('errorBoundary.title')}</h1>
             <p className="text-muted-foreground">
-              Desculpe, ocorreu um erro inesperado. Por favor, tente novamente.
+              {t('errorBoundary.description')}
             </p>
           </div>
 
@@ -118,7 +119,7 @@ function ErrorFallback({ error, onReset, onReload }: ErrorFallbackProps): JSX.El
               onClick={onReset}
               className="inline-flex items-center justify-center rounded-md text-sm font-medium transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:opacity-50 disabled:pointer-events-none ring-offset-background bg-primary text-primary-foreground hover:bg-primary/90 h-10 py-2 px-4"
             >
-              Tentar Novamente
+              {t('errorBoundary.retry')}
             </button>
 
             <button
@@ -126,7 +127,7 @@ function ErrorFallback({ error, onReset, onReload }: ErrorFallbackProps): JSX.El
               className="inline-flex items-center justify-center rounded-md text-sm font-medium transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:opacity-50 disabled:pointer-events-none ring-offset-background border border-input hover:bg-accent hover:text-accent-foreground h-10 py-2 px-4"
             >
               <RefreshCw className="mr-2 h-4 w-4" />
-              Recarregar Página
+              {t('errorBoundary.reload')}
             </button>
           </div>
 
@@ -135,7 +136,7 @@ function ErrorFallback({ error, onReset, onReload }: ErrorFallbackProps): JSX.El
               href="/"
               className="text-sm text-muted-foreground hover:text-foreground underline-offset-4 hover:underline"
             >
-              Voltar para a página inicial
+              {t('errorBoundary.home')}
             </a>
           </div>
         </div>
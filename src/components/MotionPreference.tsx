@@ -0,0 +1,15 @@
+import React from 'react';
+import { MotionConfig } from 'framer-motion';
+import { useReducedMotion } from '@/hooks/useAccessibility';
+
+/**
+ * Applies the reduced-motion choice (system or forced in the accessibility menu) to every
+ * framer-motion animation: transforms jump to their end state, opacity still fades
+ */
+const MotionPreference: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const reducedMotion = useReducedMotion();
+
+  return <MotionConfig reducedMotion={reducedMotion ? 'always' : 'never'}>{children}</MotionConfig>;
+};
+
+export default MotionPreference;
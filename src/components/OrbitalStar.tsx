@@ -2,6 +2,7 @@ import React from 'react';
 import { motion } from 'framer-motion';
 import { Star } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { useReducedMotion } from '@/hooks/useAccessibility';
 
 interface OrbitalStarProps {
   delay: number;
@@ -11,6 +12,8 @@ interface OrbitalStarProps {
 }
 
 const OrbitalStar: React.FC<OrbitalStarProps> = ({ delay, size, orbitRadius, duration }) => {
+  // Reduced motion parks the star at the start of its orbit
+  const reducedMotion = useReducedMotion();
   const orbitVariants = {
     animate: {
       // Defines a circular/elliptical path around the center (0, 0)
@@ -31,7 +34,7 @@ const OrbitalStar: React.FC<OrbitalStarProps> = ({ delay, size, orbitRadius, dur
         willChange: 'transform, opacity',
       }}
       variants={orbitVariants}
-      animate="animate"
+      animate={reducedMotion ? undefined : 'animate'}
       transition={{
         duration: duration,
         repeat: Infinity,
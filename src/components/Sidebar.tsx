@@ -1,15 +1,39 @@
 import React, { useState } from "react";
 import { Link, useLocation } from "react-router-dom";
-import { ChevronLeft, Menu } from "lucide-react";
+import { ChevronLeft, LogOut, Menu } from "lucide-react";
 import { navItems } from "@/lib/navigation";
+import { useAuth } from "@/hooks/useAuth";
+import { useLocale } from "@/hooks/useLocale";
+import { usePermissions } from "@/hooks/usePermission";
 import { cn } from "@/lib/utils";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Separator } from "@/components/ui/separator";
 import { motion } from "framer-motion";
 
 const Sidebar: React.FC = () => {
   const [isCollapsed, setIsCollapsed] = useState(false);
   const location = useLocation();
+  const { t } = useLocale();
+  const { user, logout } = useAuth();
+  const { role, can } = usePermissions();
+  const visibleNavItems = navItems.filter((item) => !item.permission || can(item.permission));
+
+  const displayName = user?.name || user?.email || t("auth.menu.account");
+  const initials = displayName
+    .split(/[\s@.]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
 
   const toggleCollapse = () => {
     setIsCollapsed(!isCollapsed);
@@ -53,13 +77,13 @@ const Sidebar: React.FC = () => {
 
       {/* Navigation Items */}
       <nav className="flex-1 p-2 space-y-1 overflow-y-auto">
-        {navItems.map((item) => {
+        {visibleNavItems.map((item) => {
           const isActive = location.pathname === item.route;
           const Icon = item.icon;
 
           return (
             <Link
-              key={item.label}
+              key={item.route}
               to={item.route}
               className={cn(
                 "flex items-center rounded-lg p-3 text-sm font-medium transition-colors duration-200",
@@ -77,13 +101,53 @@ const Sidebar: React.FC = () => {
                   transition={{ delay: 0.1 }}
                   className="whitespace-nowrap"
                 >
-                  {item.label}
+                  {t(item.labelKey)}
                 </motion.span>
               )}
             </Link>
           );
         })}
       </nav>
+
+      <Separator className="bg-border/50" />
+
+      {/* User Menu */}
+      <div className="p-2">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <button
+              type="button"
+              className={cn(
+                "flex w-full items-center gap-3 rounded-lg p-2 text-left text-sm transition-colors hover:bg-secondary/50",
+                isCollapsed ? "justify-center" : ""
+              )}
+              aria-label={t("auth.menu.open")}
+            >
+              <Avatar className="h-8 w-8">
+                <AvatarFallback className="bg-primary/10 text-primary text-xs">{initials}</AvatarFallback>
+              </Avatar>
+              {!isCollapsed && (
+                <div className="min-w-0">
+                  <p className="truncate font-medium">{displayName}</p>
+                  {user?.name && <p className="truncate text-xs text-muted-foreground">{user.email}</p>}
+                </div>
+              )}
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent side="top" align="start" className="w-56">
+            <DropdownMenuLabel className="font-normal">
+              <p className="truncate text-sm font-medium">{displayName}</p>
+              {user?.email && <p className="truncate text-xs text-muted-foreground">{user.email}</p>}
+              <p className="text-xs text-muted-foreground">{t(`rbac.role.${role}`)}</p>
+            </DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onSelect={logout}>
+              <LogOut className="mr-2 h-4 w-4" />
+              {t("auth.menu.logout")}
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
     </motion.div>
   );
 };
@@ -0,0 +1,30 @@
+import React from "react";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+
+interface AuthLayoutProps {
+  title: string;
+  description?: string;
+  footer?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+/**
+ * Centered card shared by the login, registration and password reset pages
+ */
+const AuthLayout: React.FC<AuthLayoutProps> = ({ title, description, footer, children }) => (
+  <div className="min-h-screen flex flex-col items-center justify-center gap-8 bg-background text-foreground p-4">
+    <h1 className="text-3xl font-bold text-primary tracking-widest">RENUS</h1>
+    <Card className="w-full max-w-md bg-secondary/30 border-primary/20">
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        {description && <CardDescription>{description}</CardDescription>}
+      </CardHeader>
+      <CardContent>{children}</CardContent>
+      {footer && (
+        <CardFooter className="flex flex-col gap-2 text-sm text-muted-foreground">{footer}</CardFooter>
+      )}
+    </Card>
+  </div>
+);
+
+export default AuthLayout;
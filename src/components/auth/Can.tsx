@@ -0,0 +1,20 @@
+import React from "react";
+import { usePermission } from "@/hooks/usePermission";
+import type { Permission } from "@/lib/permissions";
+
+interface CanProps {
+  permission: Permission;
+  fallback?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+/**
+ * Renders its children only when the user's role has the permission
+ */
+const Can: React.FC<CanProps> = ({ permission, fallback = null, children }) => {
+  const allowed = usePermission(permission);
+
+  return <>{allowed ? children : fallback}</>;
+};
+
+export default Can;
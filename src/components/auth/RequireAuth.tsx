@@ -0,0 +1,22 @@
+import React from "react";
+import { Navigate, useLocation } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { buildLoginPath } from "@/lib/auth-redirect";
+
+/**
+ * Route guard: renders its children only with a live session, otherwise sends the
+ * user to /login with the current URL so they land back here after signing in
+ */
+const RequireAuth: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { isAuthenticated } = useAuth();
+  const location = useLocation();
+
+  if (!isAuthenticated) {
+    const returnTo = `${location.pathname}${location.search}${location.hash}`;
+    return <Navigate to={buildLoginPath(returnTo)} replace />;
+  }
+
+  return <>{children}</>;
+};
+
+export default RequireAuth;
@@ -0,0 +1,37 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import { ShieldOff } from "lucide-react";
+import Can from "./Can";
+import { useLocale } from "@/hooks/useLocale";
+import type { Permission } from "@/lib/permissions";
+
+/**
+ * Route guard for pages some roles may not open. Shows an access-denied notice
+ * in place of the page (inside the dashboard layout) rather than redirecting.
+ */
+const RequirePermission: React.FC<{ permission: Permission; children: React.ReactNode }> = ({
+  permission,
+  children,
+}) => {
+  const { t } = useLocale();
+
+  return (
+    <Can
+      permission={permission}
+      fallback={
+        <div className="flex flex-col items-center justify-center text-center py-24 space-y-4">
+          <ShieldOff className="h-12 w-12 text-muted-foreground" />
+          <h1 className="text-2xl font-bold text-foreground">{t("rbac.denied.title")}</h1>
+          <p className="text-muted-foreground max-w-md">{t("rbac.denied.message")}</p>
+          <Link to="/dashboard" className="text-primary hover:text-primary/80 underline font-medium">
+            {t("rbac.denied.back")}
+          </Link>
+        </div>
+      }
+    >
+      {children}
+    </Can>
+  );
+};
+
+export default RequirePermission;
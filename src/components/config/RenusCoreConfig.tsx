@@ -11,16 +11,20 @@ import { Save, Plus, Upload, FileText, Settings, Zap, GitBranch, BookOpen, Send,
 import { showSuccess } from "@/utils/toast";
 import { cn } from "@/lib/utils";
 import { useAgentConfig, useUpdateAgentConfig } from "@/hooks/useFuncionalidades";
+import { usePermission } from "@/hooks/usePermission";
 import { toast } from "sonner";
+import { t } from "@/lib/i18n";
 
 // --- Sub-Components for Tabs ---
 
 interface InstructionsTabProps {
   config: any;
   onChange: (field: string, value: any) => void;
+  // Radix Select ignores the surrounding disabled fieldset, so it's passed explicitly
+  disabled?: boolean;
 }
 
-const InstructionsTab: React.FC<InstructionsTabProps> = ({ config, onChange }) => (
+const InstructionsTab: React.FC<InstructionsTabProps> = ({ config, onChange, disabled }) => (
   <div className="space-y-6">
     <div className="space-y-2">
       <Label htmlFor="prompt-principal">Prompt Principal</Label>
@@ -59,6 +63,7 @@ const InstructionsTab: React.FC<InstructionsTabProps> = ({ config, onChange }) =
       <Select 
         value={config?.modo_comunicacao || 'texto'}
         onValueChange={(value) => onChange('modo_comunicacao', value)}
+        disabled={disabled}
       >
         <SelectTrigger id="comunicacao" className="bg-background/50 border-primary/20">
           <SelectValue placeholder="Selecione o Modo" />
@@ -204,6 +209,7 @@ const RenusCoreConfig: React.FC = () => {
   const [activeTab, setActiveTab] = useState("instructions");
   const { data: agentConfig, isLoading, error } = useAgentConfig();
   const updateConfig = useUpdateAgentConfig();
+  const canEdit = usePermission("config:edit");
   const [localConfig, setLocalConfig] = useState<any>({});
 
   useEffect(() => {
@@ -219,9 +225,9 @@ const RenusCoreConfig: React.FC = () => {
   const handleSave = async () => {
     try {
       await updateConfig.mutateAsync(localConfig);
-      toast.success("Configurações do RENUS Core atualizadas com sucesso!");
+      toast.success(t("config.coreSaved"));
     } catch (err) {
-      toast.error("Falha ao salvar configurações");
+      toast.error(t("config.coreSaveFailed"));
     }
   };
 
@@ -267,8 +273,10 @@ const RenusCoreConfig: React.FC = () => {
           </TabsList>
 
           <AnimatePresence mode="wait">
-            <motion.div
+            <motion.fieldset
               key={activeTab}
+              disabled={!canEdit}
+              className="min-w-0"
               initial={{ opacity: 0, y: 10 }}
               animate={{ opacity: 1, y: 0 }}
               exit={{ opacity: 0, y: -10 }}
@@ -276,7 +284,7 @@ const RenusCoreConfig: React.FC = () => {
             >
               <TabsContent value="instructions" className="mt-0">
                 {activeTab === "instructions" && (
-                  <InstructionsTab config={localConfig} onChange={handleChange} />
+                  <InstructionsTab config={localConfig} onChange={handleChange} disabled={!canEdit} />
                 )}
               </TabsContent>
               <TabsContent value="tools" className="mt-0">
@@ -295,7 +303,7 @@ const RenusCoreConfig: React.FC = () => {
               <TabsContent value="triggers" className="mt-0">
                 {activeTab === "triggers" && <TriggersTab />}
               </TabsContent>
-            </motion.div>
+            </motion.fieldset>
           </AnimatePresence>
         </Tabs>
         
@@ -303,7 +311,7 @@ const RenusCoreConfig: React.FC = () => {
           <Button 
             className="bg-primary hover:bg-primary/80 text-primary-foreground"
             onClick={handleSave}
-            disabled={updateConfig.isPending}
+            disabled={!canEdit || updateConfig.isPending}
           >
             {updateConfig.isPending ? (
               <>
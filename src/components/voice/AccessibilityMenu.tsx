@@ -0,0 +1,115 @@
+/**
+ * AccessibilityMenu - Captions, motion and agent speech speed for the voice page
+ * Choices are saved as they're made and apply immediately
+ */
+import React, { memo } from 'react';
+import { Accessibility } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { useAccessibility } from '@/hooks/useAccessibility';
+import { useLocale } from '@/hooks/useLocale';
+import { PLAYBACK_RATE_OPTIONS, type CaptionSize, type ReducedMotionPreference } from '@/lib/accessibility-settings';
+import type { MessageKey } from '@/lib/i18n';
+
+const CAPTION_SIZES: Array<{ value: CaptionSize; labelKey: MessageKey }> = [
+  { value: 'large', labelKey: 'a11y.captionSize.large' },
+  { value: 'x-large', labelKey: 'a11y.captionSize.xLarge' },
+];
+
+const MOTION_PREFERENCES: Array<{ value: ReducedMotionPreference; labelKey: MessageKey }> = [
+  { value: 'system', labelKey: 'a11y.motion.system' },
+  { value: 'on', labelKey: 'a11y.motion.on' },
+  { value: 'off', labelKey: 'a11y.motion.off' },
+];
+
+export const AccessibilityMenu = memo(function AccessibilityMenu() {
+  const { t, locale } = useLocale();
+  const { settings, updateSettings } = useAccessibility();
+
+  const formatRate = (rate: number) => `${rate.toLocaleString(locale)}×`;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="icon" title={t('a11y.title')} aria-label={t('a11y.openLabel')}>
+          <Accessibility className="w-4 h-4" aria-hidden="true" />
+        </Button>
+      </PopoverTrigger>
+
+      <PopoverContent className="w-72 space-y-4" align="end">
+        <h3 className="text-sm font-medium">{t('a11y.title')}</h3>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="a11y-captions">{t('a11y.captions')}</Label>
+          <Switch
+            id="a11y-captions"
+            checked={settings.captions}
+            onCheckedChange={(captions) => updateSettings({ captions })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="a11y-caption-size">{t('a11y.captionSize')}</Label>
+          <Select
+            value={settings.captionSize}
+            onValueChange={(captionSize) => updateSettings({ captionSize: captionSize as CaptionSize })}
+            disabled={!settings.captions}
+          >
+            <SelectTrigger id="a11y-caption-size">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CAPTION_SIZES.map(({ value, labelKey }) => (
+                <SelectItem key={value} value={value}>
+                  {t(labelKey)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="a11y-motion">{t('a11y.reducedMotion')}</Label>
+          <Select
+            value={settings.reducedMotion}
+            onValueChange={(reducedMotion) => updateSettings({ reducedMotion: reducedMotion as ReducedMotionPreference })}
+          >
+            <SelectTrigger id="a11y-motion">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MOTION_PREFERENCES.map(({ value, labelKey }) => (
+                <SelectItem key={value} value={value}>
+                  {t(labelKey)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="a11y-rate">{t('a11y.playbackRate')}</Label>
+          <Select
+            value={String(settings.playbackRate)}
+            onValueChange={(rate) => updateSettings({ playbackRate: Number(rate) })}
+          >
+            <SelectTrigger id="a11y-rate">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PLAYBACK_RATE_OPTIONS.map((rate) => (
+                <SelectItem key={rate} value={String(rate)}>
+                  {formatRate(rate)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">{t('a11y.playbackRateHint')}</p>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+});
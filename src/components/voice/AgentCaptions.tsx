@@ -0,0 +1,31 @@
+/**
+ * AgentCaptions - Large on-screen captions of what the agent is saying
+ * Shows the reply as it streams in, then keeps the last reply up until the next one
+ */
+import React, { memo } from 'react';
+import { cn } from '@/lib/utils';
+import type { CaptionSize } from '@/lib/accessibility-settings';
+
+interface AgentCaptionsProps {
+  text: string;
+  size: CaptionSize;
+}
+
+const SIZE_CLASSES: Record<CaptionSize, string> = {
+  large: 'text-2xl',
+  'x-large': 'text-4xl',
+};
+
+export const AgentCaptions = memo(function AgentCaptions({ text, size }: AgentCaptionsProps) {
+  if (!text) return null;
+
+  return (
+    // Screen readers get entries from the transcript live region; this is for reading along
+    <div
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 w-[min(56rem,calc(100%-2rem))] max-h-[40vh] overflow-y-auto rounded-lg bg-black/85 px-6 py-4 text-center"
+      aria-hidden="true"
+    >
+      <p className={cn('font-medium leading-snug text-white', SIZE_CLASSES[size])}>{text}</p>
+    </div>
+  );
+});
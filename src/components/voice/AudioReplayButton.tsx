@@ -0,0 +1,66 @@
+/**
+ * AudioReplayButton - Play/stop toggle for the audio of one transcript entry
+ */
+import React, { memo, useCallback, useEffect, useRef, useState } from 'react';
+import { Play, Square } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useLocale } from '@/hooks/useLocale';
+import { transcriptStore } from '@/lib/transcript-store';
+
+interface AudioReplayButtonProps {
+  audioUrl?: string; // live entries already have an object URL
+  // Archived entries load their blob from the transcript store
+  conversationId?: string;
+  entryId?: string;
+}
+
+export const AudioReplayButton = memo(function AudioReplayButton({ audioUrl, conversationId, entryId }: AudioReplayButtonProps) {
+  const { t } = useLocale();
+  const [isPlaying, setIsPlaying] = useState(false);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  // URL created here for an archived blob, revoked once playback is over
+  const ownedUrlRef = useRef<string | null>(null);
+
+  const stop = useCallback(() => {
+    audioRef.current?.pause();
+    audioRef.current = null;
+    if (ownedUrlRef.current) {
+      URL.revokeObjectURL(ownedUrlRef.current);
+      ownedUrlRef.current = null;
+    }
+    setIsPlaying(false);
+  }, []);
+
+  // Don't keep playing after the history panel closes
+  useEffect(() => stop, [stop]);
+
+  const play = async () => {
+    let url = audioUrl;
+    if (!url && conversationId && entryId) {
+      const blob = await transcriptStore.getAudio(conversationId, entryId);
+      if (!blob) return;
+      url = ownedUrlRef.current = URL.createObjectURL(blob);
+    }
+    if (!url) return;
+
+    const audio = new Audio(url);
+    audioRef.current = audio;
+    audio.onended = stop;
+    audio.onerror = stop;
+    setIsPlaying(true);
+    await audio.play().catch(stop);
+  };
+
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      className="h-6 w-6 text-white/60 hover:text-white"
+      onClick={isPlaying ? stop : play}
+      aria-label={isPlaying ? t('history.stopAudio') : t('history.playAudio')}
+      title={isPlaying ? t('history.stopAudio') : t('history.playAudio')}
+    >
+      {isPlaying ? <Square className="w-3 h-3" aria-hidden="true" /> : <Play className="w-3 h-3" aria-hidden="true" />}
+    </Button>
+  );
+});
@@ -0,0 +1,238 @@
+/**
+ * AudioSettingsDrawer - Microphone/speaker choice, capture processing, a mic test and hands-free options
+ * Changes are saved as they're made and apply from the next recording
+ */
+import React, { memo, useId } from 'react';
+import { Headphones, Settings2, Square } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { Switch } from '@/components/ui/switch';
+import { useAudioDevices, type AudioDevice } from '@/hooks/useAudioDevices';
+import { useLocale } from '@/hooks/useLocale';
+import { useWakeWordSupport } from '@/hooks/useWakeWordSupport';
+import { handleError } from '@/lib/error-handler';
+import { HANDS_FREE_SLEEP_OPTIONS_MS, type AudioSettings } from '@/lib/audio-settings';
+import type { MessageKey } from '@/lib/i18n';
+
+interface AudioSettingsDrawerProps {
+  audioLevel: number; // 0-100, from the audio manager
+  isTestingMic: boolean;
+  onStartMicTest: () => Promise<void>;
+  onStopMicTest: () => void;
+}
+
+// Select items can't have an empty value, so the browser default gets its own id
+const DEFAULT_DEVICE = 'default';
+
+const PROCESSING_TOGGLES: Array<{ setting: keyof Pick<AudioSettings, 'echoCancellation' | 'noiseSuppression' | 'autoGainControl'>; labelKey: MessageKey }> = [
+  { setting: 'echoCancellation', labelKey: 'audioSettings.echoCancellation' },
+  { setting: 'noiseSuppression', labelKey: 'audioSettings.noiseSuppression' },
+  { setting: 'autoGainControl', labelKey: 'audioSettings.autoGainControl' },
+];
+
+const formatSleepOption = (ms: number, t: ReturnType<typeof useLocale>['t']) =>
+  ms < 60000 ? t('audioSettings.seconds', { count: ms / 1000 }) : t('audioSettings.minutes', { count: ms / 60000 });
+
+interface DeviceSelectProps {
+  label: string;
+  devices: AudioDevice[];
+  value: string | null;
+  disabled?: boolean;
+  onChange: (deviceId: string | null) => void;
+}
+
+const DeviceSelect = memo(function DeviceSelect({ label, devices, value, disabled, onChange }: DeviceSelectProps) {
+  const { t } = useLocale();
+  const id = useId();
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Select
+        value={value ?? DEFAULT_DEVICE}
+        onValueChange={(deviceId) => onChange(deviceId === DEFAULT_DEVICE ? null : deviceId)}
+        disabled={disabled}
+      >
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={DEFAULT_DEVICE}>{t('audioSettings.systemDefault')}</SelectItem>
+          {devices.map((device) => (
+            <SelectItem key={device.deviceId} value={device.deviceId}>
+              {device.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+});
+
+export const AudioSettingsDrawer = memo(function AudioSettingsDrawer({
+  audioLevel,
+  isTestingMic,
+  onStartMicTest,
+  onStopMicTest,
+}: AudioSettingsDrawerProps) {
+  const { t } = useLocale();
+  const { settings, inputs, outputs, isSupported, canSelectOutput, updateSettings, refresh } = useAudioDevices();
+  const { isSupported: canSpotWakeWord, isOnDevice: canSpotOnDevice } = useWakeWordSupport();
+
+  // Labels may have appeared since the last look (permission granted, device plugged in)
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      refresh();
+    } else {
+      onStopMicTest();
+    }
+  };
+
+  const handleToggleMicTest = async () => {
+    if (isTestingMic) {
+      onStopMicTest();
+      return;
+    }
+
+    try {
+      await onStartMicTest();
+      // Granting mic access unlocks device labels
+      refresh();
+    } catch (err) {
+      handleError(err, t('audioSettings.testFailed'));
+    }
+  };
+
+  return (
+    <Sheet onOpenChange={handleOpenChange}>
+      <SheetTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon"
+          title={t('audioSettings.title')}
+          aria-label={t('audioSettings.openLabel')}
+        >
+          <Settings2 className="w-4 h-4" aria-hidden="true" />
+        </Button>
+      </SheetTrigger>
+
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>{t('audioSettings.title')}</SheetTitle>
+          <SheetDescription>{t('audioSettings.description')}</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-6">
+          {!isSupported && <p className="text-sm text-muted-foreground">{t('audioSettings.unsupported')}</p>}
+
+          <DeviceSelect
+            label={t('audioSettings.input')}
+            devices={inputs}
+            value={settings.inputDeviceId}
+            disabled={!isSupported}
+            onChange={(inputDeviceId) => updateSettings({ inputDeviceId })}
+          />
+
+          <div className="space-y-2">
+            <DeviceSelect
+              label={t('audioSettings.output')}
+              devices={outputs}
+              value={settings.outputDeviceId}
+              disabled={!isSupported || !canSelectOutput}
+              onChange={(outputDeviceId) => updateSettings({ outputDeviceId })}
+            />
+            {!canSelectOutput && (
+              <p className="text-xs text-muted-foreground">{t('audioSettings.outputUnsupported')}</p>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium">{t('audioSettings.processing')}</h3>
+            {PROCESSING_TOGGLES.map(({ setting, labelKey }) => (
+              <div key={setting} className="flex items-center justify-between">
+                <Label htmlFor={`audio-${setting}`}>{t(labelKey)}</Label>
+                <Switch
+                  id={`audio-${setting}`}
+                  checked={settings[setting]}
+                  onCheckedChange={(checked) => updateSettings({ [setting]: checked })}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium">{t('audioSettings.inputLevel')}</h3>
+            <Progress value={audioLevel} aria-label={t('audioSettings.inputLevel')} />
+            <Button
+              variant={isTestingMic ? 'destructive' : 'outline'}
+              className="w-full"
+              onClick={handleToggleMicTest}
+              disabled={!isSupported}
+              aria-pressed={isTestingMic}
+            >
+              {isTestingMic ? (
+                <Square className="w-4 h-4 mr-2" aria-hidden="true" />
+              ) : (
+                <Headphones className="w-4 h-4 mr-2" aria-hidden="true" />
+              )}
+              {isTestingMic ? t('audioSettings.stopTest') : t('audioSettings.startTest')}
+            </Button>
+            <p className="text-xs text-muted-foreground">{t('audioSettings.testHint')}</p>
+          </div>
+
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium">{t('audioSettings.handsFree')}</h3>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="audio-wakeWord">{t('audioSettings.wakeWord')}</Label>
+              <Switch
+                id="audio-wakeWord"
+                checked={settings.wakeWord && canSpotWakeWord}
+                disabled={!canSpotWakeWord}
+                onCheckedChange={(wakeWord) => updateSettings({ wakeWord })}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {canSpotWakeWord ? t('audioSettings.wakeWordHint') : t('audioSettings.wakeWordUnsupported')}
+            </p>
+            {/* Spotting in the cloud streams every sound heard while asleep, so it's only ever opt-in */}
+            {canSpotWakeWord && canSpotOnDevice === false && (
+              <>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="audio-wakeWordCloud">{t('audioSettings.wakeWordCloud')}</Label>
+                  <Switch
+                    id="audio-wakeWordCloud"
+                    checked={settings.wakeWordCloudFallback}
+                    disabled={!settings.wakeWord}
+                    onCheckedChange={(wakeWordCloudFallback) => updateSettings({ wakeWordCloudFallback })}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">{t('audioSettings.wakeWordCloudHint')}</p>
+              </>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="audio-sleep">{t('audioSettings.sleepAfter')}</Label>
+              <Select
+                value={String(settings.handsFreeSleepMs)}
+                onValueChange={(value) => updateSettings({ handsFreeSleepMs: Number(value) })}
+              >
+                <SelectTrigger id="audio-sleep">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {HANDS_FREE_SLEEP_OPTIONS_MS.map((ms) => (
+                    <SelectItem key={ms} value={String(ms)}>
+                      {formatSleepOption(ms, t)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+});
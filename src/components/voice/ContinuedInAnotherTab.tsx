@@ -0,0 +1,24 @@
+/**
+ * ContinuedInAnotherTab - Shown in place of the sphere when another tab owns the conversation
+ */
+import React, { memo } from 'react';
+import { AppWindow } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useLocale } from '@/hooks/useLocale';
+
+interface ContinuedInAnotherTabProps {
+  onTakeOver: () => void;
+}
+
+export const ContinuedInAnotherTab = memo(function ContinuedInAnotherTab({ onTakeOver }: ContinuedInAnotherTabProps) {
+  const { t } = useLocale();
+
+  return (
+    <div className="max-w-md rounded-lg border border-white/10 bg-black/30 p-8 text-center space-y-4" role="status">
+      <AppWindow className="w-10 h-10 mx-auto text-white/60" aria-hidden="true" />
+      <h2 className="text-xl font-semibold text-white">{t('voiceTab.title')}</h2>
+      <p className="text-sm text-white/60">{t('voiceTab.description')}</p>
+      <Button onClick={onTakeOver}>{t('voiceTab.takeOver')}</Button>
+    </div>
+  );
+});
@@ -1,20 +1,48 @@
 /**
  * ConversationHistory - Optimized conversation history component
+ * The current conversation, plus past ones archived on this device
  */
-import React, { memo } from 'react';
+import React, { memo, useState } from 'react';
+import { Check, Pencil, X } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { Card } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { AudioReplayButton } from '@/components/voice/AudioReplayButton';
+import { PastConversations } from '@/components/voice/PastConversations';
+import { TranscriptExportMenu } from '@/components/voice/TranscriptExportMenu';
+import { TranscriptText } from '@/components/voice/TranscriptText';
+import { useLocale } from '@/hooks/useLocale';
 import type { ConversationEntry } from '@/types/voice';
 
 interface ConversationHistoryProps {
+  conversationId?: string | null;
+  leadId?: string | null;
   transcriptions: ConversationEntry[];
   functionalities: string[];
   onClear: () => void;
+  onCorrectEntry?: (entryId: string, text: string) => void;
 }
 
-const ConversationEntry = memo(function ConversationEntry({ entry }: { entry: ConversationEntry }) {
+interface ConversationEntryProps {
+  entry: ConversationEntry;
+  onCorrect?: (entryId: string, text: string) => void;
+}
+
+const ConversationEntry = memo(function ConversationEntry({ entry, onCorrect }: ConversationEntryProps) {
+  const { t } = useLocale();
+  const [draft, setDraft] = useState<string | null>(null);
+  const canCorrect = onCorrect && entry.speaker === 'user' && !entry.pending;
+
+  const saveCorrection = () => {
+    if (draft !== null && draft.trim()) {
+      onCorrect?.(entry.id, draft.trim());
+    }
+    setDraft(null);
+  };
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 10 }}
@@ -27,68 +55,153 @@ const ConversationEntry = memo(function ConversationEntry({ entry }: { entry: Co
     >
       <div className="flex items-center gap-2 mb-1">
         <span className="text-xs text-white/60">
-          {entry.speaker === 'user' ? 'Você' : 'RENUS'}
+          {entry.speaker === 'user' ? t('common.you') : t('common.agent')}
         </span>
         <span className="text-xs text-white/40">
           {entry.timestamp.toLocaleTimeString()}
         </span>
+        {entry.correctedFrom && (
+          <span className="text-xs text-white/40" title={t('transcript.originalText', { text: entry.correctedFrom })}>
+            {t('transcript.corrected')}
+          </span>
+        )}
+        <span className="ml-auto flex items-center">
+          {canCorrect && draft === null && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 text-white/50 hover:text-white"
+              onClick={() => setDraft(entry.text)}
+              title={t('transcript.correct')}
+              aria-label={t('transcript.correct')}
+            >
+              <Pencil className="w-3 h-3" aria-hidden="true" />
+            </Button>
+          )}
+          {entry.audioUrl && <AudioReplayButton audioUrl={entry.audioUrl} />}
+        </span>
       </div>
-      <p className="text-sm text-white">{entry.text}</p>
+      {draft !== null ? (
+        <form
+          className="flex items-center gap-1"
+          onSubmit={(event) => {
+            event.preventDefault();
+            saveCorrection();
+          }}
+        >
+          <Input
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === 'Escape') {
+                event.stopPropagation();
+                setDraft(null);
+              }
+            }}
+            aria-label={t('transcript.correctLabel')}
+            className="h-8 text-sm"
+            autoFocus
+          />
+          <Button type="submit" variant="ghost" size="icon" className="h-8 w-8" aria-label={t('transcript.saveCorrection')}>
+            <Check className="w-4 h-4" aria-hidden="true" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => setDraft(null)}
+            aria-label={t('transcript.cancelCorrection')}
+          >
+            <X className="w-4 h-4" aria-hidden="true" />
+          </Button>
+        </form>
+      ) : (
+        <TranscriptText
+          text={entry.text}
+          words={entry.words}
+          className={`text-sm ${entry.pending ? 'text-white/50 italic' : 'text-white'}`}
+        />
+      )}
     </motion.div>
   );
 });
 
 export const ConversationHistory = memo(function ConversationHistory({
+  conversationId = null,
+  leadId = null,
   transcriptions,
   functionalities,
   onClear,
+  onCorrectEntry,
 }: ConversationHistoryProps) {
+  const { t } = useLocale();
+  const [tab, setTab] = useState<'current' | 'past'>('current');
+
   return (
     <Card className="bg-black/50 backdrop-blur-sm border-white/10 p-4">
-      <div className="flex items-center justify-between mb-4">
-        <h3 className="text-lg font-semibold text-white">Histórico</h3>
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={onClear}
-          disabled={transcriptions.length === 0}
-        >
-          Limpar
-        </Button>
-      </div>
-
-      <ScrollArea className="h-[500px]">
-        <div className="space-y-4">
-          {transcriptions.length === 0 ? (
-            <p className="text-white/40 text-center py-8">
-              Nenhuma conversa ainda
-            </p>
-          ) : (
-            transcriptions.map((entry) => (
-              <ConversationEntry key={entry.id} entry={entry} />
-            ))
+      <Tabs value={tab} onValueChange={(value) => setTab(value as 'current' | 'past')}>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-white">{t('history.title')}</h3>
+          {tab === 'current' && (
+            <div className="flex gap-1">
+              <TranscriptExportMenu data={{ conversationId, leadId, transcriptions, functionalities }} />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onClear}
+                disabled={transcriptions.length === 0}
+              >
+                {t('common.clear')}
+              </Button>
+            </div>
           )}
         </div>
-      </ScrollArea>
 
-      {/* Functionalities */}
-      {functionalities.length > 0 && (
-        <div className="mt-4 pt-4 border-t border-white/10">
-          <h4 className="text-sm font-semibold text-white mb-2">
-            Funcionalidades Identificadas
-          </h4>
-          <div className="flex flex-wrap gap-2">
-            {functionalities.map((func, idx) => (
-              <span
-                key={idx}
-                className="px-2 py-1 text-xs bg-purple-500/20 text-purple-300 rounded"
-              >
-                {func}
-              </span>
-            ))}
-          </div>
-        </div>
-      )}
+        <TabsList className="grid w-full grid-cols-2 mb-4 bg-white/5">
+          <TabsTrigger value="current">{t('history.current')}</TabsTrigger>
+          <TabsTrigger value="past">{t('history.past')}</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="past">
+          <PastConversations currentConversationId={conversationId} />
+        </TabsContent>
+
+        <TabsContent value="current">
+          <ScrollArea className="h-[500px]">
+            <div className="space-y-4">
+              {transcriptions.length === 0 ? (
+                <p className="text-white/40 text-center py-8">
+                  {t('history.empty')}
+                </p>
+              ) : (
+                transcriptions.map((entry) => (
+                  <ConversationEntry key={entry.id} entry={entry} onCorrect={onCorrectEntry} />
+                ))
+              )}
+            </div>
+          </ScrollArea>
+
+          {/* Functionalities */}
+          {functionalities.length > 0 && (
+            <div className="mt-4 pt-4 border-t border-white/10">
+              <h4 className="text-sm font-semibold text-white mb-2">
+                {t('history.functionalities')}
+              </h4>
+              <div className="flex flex-wrap gap-2">
+                {functionalities.map((func, idx) => (
+                  <span
+                    key={idx}
+                    className="px-2 py-1 text-xs bg-purple-500/20 text-purple-300 rounded"
+                  >
+                    {func}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+        </TabsContent>
+      </Tabs>
     </Card>
   );
 });
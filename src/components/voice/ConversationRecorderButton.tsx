@@ -0,0 +1,79 @@
+/**
+ * ConversationRecorderButton - Starts a conversation recording after explicit consent, and stops it
+ */
+import React, { memo, useState } from 'react';
+import { Circle, Square } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { useLocale } from '@/hooks/useLocale';
+import type { ConversationRecorderStatus } from '@/hooks/useConversationRecorder';
+
+interface ConversationRecorderButtonProps {
+  status: ConversationRecorderStatus;
+  isSupported: boolean;
+  disabled?: boolean;
+  onStart: (consentAt: Date) => void;
+  onStop: () => void;
+}
+
+export const ConversationRecorderButton = memo(function ConversationRecorderButton({
+  status,
+  isSupported,
+  disabled,
+  onStart,
+  onStop,
+}: ConversationRecorderButtonProps) {
+  const { t } = useLocale();
+  const [consentOpen, setConsentOpen] = useState(false);
+  const isRecording = status === 'recording';
+
+  const handleClick = () => {
+    if (isRecording) {
+      onStop();
+    } else {
+      setConsentOpen(true);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant={isRecording ? 'destructive' : 'outline'}
+        size="icon"
+        onClick={handleClick}
+        disabled={!isSupported || status === 'starting' || status === 'stopping' || (disabled && !isRecording)}
+        title={isSupported ? (isRecording ? t('recorder.stop') : t('recorder.start')) : t('recorder.unsupported')}
+        aria-label={isRecording ? t('recorder.stop') : t('recorder.start')}
+        aria-pressed={isRecording}
+      >
+        {isRecording ? (
+          <Square className="w-4 h-4" aria-hidden="true" />
+        ) : (
+          <Circle className="w-4 h-4 text-red-500" aria-hidden="true" />
+        )}
+      </Button>
+
+      <AlertDialog open={consentOpen} onOpenChange={setConsentOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('recorder.consentTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>{t('recorder.consentDescription')}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('recorder.cancel')}</AlertDialogCancel>
+            <AlertDialogAction onClick={() => onStart(new Date())}>{t('recorder.consentConfirm')}</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+});
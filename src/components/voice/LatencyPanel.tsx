@@ -0,0 +1,167 @@
+/**
+ * LatencyPanel - Dev-only latency breakdown for the voice pipeline
+ * Rolling p50/p95 per stage and a waterfall of the most recent turns
+ */
+import React, { memo, useState } from 'react';
+import { ChevronDown, Gauge } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { useLocale } from '@/hooks/useLocale';
+import type { MessageKey } from '@/lib/i18n';
+import type { LatencyMark, LatencyMetrics, LatencyStats, TurnLatency } from '@/types/voice';
+
+interface LatencyPanelProps {
+  turns: TurnLatency[];
+  stats: LatencyStats;
+  maxTurns?: number; // turns drawn in the waterfall, newest first
+}
+
+type ClientMark = Exclude<LatencyMark, 'speech_end'>;
+
+const CLIENT_MARKS: Array<{ mark: ClientMark; labelKey: MessageKey; color: string }> = [
+  { mark: 'first_transcription', labelKey: 'latency.mark.first_transcription', color: 'bg-sky-400' },
+  { mark: 'response', labelKey: 'latency.mark.response', color: 'bg-violet-400' },
+  { mark: 'first_audio', labelKey: 'latency.mark.first_audio', color: 'bg-amber-400' },
+  { mark: 'playback_start', labelKey: 'latency.mark.playback_start', color: 'bg-green-400' },
+];
+
+const SERVER_STAGES: Array<{ stage: Exclude<keyof LatencyMetrics, 'total'>; labelKey: MessageKey; color: string }> = [
+  { stage: 'stt', labelKey: 'latency.stage.stt', color: 'bg-sky-600' },
+  { stage: 'agent', labelKey: 'latency.stage.agent', color: 'bg-violet-600' },
+  { stage: 'tts', labelKey: 'latency.stage.tts', color: 'bg-amber-600' },
+];
+
+const formatMs = (ms: number | undefined) => (ms === undefined ? '—' : `${Math.round(ms)} ms`);
+
+/**
+ * Longest time on a turn's timeline, client or server
+ */
+function turnSpan(turn: TurnLatency): number {
+  return Math.max(0, ...Object.values(turn.marks), turn.server?.total ?? 0);
+}
+
+const TurnWaterfall = memo(function TurnWaterfall({ turn, scale }: { turn: TurnLatency; scale: number }) {
+  const { t } = useLocale();
+  const percent = (ms: number) => `${(ms / scale) * 100}%`;
+  let previous = 0;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-xs text-white/60">
+        <span>{t('latency.turn', { id: turn.id, input: t(`latency.input.${turn.input}`) })}</span>
+        <span>{formatMs(turn.marks.playback_start ?? turn.server?.total)}</span>
+      </div>
+
+      {/* Client marks: each segment runs from the previous mark to this one */}
+      <div className="relative h-3 rounded bg-white/5" aria-label={t('latency.clientMarksLabel', { id: turn.id })}>
+        {CLIENT_MARKS.map(({ mark, labelKey, color }) => {
+          const at = turn.marks[mark];
+          if (at === undefined) return null;
+          const start = Math.min(previous, at);
+          previous = Math.max(previous, at);
+          return (
+            <div
+              key={mark}
+              className={`absolute top-0 h-full rounded ${color}`}
+              style={{ left: percent(start), width: `max(2px, ${percent(at - start)})` }}
+              title={`${t(labelKey)}: ${formatMs(at)}`}
+            />
+          );
+        })}
+      </div>
+
+      {/* Server stages, stacked in pipeline order */}
+      {turn.server && (
+        <div className="flex h-2 rounded bg-white/5 overflow-hidden" aria-label={t('latency.serverStagesLabel', { id: turn.id })}>
+          {SERVER_STAGES.map(({ stage, labelKey, color }) => (
+            <div
+              key={stage}
+              className={color}
+              style={{ width: percent(turn.server![stage]) }}
+              title={`${t(labelKey)}: ${formatMs(turn.server![stage])}`}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
+
+export const LatencyPanel = memo(function LatencyPanel({ turns, stats, maxTurns = 5 }: LatencyPanelProps) {
+  const { t } = useLocale();
+  const [open, setOpen] = useState(false);
+
+  const recent = turns.slice(-maxTurns).reverse();
+  const scale = Math.max(1, ...recent.map(turnSpan));
+
+  return (
+    <Card className="bg-black/50 backdrop-blur-sm border-white/10 p-4 w-full max-w-6xl">
+      <Collapsible open={open} onOpenChange={setOpen}>
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="sm" className="w-full justify-between text-white/80">
+            <span className="flex items-center gap-2">
+              <Gauge className="w-4 h-4" aria-hidden="true" />
+              {t('latency.title')}
+              {stats.client.playback_start && (
+                <span className="text-xs text-white/50">
+                  p50 {formatMs(stats.client.playback_start.p50)} · p95 {formatMs(stats.client.playback_start.p95)}
+                </span>
+              )}
+            </span>
+            <ChevronDown className={`w-4 h-4 transition-transform ${open ? 'rotate-180' : ''}`} aria-hidden="true" />
+          </Button>
+        </CollapsibleTrigger>
+
+        <CollapsibleContent className="mt-4 grid gap-6 md:grid-cols-2">
+          {/* Rolling percentiles */}
+          <table className="w-full text-xs text-white/80">
+            <thead>
+              <tr className="text-white/50">
+                <th className="text-left font-normal pb-1">{t('latency.stage')}</th>
+                <th className="text-right font-normal pb-1">p50</th>
+                <th className="text-right font-normal pb-1">p95</th>
+                <th className="text-right font-normal pb-1">n</th>
+              </tr>
+            </thead>
+            <tbody>
+              {CLIENT_MARKS.map(({ mark, labelKey, color }) => (
+                <tr key={mark}>
+                  <td className="py-0.5">
+                    <span className={`inline-block w-2 h-2 rounded-full mr-2 ${color}`} aria-hidden="true" />
+                    {t(labelKey)}
+                  </td>
+                  <td className="text-right">{formatMs(stats.client[mark]?.p50)}</td>
+                  <td className="text-right">{formatMs(stats.client[mark]?.p95)}</td>
+                  <td className="text-right text-white/50">{stats.client[mark]?.count ?? 0}</td>
+                </tr>
+              ))}
+              {[...SERVER_STAGES, { stage: 'total' as const, labelKey: 'latency.stage.total' as const, color: 'bg-white/60' }].map(
+                ({ stage, labelKey, color }) => (
+                  <tr key={stage}>
+                    <td className="py-0.5">
+                      <span className={`inline-block w-2 h-2 rounded-full mr-2 ${color}`} aria-hidden="true" />
+                      {t('latency.server', { stage: t(labelKey) })}
+                    </td>
+                    <td className="text-right">{formatMs(stats.server[stage]?.p50)}</td>
+                    <td className="text-right">{formatMs(stats.server[stage]?.p95)}</td>
+                    <td className="text-right text-white/50">{stats.server[stage]?.count ?? 0}</td>
+                  </tr>
+                )
+              )}
+            </tbody>
+          </table>
+
+          {/* Per-turn waterfall, times relative to the end of the user's speech */}
+          <div className="space-y-3">
+            {recent.length === 0 ? (
+              <p className="text-white/40 text-xs text-center py-4">{t('latency.empty')}</p>
+            ) : (
+              recent.map((turn) => <TurnWaterfall key={turn.id} turn={turn} scale={scale} />)
+            )}
+          </div>
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  );
+});
@@ -0,0 +1,194 @@
+/**
+ * PastConversations - Browse, search and replay conversations archived on this device
+ */
+import React, { memo, useState } from 'react';
+import { ArrowLeft, Search, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AudioReplayButton } from '@/components/voice/AudioReplayButton';
+import { TranscriptExportMenu } from '@/components/voice/TranscriptExportMenu';
+import { useLocale } from '@/hooks/useLocale';
+import {
+  storedEntryToConversationEntry,
+  useDeleteTranscript,
+  useTranscriptConversations,
+  useTranscriptEntries,
+  useTranscriptSearch,
+} from '@/hooks/useTranscripts';
+import { getLocale } from '@/lib/i18n';
+import { transcriptStore, type StoredConversation, type StoredEntry } from '@/lib/transcript-store';
+
+interface PastConversationsProps {
+  currentConversationId?: string | null;
+}
+
+const formatDate = (epochMs: number) =>
+  new Date(epochMs).toLocaleString(getLocale(), { dateStyle: 'short', timeStyle: 'short' });
+
+const ArchivedEntry = memo(function ArchivedEntry({ entry }: { entry: StoredEntry }) {
+  const { t } = useLocale();
+
+  return (
+    <div className={`p-3 rounded-lg ${entry.speaker === 'user' ? 'bg-blue-500/20 ml-4' : 'bg-green-500/20 mr-4'}`}>
+      <div className="flex items-center gap-2 mb-1">
+        <span className="text-xs text-white/60">{entry.speaker === 'user' ? t('common.you') : t('common.agent')}</span>
+        <span className="text-xs text-white/40">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+        {entry.hasAudio && (
+          <span className="ml-auto">
+            <AudioReplayButton conversationId={entry.conversationId} entryId={entry.id} />
+          </span>
+        )}
+      </div>
+      <p className="text-sm text-white">{entry.text}</p>
+    </div>
+  );
+});
+
+function ConversationDetail({ conversation, onBack }: { conversation: StoredConversation; onBack: () => void }) {
+  const { t } = useLocale();
+  const { data: entries = [], isLoading } = useTranscriptEntries(conversation.id);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Button variant="ghost" size="sm" onClick={onBack} className="gap-1 text-white/70">
+          <ArrowLeft className="w-4 h-4" aria-hidden="true" />
+          {t('common.back')}
+        </Button>
+        {/* Functionalities aren't archived, only the dialogue */}
+        <TranscriptExportMenu
+          data={{
+            conversationId: conversation.id,
+            leadId: conversation.leadId,
+            transcriptions: entries.map(storedEntryToConversationEntry),
+            functionalities: [],
+          }}
+        />
+      </div>
+      {isLoading ? (
+        <p className="text-white/40 text-center py-8">{t('common.loading')}</p>
+      ) : (
+        entries.map((entry) => <ArchivedEntry key={entry.id} entry={entry} />)
+      )}
+    </div>
+  );
+}
+
+function ConversationItem({
+  conversation,
+  isCurrent,
+  onOpen,
+  onDelete,
+}: {
+  conversation: StoredConversation;
+  isCurrent: boolean;
+  onOpen: () => void;
+  onDelete: () => void;
+}) {
+  const { t } = useLocale();
+
+  return (
+    <div className="flex items-start gap-2 p-3 rounded-lg bg-white/5 hover:bg-white/10">
+      <button type="button" className="flex-1 text-left min-w-0" onClick={onOpen}>
+        <p className="text-sm text-white truncate">{conversation.preview}</p>
+        <p className="text-xs text-white/40">
+          {formatDate(conversation.updatedAt)} · {t('history.messageCount', { count: conversation.entryCount })}
+          {isCurrent && ` · ${t('history.currentTag')}`}
+        </p>
+      </button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7 text-white/40 hover:text-red-300"
+        onClick={onDelete}
+        aria-label={t('history.deleteLabel')}
+        title={t('history.delete')}
+      >
+        <Trash2 className="w-4 h-4" aria-hidden="true" />
+      </Button>
+    </div>
+  );
+}
+
+export const PastConversations = memo(function PastConversations({ currentConversationId }: PastConversationsProps) {
+  const { t } = useLocale();
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState<StoredConversation | null>(null);
+
+  const { data: conversations = [], isLoading } = useTranscriptConversations();
+  const { data: results = [] } = useTranscriptSearch(query);
+  const deleteTranscript = useDeleteTranscript();
+
+  if (!transcriptStore.isSupported) {
+    return (
+      <p className="text-white/40 text-center py-8">
+        {t('history.unsupported')}
+      </p>
+    );
+  }
+
+  if (selected) {
+    return (
+      <ScrollArea className="h-[500px]">
+        <ConversationDetail conversation={selected} onBack={() => setSelected(null)} />
+      </ScrollArea>
+    );
+  }
+
+  const isSearching = query.trim().length >= 2;
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-white/40" aria-hidden="true" />
+        <Input
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder={t('history.searchPlaceholder')}
+          aria-label={t('history.searchLabel')}
+          className="pl-8 bg-white/5 border-white/10 text-white placeholder:text-white/40"
+        />
+      </div>
+
+      <ScrollArea className="h-[450px]">
+        <div className="space-y-2">
+          {isSearching ? (
+            results.length === 0 ? (
+              <p className="text-white/40 text-center py-8">{t('history.noResults')}</p>
+            ) : (
+              results.map(({ conversation, entry }) => (
+                <button
+                  key={`${conversation.id}/${entry.id}`}
+                  type="button"
+                  className="w-full text-left p-3 rounded-lg bg-white/5 hover:bg-white/10"
+                  onClick={() => setSelected(conversation)}
+                >
+                  <p className="text-sm text-white line-clamp-2">
+                    <span className="text-white/60">{entry.speaker === 'user' ? t('common.you') : t('common.agent')}: </span>
+                    {entry.text}
+                  </p>
+                  <p className="text-xs text-white/40">{formatDate(entry.timestamp)}</p>
+                </button>
+              ))
+            )
+          ) : isLoading ? (
+            <p className="text-white/40 text-center py-8">{t('common.loading')}</p>
+          ) : conversations.length === 0 ? (
+            <p className="text-white/40 text-center py-8">{t('history.noSaved')}</p>
+          ) : (
+            conversations.map((conversation) => (
+              <ConversationItem
+                key={conversation.id}
+                conversation={conversation}
+                isCurrent={conversation.id === currentConversationId}
+                onOpen={() => setSelected(conversation)}
+                onDelete={() => deleteTranscript.mutate(conversation.id)}
+              />
+            ))
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+});
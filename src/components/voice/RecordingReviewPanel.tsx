@@ -0,0 +1,110 @@
+/**
+ * RecordingReviewPanel - Playback of the finished conversation recording with a chapter per turn
+ * Chapters jump the player to that turn; downloads are WebM (+ chapters file) or WAV
+ */
+import React, { memo, useEffect, useMemo, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { Download, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { useLocale } from '@/hooks/useLocale';
+import type { ConversationRecording } from '@/lib/conversation-recorder';
+import { handleError } from '@/lib/error-handler';
+import {
+  buildChapters,
+  downloadRecording,
+  formatRecordingTime,
+  type RecordingDownloadFormat,
+} from '@/lib/recording-export';
+import type { ConversationEntry } from '@/types/voice';
+
+interface RecordingReviewPanelProps {
+  recording: ConversationRecording;
+  entries: ConversationEntry[];
+  conversationId: string | null;
+  onDiscard: () => void;
+}
+
+export const RecordingReviewPanel = memo(function RecordingReviewPanel({
+  recording,
+  entries,
+  conversationId,
+  onDiscard,
+}: RecordingReviewPanelProps) {
+  const { t } = useLocale();
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [downloading, setDownloading] = useState<RecordingDownloadFormat | null>(null);
+
+  const audioUrl = useMemo(() => URL.createObjectURL(recording.blob), [recording]);
+  useEffect(() => () => URL.revokeObjectURL(audioUrl), [audioUrl]);
+
+  const chapters = useMemo(() => buildChapters(entries, recording.durationMs), [entries, recording]);
+
+  const seekTo = (ms: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = ms / 1000;
+    audio.play().catch(() => undefined);
+  };
+
+  const handleDownload = async (downloadFormat: RecordingDownloadFormat) => {
+    setDownloading(downloadFormat);
+    try {
+      await downloadRecording(recording, entries, conversationId, downloadFormat);
+    } catch (err) {
+      handleError(err, t('recorder.downloadFailed'));
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <Card className="bg-black/50 backdrop-blur-sm border-white/10 p-4 w-full max-w-6xl">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <div>
+          <h3 className="text-lg font-semibold text-white">{t('recorder.reviewTitle')}</h3>
+          <p className="text-xs text-white/60">
+            {t('recorder.reviewMeta', {
+              duration: formatRecordingTime(recording.durationMs),
+              consentAt: format(recording.consentAt, 'HH:mm:ss'),
+            })}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => handleDownload('webm')} disabled={downloading !== null}>
+            <Download className="w-4 h-4 mr-2" aria-hidden="true" />
+            {downloading === 'webm' ? t('common.processing') : t('recorder.downloadWebm')}
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => handleDownload('wav')} disabled={downloading !== null}>
+            <Download className="w-4 h-4 mr-2" aria-hidden="true" />
+            {downloading === 'wav' ? t('common.processing') : t('recorder.downloadWav')}
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onDiscard} aria-label={t('recorder.discard')}>
+            <Trash2 className="w-4 h-4" aria-hidden="true" />
+          </Button>
+        </div>
+      </div>
+
+      <audio ref={audioRef} src={audioUrl} controls className="w-full" />
+
+      {chapters.length > 0 ? (
+        <ol className="mt-3 space-y-1 max-h-48 overflow-y-auto" aria-label={t('recorder.chapters')}>
+          {chapters.map((chapter) => (
+            <li key={chapter.entryId}>
+              <button
+                type="button"
+                onClick={() => seekTo(chapter.start)}
+                className="w-full text-left text-sm text-white/80 hover:text-white hover:bg-white/10 rounded px-2 py-1"
+              >
+                <span className="font-mono text-xs text-white/50 mr-2">{formatRecordingTime(chapter.start)}</span>
+                {chapter.title}
+              </button>
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <p className="mt-3 text-sm text-white/50">{t('recorder.noChapters')}</p>
+      )}
+    </Card>
+  );
+});
@@ -0,0 +1,53 @@
+/**
+ * StaticVoiceIndicator - Motionless stand-in for the animated sphere in reduced-motion mode
+ * The state is carried by color, icon and the label under it instead of movement
+ */
+import React, { memo } from 'react';
+import { Brain, Mic, Moon, Power, Volume2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { AgentState, HandsFreeState } from '@/types/voice';
+
+interface StaticVoiceIndicatorProps {
+  state: AgentState;
+  audioLevel?: number; // 0-100
+  handsFree?: HandsFreeState;
+  size: number;
+}
+
+const STATE_STYLES: Record<AgentState, { ring: string; icon: typeof Mic }> = {
+  idle: { ring: 'border-white/30 bg-white/5 text-white/70', icon: Power },
+  listening: { ring: 'border-green-400 bg-green-500/15 text-green-300', icon: Mic },
+  thinking: { ring: 'border-purple-400 bg-purple-500/15 text-purple-300', icon: Brain },
+  speaking: { ring: 'border-blue-400 bg-blue-500/15 text-blue-300', icon: Volume2 },
+};
+
+export const StaticVoiceIndicator = memo(function StaticVoiceIndicator({
+  state,
+  audioLevel = 0,
+  handsFree = 'off',
+  size,
+}: StaticVoiceIndicatorProps) {
+  const { ring, icon } = state === 'idle' && handsFree === 'sleeping' ? { ...STATE_STYLES.idle, icon: Moon } : STATE_STYLES[state];
+  const Icon = icon;
+
+  return (
+    <div
+      className={cn(
+        'relative flex items-center justify-center rounded-full border-4',
+        ring,
+        handsFree === 'awake' && 'outline outline-2 outline-offset-8 outline-emerald-400/70'
+      )}
+      style={{ width: size * 0.75, height: size * 0.75 }}
+      aria-hidden="true"
+    >
+      <Icon style={{ width: size / 4, height: size / 4 }} strokeWidth={1.5} />
+
+      {/* Input level as a plain bar: it changes with the voice, but nothing moves on its own */}
+      {state === 'listening' && (
+        <div className="absolute bottom-8 left-1/2 -translate-x-1/2 w-1/2 h-2 bg-black/50 rounded-full overflow-hidden">
+          <div className="h-full bg-green-400" style={{ width: `${audioLevel}%` }} />
+        </div>
+      )}
+    </div>
+  );
+});
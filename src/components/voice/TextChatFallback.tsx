@@ -6,23 +6,31 @@ import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Send } from 'lucide-react';
+import { useLocale } from '@/hooks/useLocale';
+import { Send, Volume2, VolumeX } from 'lucide-react';
 import { motion } from 'framer-motion';
 import type { ConversationEntry } from '@/types/voice';
 
 interface TextChatFallbackProps {
   transcriptions: ConversationEntry[];
+  partial?: { speaker: ConversationEntry['speaker']; text: string } | null; // streamed text not final yet
   onSendMessage: (message: string) => void;
   isConnected: boolean;
   isProcessing: boolean;
+  speakReplies?: boolean;
+  onSpeakRepliesChange?: (speak: boolean) => void;
 }
 
 export const TextChatFallback = memo(function TextChatFallback({
   transcriptions,
+  partial,
   onSendMessage,
   isConnected,
   isProcessing,
+  speakReplies = false,
+  onSpeakRepliesChange,
 }: TextChatFallbackProps) {
+  const { t } = useLocale();
   const [message, setMessage] = useState('');
   const scrollRef = useRef<HTMLDivElement>(null);
 
@@ -31,7 +39,7 @@ export const TextChatFallback = memo(function TextChatFallback({
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [transcriptions]);
+  }, [transcriptions, partial]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -43,19 +51,38 @@ export const TextChatFallback = memo(function TextChatFallback({
 
   return (
     <Card className="w-full max-w-2xl bg-black/50 backdrop-blur-sm border-white/10 p-4">
-      <div className="mb-4">
-        <h3 className="text-lg font-semibold text-white mb-1">Modo Texto</h3>
-        <p className="text-sm text-white/60">
-          Converse com o agente por texto
-        </p>
+      <div className="mb-4 flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white mb-1">{t('textChat.title')}</h3>
+          <p className="text-sm text-white/60">
+            {t('textChat.subtitle')}
+          </p>
+        </div>
+        {onSpeakRepliesChange && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => onSpeakRepliesChange(!speakReplies)}
+            title={speakReplies ? t('textChat.muteReplies') : t('textChat.speakReplies')}
+            aria-label={speakReplies ? t('textChat.muteRepliesLabel') : t('textChat.speakRepliesLabel')}
+            aria-pressed={speakReplies}
+            className="text-white/70 hover:text-white"
+          >
+            {speakReplies ? (
+              <Volume2 className="w-4 h-4" aria-hidden="true" />
+            ) : (
+              <VolumeX className="w-4 h-4" aria-hidden="true" />
+            )}
+          </Button>
+        )}
       </div>
 
       {/* Messages */}
       <ScrollArea className="h-[400px] mb-4 pr-4" ref={scrollRef}>
         <div className="space-y-3">
-          {transcriptions.length === 0 ? (
+          {transcriptions.length === 0 && !partial ? (
             <p className="text-white/40 text-center py-8">
-              Nenhuma mensagem ainda. Digite algo para começar.
+              {t('textChat.empty')}
             </p>
           ) : (
             transcriptions.map((entry) => (
@@ -71,7 +98,7 @@ export const TextChatFallback = memo(function TextChatFallback({
               >
                 <div className="flex items-center gap-2 mb-1">
                   <span className="text-xs font-semibold text-white/80">
-                    {entry.speaker === 'user' ? 'Você' : 'RENUS'}
+                    {entry.speaker === 'user' ? t('common.you') : t('common.agent')}
                   </span>
                   <span className="text-xs text-white/40">
                     {entry.timestamp.toLocaleTimeString()}
@@ -81,6 +108,21 @@ export const TextChatFallback = memo(function TextChatFallback({
               </motion.div>
             ))
           )}
+          {partial && (
+            <div
+              className={`p-3 rounded-lg opacity-60 ${
+                partial.speaker === 'user'
+                  ? 'bg-blue-500/10 ml-8'
+                  : 'bg-green-500/10 mr-8'
+              }`}
+              aria-live="polite"
+            >
+              <span className="text-xs font-semibold text-white/80 block mb-1">
+                {partial.speaker === 'user' ? t('common.you') : t('common.agent')}
+              </span>
+              <p className="text-sm text-white italic leading-relaxed">{partial.text}</p>
+            </div>
+          )}
         </div>
       </ScrollArea>
 
@@ -92,17 +134,17 @@ export const TextChatFallback = memo(function TextChatFallback({
           onChange={(e) => setMessage(e.target.value)}
           placeholder={
             isConnected
-              ? 'Digite sua mensagem...'
-              : 'Aguardando conexão...'
+              ? t('textChat.placeholder')
+              : t('textChat.waiting')
           }
           disabled={!isConnected || isProcessing}
           className="flex-1 bg-white/5 border-white/10 text-white placeholder:text-white/40"
-          aria-label="Campo de mensagem"
+          aria-label={t('textChat.inputLabel')}
         />
         <Button
           type="submit"
           disabled={!isConnected || isProcessing || !message.trim()}
-          aria-label="Enviar mensagem"
+          aria-label={t('textChat.send')}
         >
           <Send className="w-4 h-4" aria-hidden="true" />
         </Button>
@@ -111,12 +153,12 @@ export const TextChatFallback = memo(function TextChatFallback({
       {/* Status */}
       {!isConnected && (
         <p className="text-xs text-red-400 mt-2">
-          Desconectado. Tentando reconectar...
+          {t('textChat.reconnecting')}
         </p>
       )}
       {isProcessing && (
         <p className="text-xs text-blue-400 mt-2">
-          Processando...
+          {t('common.processing')}
         </p>
       )}
     </Card>
@@ -0,0 +1,79 @@
+/**
+ * TranscriptExportMenu - Download a conversation as Markdown, JSON, subtitles or PDF
+ */
+import React, { memo } from 'react';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useLocale } from '@/hooks/useLocale';
+import { handleError } from '@/lib/error-handler';
+import type { MessageKey } from '@/lib/i18n';
+import { exportTranscript, type TranscriptExportData, type TranscriptExportFormat } from '@/lib/transcript-export';
+
+interface TranscriptExportMenuProps {
+  data: TranscriptExportData;
+  disabled?: boolean;
+}
+
+// Labels are either format names, the same in every language, or message keys
+const DOCUMENT_FORMATS: Array<{ format: TranscriptExportFormat; label: string; labelKey?: MessageKey }> = [
+  { format: 'markdown', label: 'Markdown (.md)' },
+  { format: 'json', label: 'JSON (.json)' },
+  { format: 'pdf', label: 'PDF', labelKey: 'export.pdf' },
+];
+
+const SUBTITLE_FORMATS: Array<{ format: TranscriptExportFormat; label: string }> = [
+  { format: 'srt', label: 'SubRip (.srt)' },
+  { format: 'vtt', label: 'WebVTT (.vtt)' },
+];
+
+export const TranscriptExportMenu = memo(function TranscriptExportMenu({ data, disabled }: TranscriptExportMenuProps) {
+  const { t } = useLocale();
+
+  const handleExport = (format: TranscriptExportFormat) => {
+    try {
+      exportTranscript(data, format);
+    } catch (err) {
+      handleError(err, t('export.failed'));
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="gap-1"
+          disabled={disabled || data.transcriptions.length === 0}
+          aria-label={t('export.label')}
+        >
+          <Download className="w-4 h-4" aria-hidden="true" />
+          {t('export.button')}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>{t('export.document')}</DropdownMenuLabel>
+        {DOCUMENT_FORMATS.map(({ format, label, labelKey }) => (
+          <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+            {labelKey ? t(labelKey) : label}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>{t('export.subtitles')}</DropdownMenuLabel>
+        {SUBTITLE_FORMATS.map(({ format, label }) => (
+          <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+            {label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+});
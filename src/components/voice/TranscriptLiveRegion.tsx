@@ -0,0 +1,57 @@
+/**
+ * TranscriptLiveRegion - Screen-reader announcement of each new conversation entry
+ * Always mounted, whether or not the history panel is open. User utterances are announced
+ * once their final transcript is in; restored history is not read out again.
+ */
+import React, { memo, useEffect, useRef, useState } from 'react';
+import { useLocale } from '@/hooks/useLocale';
+import type { ConversationEntry } from '@/types/voice';
+
+interface TranscriptLiveRegionProps {
+  entries: ConversationEntry[];
+}
+
+interface Announcement {
+  id: string;
+  text: string;
+}
+
+// Only the latest few stay in the DOM; older ones have already been read
+const MAX_ANNOUNCEMENTS = 5;
+
+export const TranscriptLiveRegion = memo(function TranscriptLiveRegion({ entries }: TranscriptLiveRegionProps) {
+  const { t } = useLocale();
+  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+  // Entries present on mount count as already announced
+  const announcedRef = useRef<Set<string> | null>(null);
+
+  useEffect(() => {
+    if (!announcedRef.current) {
+      announcedRef.current = new Set(entries.map((entry) => entry.id));
+      return;
+    }
+
+    const announced = announcedRef.current;
+    const fresh = entries.filter((entry) => !entry.pending && !announced.has(entry.id));
+    if (fresh.length === 0) return;
+
+    fresh.forEach((entry) => announced.add(entry.id));
+    setAnnouncements((prev) =>
+      [
+        ...prev,
+        ...fresh.map((entry) => ({
+          id: entry.id,
+          text: `${entry.speaker === 'user' ? t('common.you') : t('common.agent')}: ${entry.text}`,
+        })),
+      ].slice(-MAX_ANNOUNCEMENTS)
+    );
+  }, [entries, t]);
+
+  return (
+    <div role="log" aria-live="polite" aria-relevant="additions" aria-label={t('a11y.transcriptLabel')} className="sr-only">
+      {announcements.map((announcement) => (
+        <p key={announcement.id}>{announcement.text}</p>
+      ))}
+    </div>
+  );
+});
@@ -0,0 +1,48 @@
+/**
+ * TranscriptText - A transcript with the words the STT engine was unsure about highlighted
+ */
+import React, { memo } from 'react';
+import { useLocale } from '@/hooks/useLocale';
+import type { TranscriptWord } from '@/types/voice';
+
+interface TranscriptTextProps {
+  text: string;
+  words?: TranscriptWord[];
+  className?: string;
+}
+
+// Words below this confidence are likely misheard
+const LOW_CONFIDENCE = 0.6;
+
+export const TranscriptText = memo(function TranscriptText({ text, words, className }: TranscriptTextProps) {
+  const { t } = useLocale();
+
+  if (!words?.some((word) => word.confidence < LOW_CONFIDENCE)) {
+    return <p className={className}>{text}</p>;
+  }
+
+  return (
+    <p className={className}>
+      {words.map((word, i) => {
+        const separator = i > 0 ? ' ' : '';
+        if (word.confidence >= LOW_CONFIDENCE) {
+          return `${separator}${word.word}`;
+        }
+
+        const label = t('transcript.lowConfidence', { percent: Math.round(word.confidence * 100) });
+        return (
+          <React.Fragment key={i}>
+            {separator}
+            <span
+              className="underline decoration-dotted decoration-amber-400 underline-offset-4 text-amber-100"
+              title={label}
+              aria-label={`${word.word} (${label})`}
+            >
+              {word.word}
+            </span>
+          </React.Fragment>
+        );
+      })}
+    </p>
+  );
+});
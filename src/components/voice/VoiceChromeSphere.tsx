@@ -4,16 +4,24 @@
 import React, { useEffect, useState, memo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { cn } from '@/lib/utils';
-import type { AgentState } from '@/types/voice';
+import { useLocale } from '@/hooks/useLocale';
+import { useReducedMotion } from '@/hooks/useAccessibility';
+import { StaticVoiceIndicator } from '@/components/voice/StaticVoiceIndicator';
+import type { AgentState, HandsFreeState } from '@/types/voice';
 
 interface VoiceChromeSphereProps {
   state: AgentState;
   audioLevel?: number; // 0-100
   transcription?: string;
+  transcriptionInterim?: boolean; // still being recognized, may change
   isConnected: boolean;
+  isOffline?: boolean; // browser-only fallback while the server is unreachable
+  handsFree?: HandsFreeState;
+  wakeWord?: boolean; // a sleeping hands-free mode wakes on "RENUS"
   size?: number;
   onActivate?: () => void;
   onDeactivate?: () => void;
+  onInterrupt?: () => void;
   showTranscription?: boolean;
   showConnectionStatus?: boolean;
 }
@@ -24,13 +32,20 @@ export const VoiceChromeSphere = memo(function VoiceChromeSphere({
   state,
   audioLevel = 0,
   transcription,
+  transcriptionInterim = false,
   isConnected,
+  isOffline = false,
+  handsFree = 'off',
+  wakeWord = false,
   size = SPHERE_SIZE,
   onActivate,
   onDeactivate,
+  onInterrupt,
   showTranscription = true,
   showConnectionStatus = true,
 }: VoiceChromeSphereProps) {
+  const { t } = useLocale();
+  const reducedMotion = useReducedMotion();
   const [glowIntensity, setGlowIntensity] = useState(0);
   const [waveExpansion, setWaveExpansion] = useState(1);
 
@@ -169,6 +184,8 @@ export const VoiceChromeSphere = memo(function VoiceChromeSphere({
       onActivate();
     } else if (state === 'listening' && onDeactivate) {
       onDeactivate();
+    } else if (state === 'speaking' && onInterrupt) {
+      onInterrupt();
     }
   };
 
@@ -180,102 +197,121 @@ export const VoiceChromeSphere = memo(function VoiceChromeSphere({
           <div
             className={cn(
               'w-2 h-2 rounded-full',
-              isConnected ? 'bg-green-500 animate-pulse' : 'bg-red-500'
+              isConnected ? 'bg-green-500 animate-pulse' : isOffline ? 'bg-yellow-500' : 'bg-red-500'
             )}
           />
           <span className="text-xs text-white/80">
-            {isConnected ? 'Conectado' : 'Desconectado'}
+            {isConnected ? t('common.connected') : isOffline ? t('offline.badge') : t('common.disconnected')}
           </span>
         </div>
       )}
 
-      {/* Main Sphere Container */}
+      {/* Main Sphere Container (dimmed while hands-free mode sleeps) */}
       <div
-        className="relative flex items-center justify-center cursor-pointer"
+        className={cn(
+          'relative flex items-center justify-center cursor-pointer transition-[opacity,filter] duration-700',
+          handsFree === 'sleeping' && 'opacity-50 grayscale'
+        )}
         style={{ width: size, height: size }}
         onClick={handleClick}
       >
-        {/* Concentric Waves */}
-        <AnimatePresence>
-          {(state === 'listening' || state === 'speaking' || state === 'thinking') && (
-            <>
-              {[0, 1, 2].map((i) => (
-                <motion.div
-                  key={`wave-${i}`}
-                  className="absolute inset-0 rounded-full border-2"
-                  style={{
-                    borderColor: state === 'speaking' ? 'rgba(59, 130, 246, 0.5)' : 'rgba(34, 197, 94, 0.5)',
-                  }}
-                  variants={waveVariants}
-                  initial="idle"
-                  animate={state}
-                  exit="idle"
-                  custom={i}
-                  transition={{ delay: i * 0.3 }}
-                />
-              ))}
-            </>
-          )}
-        </AnimatePresence>
+        {reducedMotion ? (
+          <StaticVoiceIndicator state={state} audioLevel={audioLevel} handsFree={handsFree} size={size} />
+        ) : (
+          <>
+            {/* Hands-free ring: the mic comes back on its own after each turn */}
+            {handsFree === 'awake' && (
+              <motion.div
+                className="absolute -inset-4 rounded-full border-2 border-emerald-400/60"
+                animate={{ opacity: [0.4, 0.9, 0.4] }}
+                transition={{ duration: 3, repeat: Infinity, ease: 'easeInOut' }}
+                aria-hidden="true"
+              />
+            )}
 
-        {/* Outer Glow */}
-        <motion.div
-          className="absolute inset-0 rounded-full"
-          style={{
-            background: `radial-gradient(circle, rgba(59, 130, 246, ${glowIntensity}) 0%, transparent 70%)`,
-            filter: 'blur(40px)',
-          }}
-          variants={glowVariants}
-          animate={state}
-        />
+            {/* Concentric Waves */}
+            <AnimatePresence>
+              {(state === 'listening' || state === 'speaking' || state === 'thinking') && (
+                <>
+                  {[0, 1, 2].map((i) => (
+                    <motion.div
+                      key={`wave-${i}`}
+                      className="absolute inset-0 rounded-full border-2"
+                      style={{
+                        borderColor: state === 'speaking' ? 'rgba(59, 130, 246, 0.5)' : 'rgba(34, 197, 94, 0.5)',
+                      }}
+                      variants={waveVariants}
+                      initial="idle"
+                      animate={state}
+                      exit="idle"
+                      custom={i}
+                      transition={{ delay: i * 0.3 }}
+                    />
+                  ))}
+                </>
+              )}
+            </AnimatePresence>
 
-        {/* Thinking Particles */}
-        <AnimatePresence>
-          {state === 'thinking' && (
+            {/* Outer Glow */}
             <motion.div
-              className="absolute inset-0"
-              variants={particleVariants}
-              animate="thinking"
-            >
-              {[0, 1, 2, 3].map((i) => (
-                <div
-                  key={`particle-${i}`}
-                  className="absolute w-2 h-2 bg-blue-400 rounded-full"
-                  style={{
-                    top: '50%',
-                    left: '50%',
-                    transform: `rotate(${i * 90}deg) translateX(${size / 3}px)`,
-                  }}
-                />
-              ))}
-            </motion.div>
-          )}
-        </AnimatePresence>
+              className="absolute inset-0 rounded-full"
+              style={{
+                background: `radial-gradient(circle, rgba(59, 130, 246, ${glowIntensity}) 0%, transparent 70%)`,
+                filter: 'blur(40px)',
+              }}
+              variants={glowVariants}
+              animate={state}
+            />
 
-        {/* Core Sphere Image */}
-        <motion.div
-          className="relative z-10"
-          style={{ width: size, height: size }}
-          variants={sphereVariants}
-          animate={state}
-        >
-          <img
-            src="/renus-chrome-sphere.png"
-            alt="RENUS AI Core"
-            className="w-full h-full object-contain"
-            style={{ willChange: 'transform, filter' }}
-          />
-        </motion.div>
+            {/* Thinking Particles */}
+            <AnimatePresence>
+              {state === 'thinking' && (
+                <motion.div
+                  className="absolute inset-0"
+                  variants={particleVariants}
+                  animate="thinking"
+                >
+                  {[0, 1, 2, 3].map((i) => (
+                    <div
+                      key={`particle-${i}`}
+                      className="absolute w-2 h-2 bg-blue-400 rounded-full"
+                      style={{
+                        top: '50%',
+                        left: '50%',
+                        transform: `rotate(${i * 90}deg) translateX(${size / 3}px)`,
+                      }}
+                    />
+                  ))}
+                </motion.div>
+              )}
+            </AnimatePresence>
 
-        {/* Audio Level Indicator (for listening state) */}
-        {state === 'listening' && audioLevel > 5 && (
-          <div className="absolute bottom-0 left-1/2 transform -translate-x-1/2 w-32 h-2 bg-black/50 rounded-full overflow-hidden">
+            {/* Core Sphere Image */}
             <motion.div
-              className="h-full bg-gradient-to-r from-green-500 to-blue-500"
-              style={{ width: `${audioLevel}%` }}
-              transition={{ duration: 0.1 }}
-            />
-          </div>
+              className="relative z-10"
+              style={{ width: size, height: size }}
+              variants={sphereVariants}
+              animate={state}
+            >
+              <img
+                src="/renus-chrome-sphere.png"
+                alt="RENUS AI Core"
+                className="w-full h-full object-contain"
+                style={{ willChange: 'transform, filter' }}
+              />
+            </motion.div>
+
+            {/* Audio Level Indicator (for listening state) */}
+            {state === 'listening' && audioLevel > 5 && (
+              <div className="absolute bottom-0 left-1/2 transform -translate-x-1/2 w-32 h-2 bg-black/50 rounded-full overflow-hidden">
+                <motion.div
+                  className="h-full bg-gradient-to-r from-green-500 to-blue-500"
+                  style={{ width: `${audioLevel}%` }}
+                  transition={{ duration: 0.1 }}
+                />
+              </div>
+            )}
+          </>
         )}
       </div>
 
@@ -287,17 +323,20 @@ export const VoiceChromeSphere = memo(function VoiceChromeSphere({
           exit={{ opacity: 0, y: -10 }}
           className="max-w-md px-4 py-2 rounded-lg bg-black/70 backdrop-blur-sm text-white text-center"
         >
-          <p className="text-sm">{transcription}</p>
+          <p className={cn('text-sm', transcriptionInterim && 'text-white/60 italic')}>{transcription}</p>
         </motion.div>
       )}
 
       {/* State Label */}
       <div className="text-center">
         <p className="text-sm text-white/60 capitalize">
-          {state === 'idle' && 'Clique para falar'}
-          {state === 'listening' && 'Ouvindo...'}
-          {state === 'thinking' && 'Processando...'}
-          {state === 'speaking' && 'Falando...'}
+          {state === 'idle' && handsFree === 'off' && t('sphere.idle')}
+          {state === 'idle' && handsFree === 'awake' && t('sphere.handsFree.awake')}
+          {state === 'idle' && handsFree === 'sleeping' &&
+            (wakeWord ? t('sphere.handsFree.sleepingWakeWord') : t('sphere.handsFree.sleeping'))}
+          {state === 'listening' && t('sphere.listening')}
+          {state === 'thinking' && t('common.processing')}
+          {state === 'speaking' && (onInterrupt ? t('sphere.speakingInterruptible') : t('sphere.speaking'))}
         </p>
       </div>
     </div>
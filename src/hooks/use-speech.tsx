@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { showSuccess, showError } from '@/utils/toast';
+import { getLocale, pickSpeechVoice, t } from '@/lib/i18n';
 
 // --- Type Declarations for Web Speech API (Fixes TS2304, TS2552) ---
 declare global {
@@ -56,14 +57,14 @@ const useSpeech = () => {
     setAgentState('speaking');
     setSubtitles(text);
 
+    const locale = getLocale();
     const utterance = new SpeechSynthesisUtterance(text);
-    utterance.lang = 'pt-BR';
+    utterance.lang = locale;
     
-    // Find a suitable Brazilian Portuguese voice if available
-    const voices = synthRef.current.getVoices();
-    const ptBrVoice = voices.find(voice => voice.lang === 'pt-BR' && voice.name.includes('Brazil'));
-    if (ptBrVoice) {
-        utterance.voice = ptBrVoice;
+    // Find a voice for the UI language if available
+    const voice = pickSpeechVoice(synthRef.current.getVoices(), locale);
+    if (voice) {
+        utterance.voice = voice;
     }
 
     utterance.onend = () => {
@@ -86,7 +87,7 @@ const useSpeech = () => {
       recognitionRef.current = new SpeechRecognition();
       recognitionRef.current.continuous = false;
       recognitionRef.current.interimResults = true;
-      recognitionRef.current.lang = 'pt-BR';
+      recognitionRef.current.lang = getLocale();
 
       recognitionRef.current.onresult = (event: SpeechRecognitionEvent) => {
         let interimTranscript = '';
@@ -111,7 +112,7 @@ const useSpeech = () => {
           // Simulate processing time
           setTimeout(() => {
             if (transcript.trim()) {
-              speak(`Você disse: ${transcript}. Processando sua solicitação...`);
+              speak(t('speech.echo', { transcript }));
             } else {
               setAgentState('idle');
             }
@@ -124,7 +125,7 @@ const useSpeech = () => {
         setIsMicrophoneActive(false);
         setAgentState('idle');
         if (event.error !== 'no-speech') {
-            showError("Erro no reconhecimento de voz. Tente novamente.");
+            showError(t('speech.recognitionError'));
         }
       };
     } else {
@@ -138,9 +139,11 @@ const useSpeech = () => {
   const startListening = useCallback(() => {
     if (recognitionRef.current && agentState !== 'listening') {
       setTranscript('');
-      setSubtitles('Ouvindo...');
+      setSubtitles(t('speech.listening'));
       setAgentState('listening');
       setIsMicrophoneActive(true);
+      // The language may have changed since the recognizer was created
+      recognitionRef.current.lang = getLocale();
       recognitionRef.current.start();
     }
   }, [agentState]);
@@ -148,7 +151,7 @@ const useSpeech = () => {
   // --- Initial Greeting (Runs only once) ---
   useEffect(() => {
     if (!hasGreeted) {
-        speak("Olá, eu sou o assistente RENUS. Estou aqui para conversar com você sobre ideias e possibilidades. Vamos começar?");
+        speak(t('speech.greeting'));
         setHasGreeted(true);
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -0,0 +1,32 @@
+/**
+ * useAccessibility - Saved accessibility settings and whether motion should be reduced
+ * Components using it re-render when a setting or the system motion preference changes
+ */
+
+import { useSyncExternalStore } from 'react';
+import {
+  getAccessibilitySettings,
+  resolveReducedMotion,
+  subscribeAccessibilitySettings,
+  subscribeSystemReducedMotion,
+  systemPrefersReducedMotion,
+  updateAccessibilitySettings,
+} from '../lib/accessibility-settings';
+
+export function useAccessibility() {
+  const settings = useSyncExternalStore(subscribeAccessibilitySettings, getAccessibilitySettings);
+  const systemReducedMotion = useSyncExternalStore(subscribeSystemReducedMotion, systemPrefersReducedMotion);
+
+  return {
+    settings,
+    reducedMotion: resolveReducedMotion(settings.reducedMotion, systemReducedMotion),
+    updateSettings: updateAccessibilitySettings,
+  };
+}
+
+/**
+ * Just the motion decision, for animated components that don't need the other settings
+ */
+export function useReducedMotion(): boolean {
+  return useAccessibility().reducedMotion;
+}
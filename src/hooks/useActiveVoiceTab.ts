@@ -0,0 +1,98 @@
+/**
+ * useActiveVoiceTab - Only one tab at a time talks to the voice server
+ * Tabs share the saved voice session, so two connected tabs would interleave one
+ * conversation. A newly opened tab asks whether another already owns it: if so it
+ * waits as 'displaced' until the user takes over; otherwise it claims it. Taking
+ * over displaces the previous owner and reloads this tab, so it picks up the saved
+ * session and transcript where the other tab left them.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { publishTabMessage, subscribeTabMessages, TAB_ID } from '../lib/tab-sync';
+
+export type VoiceTabStatus = 'electing' | 'active' | 'displaced';
+
+// How long a new tab waits for the owner to answer before claiming
+const ELECTION_TIMEOUT_MS = 300;
+// Set across the take-over reload: claim right away instead of asking again
+const TAKEOVER_KEY = 'renus_voice_takeover';
+
+export function useActiveVoiceTab() {
+  const [status, setStatus] = useState<VoiceTabStatus>('electing');
+  const statusRef = useRef<VoiceTabStatus>('electing');
+  const claimedAtRef = useRef(0);
+
+  const updateStatus = useCallback((next: VoiceTabStatus) => {
+    statusRef.current = next;
+    setStatus(next);
+  }, []);
+
+  const claim = useCallback(() => {
+    claimedAtRef.current = Date.now();
+    updateStatus('active');
+    publishTabMessage({ type: 'voice:claim', tabId: TAB_ID, claimedAt: claimedAtRef.current });
+  }, [updateStatus]);
+
+  useEffect(() => {
+    const unsubscribe = subscribeTabMessages((message) => {
+      switch (message.type) {
+        case 'voice:query':
+          if (statusRef.current === 'active') {
+            publishTabMessage({ type: 'voice:active', tabId: TAB_ID });
+          }
+          break;
+
+        case 'voice:active':
+          if (statusRef.current === 'electing') {
+            updateStatus('displaced');
+          }
+          break;
+
+        case 'voice:claim': {
+          // Of two claims the later one wins (tab id breaks ties), so racing tabs agree
+          const newer =
+            message.claimedAt > claimedAtRef.current ||
+            (message.claimedAt === claimedAtRef.current && message.tabId > TAB_ID);
+          if (statusRef.current !== 'active' || newer) {
+            updateStatus('displaced');
+          }
+          break;
+        }
+      }
+    });
+
+    if (sessionStorage.getItem(TAKEOVER_KEY)) {
+      sessionStorage.removeItem(TAKEOVER_KEY);
+      claim();
+      return unsubscribe;
+    }
+
+    publishTabMessage({ type: 'voice:query', tabId: TAB_ID });
+    const timeout = setTimeout(() => {
+      if (statusRef.current === 'electing') {
+        claim();
+      }
+    }, ELECTION_TIMEOUT_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      unsubscribe();
+    };
+  }, [claim, updateStatus]);
+
+  const takeOver = useCallback(() => {
+    try {
+      sessionStorage.setItem(TAKEOVER_KEY, String(Date.now()));
+    } catch (error) {
+      console.error('[VoiceTab] Failed to flag take-over:', error);
+    }
+    window.location.reload();
+  }, []);
+
+  return {
+    status,
+    isActive: status === 'active',
+    isDisplaced: status === 'displaced',
+    takeOver,
+  };
+}
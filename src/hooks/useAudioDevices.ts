@@ -0,0 +1,84 @@
+/**
+ * useAudioDevices - Available microphones/speakers and the saved audio settings
+ * The device list follows hot-plugging; if the selected device goes away, the choice
+ * falls back to the browser default and the user is told.
+ */
+import { useState, useEffect, useCallback, useSyncExternalStore } from 'react';
+import {
+  getAudioSettings,
+  subscribeAudioSettings,
+  supportsOutputSelection,
+  updateAudioSettings,
+} from '@/lib/audio-settings';
+import { t } from '@/lib/i18n';
+import { showError } from '@/utils/toast';
+
+export interface AudioDevice {
+  deviceId: string;
+  label: string;
+}
+
+// Chromium aliases for the system devices; the "default" option already covers them
+const ALIAS_DEVICE_IDS = new Set(['default', 'communications']);
+
+function toAudioDevices(devices: MediaDeviceInfo[], kind: MediaDeviceKind): AudioDevice[] {
+  return devices
+    .filter((device) => device.kind === kind && device.deviceId && !ALIAS_DEVICE_IDS.has(device.deviceId))
+    .map((device, index) => ({
+      deviceId: device.deviceId,
+      // Labels stay empty until the page has been granted mic access
+      label: device.label || t(kind === 'audioinput' ? 'audioSettings.unnamedInput' : 'audioSettings.unnamedOutput', { index: index + 1 }),
+    }));
+}
+
+export function useAudioDevices() {
+  const settings = useSyncExternalStore(subscribeAudioSettings, getAudioSettings);
+  const [inputs, setInputs] = useState<AudioDevice[]>([]);
+  const [outputs, setOutputs] = useState<AudioDevice[]>([]);
+
+  const isSupported = typeof navigator !== 'undefined' && Boolean(navigator.mediaDevices?.enumerateDevices);
+  const canSelectOutput = supportsOutputSelection();
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+
+    try {
+      const devices = await navigator.mediaDevices.enumerateDevices();
+      const nextInputs = toAudioDevices(devices, 'audioinput');
+      const nextOutputs = toAudioDevices(devices, 'audiooutput');
+      setInputs(nextInputs);
+      setOutputs(nextOutputs);
+
+      // Browsers that hide device ids before permission give nothing to compare against
+      const { inputDeviceId, outputDeviceId } = getAudioSettings();
+      if (inputDeviceId && nextInputs.length > 0 && !nextInputs.some((d) => d.deviceId === inputDeviceId)) {
+        updateAudioSettings({ inputDeviceId: null });
+        showError(t('audioSettings.inputDisconnected'));
+      }
+      if (outputDeviceId && nextOutputs.length > 0 && !nextOutputs.some((d) => d.deviceId === outputDeviceId)) {
+        updateAudioSettings({ outputDeviceId: null });
+        showError(t('audioSettings.outputDisconnected'));
+      }
+    } catch (error) {
+      console.error('[AudioDevices] Failed to list devices:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!navigator.mediaDevices?.addEventListener) return;
+
+    refresh();
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+  }, [refresh]);
+
+  return {
+    settings,
+    inputs,
+    outputs,
+    isSupported,
+    canSelectOutput,
+    updateSettings: updateAudioSettings,
+    refresh,
+  };
+}
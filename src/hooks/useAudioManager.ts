@@ -2,236 +2,777 @@
  * useAudioManager - Hook for managing audio recording and playback
  */
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { DEFAULT_AUDIO_CONFIG, type AudioConfig } from '../types/voice';
+import {
+  DEFAULT_AUDIO_CONFIG,
+  type AudioConfig,
+  type AudioChunk,
+  type AudioStreamFormat,
+} from '../types/voice';
+import { blobToBase64, arrayBufferToBase64, encodeWav, base64ToArrayBuffer, audioMimeType } from '../lib/audio-codec';
+import StreamingAudioPlayer, { type StreamingAudioChunk } from '../lib/streaming-audio-player';
+import {
+  computeRms,
+  createVoiceActivityDetector,
+  type VadEvent,
+  type VoiceActivityDetector,
+} from '../lib/voice-activity-detector';
+import {
+  applyOutputDevice,
+  buildAudioConstraints,
+  getAudioSettings,
+  subscribeAudioSettings,
+} from '../lib/audio-settings';
+import { getAccessibilitySettings, subscribeAccessibilitySettings } from '../lib/accessibility-settings';
+import type { PlaybackTap } from '../lib/conversation-recorder';
+
+const RECORDER_MIME_TYPE = 'audio/webm';
+const RECORDER_FORMAT = 'webm';
+
+const PCM16_WORKLET_URL = '/worklets/pcm16-capture-processor.js';
+const PCM16_PROCESSOR_NAME = 'pcm16-capture';
+const PCM16_FORMAT = 'pcm16';
+const PCM16_FLUSH_TIMEOUT = 500;
+
+type Pcm16WorkletMessage = { type: 'frame'; buffer: ArrayBuffer } | { type: 'flushed' };
+
+// Stops the active capture and resolves with the full recording
+type StopCapture = () => Promise<Blob>;
+
+// Target VAD frame length; the analyser window is rounded up to a power of two
+const VAD_FRAME_MS = 20;
+// Longest stretch of audio before speech_start that a hands-free utterance can start from
+const MAX_LOOKBACK_MS = 1000;
+// dBFS mapped to 0 on the 0-100 level meter
+const LEVEL_FLOOR_DB = -60;
+
+interface BargeInMonitor {
+  stream: MediaStream;
+  audioContext: AudioContext;
+  stopVad: () => void;
+}
+
+interface MicTest {
+  stream: MediaStream;
+  audioContext: AudioContext;
+  loopback: HTMLAudioElement;
+  stopMeter: () => void;
+}
+
+/**
+ * Mic level on a 0-100 scale, from a frame's RMS (-60 dBFS..0 dBFS)
+ */
+function rmsToLevel(rms: number): number {
+  if (rms <= 0) return 0;
+  const db = 20 * Math.log10(rms);
+  return Math.max(0, Math.min(100, ((db - LEVEL_FLOOR_DB) / -LEVEL_FLOOR_DB) * 100));
+}
+
+/**
+ * Analyser tuned to deliver VAD frames of roughly VAD_FRAME_MS
+ */
+function createVadAnalyser(audioContext: AudioContext): AnalyserNode {
+  const analyser = audioContext.createAnalyser();
+  const frameSamples = (audioContext.sampleRate * VAD_FRAME_MS) / 1000;
+  analyser.fftSize = Math.min(32768, Math.max(32, 2 ** Math.ceil(Math.log2(frameSamples))));
+  return analyser;
+}
+
+/**
+ * Feed analyser frames to a detector at the analyser's frame rate. Returns a stop function.
+ */
+function runVoiceActivityDetection(
+  analyser: AnalyserNode,
+  vad: VoiceActivityDetector,
+  onFrame: (rms: number, event: VadEvent | null) => void
+): () => void {
+  const { context } = analyser;
+  const frame = new Float32Array(analyser.fftSize);
+  const frameMs = (analyser.fftSize / context.sampleRate) * 1000;
+
+  // Timers drift and get throttled, so each read is timed on the audio clock: the detector
+  // gets only the samples that arrived since the last read, and the real time that passed
+  // (more than the frame holds when a read came late)
+  let lastReadAt = context.currentTime;
+  const intervalId = setInterval(() => {
+    const now = context.currentTime;
+    const newSamples = Math.min(frame.length, Math.round((now - lastReadAt) * context.sampleRate));
+    if (newSamples === 0) return;
+
+    const elapsedMs = (now - lastReadAt) * 1000;
+    lastReadAt = now;
+    analyser.getFloatTimeDomainData(frame);
+    const { rms, event } = vad.process(frame.subarray(frame.length - newSamples), elapsedMs);
+    onFrame(rms, event);
+  }, frameMs);
+
+  return () => clearInterval(intervalId);
+}
+
+/**
+ * How far back a hands-free utterance should start: the pre-roll the detector kept, plus
+ * the frame that triggered speech_start
+ */
+function lookbackMs(event: Extract<VadEvent, { type: 'speech_start' }>, analyser: AnalyserNode): number {
+  const sampleRate = analyser.context.sampleRate;
+  const preRollSamples = event.preRoll.reduce((sum, frame) => sum + frame.length, 0);
+  return Math.min(MAX_LOOKBACK_MS, ((preRollSamples + analyser.fftSize) / sampleRate) * 1000);
+}
+
+export interface StartRecordingOptions {
+  // Keep the mic open and only start the utterance once speech is detected (hands-free mode);
+  // there is no no-speech timeout, the caller decides when to give up
+  waitForSpeech?: boolean;
+}
 
 interface UseAudioManagerReturn {
   isRecording: boolean;
   isPlaying: boolean;
   audioLevel: number;
-  startRecording: () => Promise<void>;
+  startRecording: (options?: StartRecordingOptions) => Promise<void>;
   stopRecording: () => void;
-  playAudio: (base64Audio: string) => Promise<void>;
+  playAudio: (base64Audio: string, format?: string) => Promise<void>;
+  playAudioChunk: (chunk: StreamingAudioChunk) => void;
+  finishAudioStream: () => void;
+  stopPlayback: () => number;
+  isTestingMic: boolean;
+  startMicTest: () => Promise<void>;
+  stopMicTest: () => void;
   error: Error | null;
 }
 
 interface UseAudioManagerOptions {
   config?: Partial<AudioConfig>;
-  onAudioChunk?: (audioData: string) => void;
-  onRecordingComplete?: (audioData: string) => void;
+  onAudioChunk?: (chunk: AudioChunk, format: string) => void;
+  onUtteranceStart?: (streamFormat: AudioStreamFormat) => void;
+  onUtteranceEnd?: (totalChunks: number) => void;
+  onRecordingComplete?: (audioData: string, recording: Blob) => void;
+  bargeIn?: boolean; // Listen for the user's voice while the agent is speaking
+  onBargeIn?: (playbackOffset: number) => void;
+  createVad?: (sampleRate: number) => VoiceActivityDetector; // Swap in a different detector
+  onSpeechStart?: (event: Extract<VadEvent, { type: 'speech_start' }>) => void;
+  onSpeechEnd?: (event: Extract<VadEvent, { type: 'speech_end' }>) => void;
+  onPlaybackStart?: () => void; // agent audio became audible (clip or stream)
+  playbackTap?: PlaybackTap | null; // receives a copy of the agent's audio (conversation recording)
 }
 
 export function useAudioManager(options: UseAudioManagerOptions = {}): UseAudioManagerReturn {
   const {
     config: userConfig,
     onAudioChunk,
+    onUtteranceStart,
+    onUtteranceEnd,
     onRecordingComplete,
+    bargeIn = false,
+    onBargeIn,
+    createVad,
+    onSpeechStart,
+    onSpeechEnd,
+    onPlaybackStart,
+    playbackTap = null,
   } = options;
 
   const config = { ...DEFAULT_AUDIO_CONFIG, ...userConfig };
 
   const [isRecording, setIsRecording] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
+  const [isTestingMic, setIsTestingMic] = useState(false);
   const [audioLevel, setAudioLevel] = useState(0);
   const [error, setError] = useState<Error | null>(null);
 
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const stopCaptureRef = useRef<StopCapture | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
-  const chunksRef = useRef<Blob[]>([]);
-  const audioQueueRef = useRef<string[]>([]);
+  const audioQueueRef = useRef<Array<{ base64Audio: string; format?: string }>>([]);
   const currentAudioRef = useRef<HTMLAudioElement | null>(null);
-  const silenceTimeoutRef = useRef<NodeJS.Timeout>();
+  const stopVadRef = useRef<(() => void) | null>(null);
   const chunkIntervalRef = useRef<NodeJS.Timeout>();
+  const sequenceRef = useRef(0);
+  const utteranceStartRef = useRef(0);
+  const pendingChunksRef = useRef<Promise<void>>(Promise.resolve());
+  const playedDurationRef = useRef(0);
+  const bargeInMonitorRef = useRef<BargeInMonitor | null>(null);
+  const streamingPlayerRef = useRef<StreamingAudioPlayer | null>(null);
+  const micTestRef = useRef<MicTest | null>(null);
+  // Cuts the current clip's copy short on the tap when playback is interrupted
+  const stopClipTapRef = useRef<(() => void) | null>(null);
+  const playbackTapRef = useRef(playbackTap);
+  playbackTapRef.current = playbackTap;
+
+  // Keep callbacks in a ref so a running recorder always sees the latest handlers
+  const callbacksRef = useRef({
+    onAudioChunk,
+    onUtteranceStart,
+    onUtteranceEnd,
+    onRecordingComplete,
+    onBargeIn,
+    onSpeechStart,
+    onSpeechEnd,
+    onPlaybackStart,
+  });
+  callbacksRef.current = {
+    onAudioChunk,
+    onUtteranceStart,
+    onUtteranceEnd,
+    onRecordingComplete,
+    onBargeIn,
+    onSpeechStart,
+    onSpeechEnd,
+    onPlaybackStart,
+  };
 
-  // Audio level monitoring
-  const monitorAudioLevel = useCallback(() => {
-    if (!analyserRef.current) return;
+  const buildVad = useCallback((sampleRate: number, overrides: { minEnergy: number; hangoverMs?: number; minSpeechMs?: number }) => {
+    return createVad
+      ? createVad(sampleRate)
+      : createVoiceActivityDetector({ sampleRate, ...overrides });
+  }, [createVad]);
+
+  // Assign sequence/timestamp now and chain encoding so chunks always leave in capture order
+  const enqueueChunk = useCallback((
+    encode: () => string | Promise<string>,
+    format: string,
+    timestamp: number
+  ) => {
+    const handleChunk = callbacksRef.current.onAudioChunk;
+    if (!handleChunk) return;
+
+    const sequence = sequenceRef.current++;
+
+    pendingChunksRef.current = pendingChunksRef.current
+      .then(encode)
+      .then((data) => handleChunk({ data, sequence, timestamp }, format))
+      .catch((err) => console.error('[AudioManager] Failed to encode audio chunk:', err));
+  }, []);
 
-    const dataArray = new Uint8Array(analyserRef.current.frequencyBinCount);
-    analyserRef.current.getByteFrequencyData(dataArray);
+  const finishUtterance = useCallback(async (recording: Blob) => {
+    // Flush in-flight chunks before closing the utterance
+    await pendingChunksRef.current;
+    callbacksRef.current.onUtteranceEnd?.(sequenceRef.current);
 
-    // Calculate RMS (Root Mean Square) for audio level
-    const sum = dataArray.reduce((acc, val) => acc + val * val, 0);
-    const rms = Math.sqrt(sum / dataArray.length);
-    const level = Math.min(100, (rms / 255) * 100);
+    const handleComplete = callbacksRef.current.onRecordingComplete;
+    if (handleComplete) {
+      handleComplete(await blobToBase64(recording), recording);
+    }
+  }, []);
 
-    setAudioLevel(level);
+  const startMediaRecorderCapture = useCallback((stream: MediaStream): StopCapture => {
+    const mediaRecorder = new MediaRecorder(stream, {
+      mimeType: RECORDER_MIME_TYPE,
+    });
+    const chunks: Blob[] = [];
+
+    mediaRecorder.ondataavailable = (event) => {
+      if (event.data.size === 0) return;
+
+      chunks.push(event.data);
+      enqueueChunk(
+        () => blobToBase64(event.data),
+        RECORDER_FORMAT,
+        Date.now() - utteranceStartRef.current
+      );
+    };
 
-    // Check for silence
-    if (level < config.silenceThreshold * 100) {
-      if (!silenceTimeoutRef.current) {
-        silenceTimeoutRef.current = setTimeout(() => {
-          console.log('[AudioManager] Silence detected, stopping recording');
-          stopRecording();
-        }, config.silenceDuration);
+    // Open the utterance before the first chunk can be emitted
+    callbacksRef.current.onUtteranceStart?.({ format: RECORDER_FORMAT });
+    mediaRecorder.start();
+
+    // Flush chunks periodically if callback provided
+    if (callbacksRef.current.onAudioChunk) {
+      chunkIntervalRef.current = setInterval(() => {
+        if (mediaRecorder.state === 'recording') {
+          mediaRecorder.requestData();
+        }
+      }, config.chunkInterval);
+    }
+
+    return () => new Promise<Blob>((resolve) => {
+      const collect = () => resolve(new Blob(chunks, { type: RECORDER_MIME_TYPE }));
+
+      if (mediaRecorder.state === 'inactive') {
+        collect();
+        return;
       }
-    } else {
-      if (silenceTimeoutRef.current) {
-        clearTimeout(silenceTimeoutRef.current);
-        silenceTimeoutRef.current = undefined;
+
+      mediaRecorder.onstop = collect;
+      mediaRecorder.stop();
+    });
+  }, [config.chunkInterval, enqueueChunk]);
+
+  const startPcm16Capture = useCallback(async (
+    audioContext: AudioContext,
+    source: AudioNode
+  ): Promise<StopCapture> => {
+    await audioContext.audioWorklet.addModule(PCM16_WORKLET_URL);
+
+    const sampleRate = config.sampleRate;
+    const chunkSize = config.chunkSize;
+    const node = new AudioWorkletNode(audioContext, PCM16_PROCESSOR_NAME, {
+      numberOfOutputs: 1,
+      processorOptions: {
+        targetSampleRate: sampleRate,
+        frameSize: chunkSize,
+      },
+    });
+    const frames: Int16Array[] = [];
+    let onFlushed: (() => void) | null = null;
+
+    node.port.onmessage = (event: MessageEvent<Pcm16WorkletMessage>) => {
+      if (event.data.type === 'flushed') {
+        onFlushed?.();
+        return;
       }
+
+      const { buffer } = event.data;
+      // Frames have a fixed length, so the offset follows from the frame count
+      const timestamp = Math.round((frames.length * chunkSize * 1000) / sampleRate);
+      frames.push(new Int16Array(buffer));
+      enqueueChunk(() => arrayBufferToBase64(buffer), PCM16_FORMAT, timestamp);
+    };
+
+    callbacksRef.current.onUtteranceStart?.({
+      format: PCM16_FORMAT,
+      sampleRate,
+      channels: 1,
+    });
+
+    // The node writes silence; it only needs a path to the destination to be pulled
+    source.connect(node);
+    node.connect(audioContext.destination);
+
+    return () => new Promise<Blob>((resolve) => {
+      const timeoutId = setTimeout(() => onFlushed?.(), PCM16_FLUSH_TIMEOUT);
+
+      onFlushed = () => {
+        onFlushed = null;
+        clearTimeout(timeoutId);
+        node.port.onmessage = null;
+        node.disconnect();
+        resolve(encodeWav(frames, sampleRate));
+      };
+
+      node.port.postMessage('flush');
+    });
+  }, [config.sampleRate, config.chunkSize, enqueueChunk]);
+
+  const stopRecording = useCallback(() => {
+    console.log('[AudioManager] Stopping recording...');
+
+    if (chunkIntervalRef.current) {
+      clearInterval(chunkIntervalRef.current);
+      chunkIntervalRef.current = undefined;
     }
 
-    if (isRecording) {
-      requestAnimationFrame(monitorAudioLevel);
+    if (stopVadRef.current) {
+      stopVadRef.current();
+      stopVadRef.current = null;
     }
-  }, [isRecording, config.silenceThreshold, config.silenceDuration]);
 
-  const startRecording = useCallback(async () => {
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+    }
+
+    const stopCapture = stopCaptureRef.current;
+    const audioContext = audioContextRef.current;
+    stopCaptureRef.current = null;
+    audioContextRef.current = null;
+    analyserRef.current = null;
+
+    // The context stays open until the capture has flushed its last frame
+    const closeContext = () => {
+      audioContext?.close();
+    };
+
+    if (stopCapture) {
+      stopCapture()
+        .then((recording) => {
+          console.log('[AudioManager] Recording stopped');
+          return finishUtterance(recording);
+        })
+        .catch((err) => console.error('[AudioManager] Failed to finish recording:', err))
+        .finally(closeContext);
+    } else {
+      closeContext();
+    }
+
+    setIsRecording(false);
+    setAudioLevel(0);
+  }, [finishUtterance]);
+
+  const stopMicTest = useCallback(() => {
+    const test = micTestRef.current;
+    if (!test) return;
+
+    micTestRef.current = null;
+    test.stopMeter();
+    test.loopback.pause();
+    test.loopback.srcObject = null;
+    test.stream.getTracks().forEach(track => track.stop());
+    test.audioContext.close();
+    setIsTestingMic(false);
+    setAudioLevel(0);
+  }, []);
+
+  /**
+   * Play the selected mic back through the selected speaker, with the level on `audioLevel`.
+   * Uses the same constraints as a recording, so processing toggles can be heard.
+   */
+  const startMicTest = useCallback(async () => {
+    stopMicTest();
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: buildAudioConstraints() });
+
+      const audioContext = new AudioContext();
+      const source = audioContext.createMediaStreamSource(stream);
+      const analyser = createVadAnalyser(audioContext);
+      const destination = audioContext.createMediaStreamDestination();
+      source.connect(analyser);
+      source.connect(destination);
+
+      // An audio element (rather than the context) carries the loopback so setSinkId applies
+      const loopback = new Audio();
+      loopback.srcObject = destination.stream;
+      await applyOutputDevice(loopback, getAudioSettings().outputDeviceId);
+      await loopback.play();
+
+      const frame = new Float32Array(analyser.fftSize);
+      const intervalId = setInterval(() => {
+        analyser.getFloatTimeDomainData(frame);
+        setAudioLevel(rmsToLevel(computeRms(frame)));
+      }, (analyser.fftSize / audioContext.sampleRate) * 1000);
+
+      micTestRef.current = {
+        stream,
+        audioContext,
+        loopback,
+        stopMeter: () => clearInterval(intervalId),
+      };
+      setIsTestingMic(true);
+      console.log('[AudioManager] Mic test started');
+    } catch (err) {
+      // Reported by the caller; a failed test shouldn't show up as a conversation error
+      console.error('[AudioManager] Failed to start mic test:', err);
+      throw err instanceof Error ? err : new Error('Failed to start mic test');
+    }
+  }, [stopMicTest]);
+
+  const startRecording = useCallback(async (options: StartRecordingOptions = {}) => {
+    const { waitForSpeech = false } = options;
+
     try {
-      console.log('[AudioManager] Starting recording...');
+      console.log(`[AudioManager] Starting recording (${config.captureMode}${waitForSpeech ? ', waiting for speech' : ''})...`);
       setError(null);
+      // The test loopback would otherwise end up in the recording
+      stopMicTest();
 
       // Request microphone access
       const stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
+        audio: buildAudioConstraints({
           sampleRate: config.sampleRate,
           channelCount: config.channels,
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-        },
+        }),
       });
 
       streamRef.current = stream;
 
-      // Setup audio context for level monitoring
-      const audioContext = new AudioContext({ sampleRate: config.sampleRate });
+      // Mic unplugged mid-utterance: close the utterance with what was captured
+      stream.getAudioTracks().forEach((track) => {
+        track.onended = () => {
+          if (streamRef.current === stream) {
+            console.warn('[AudioManager] Input device disconnected, stopping recording');
+            stopRecording();
+          }
+        };
+      });
+
+      // PCM16 capture runs at the device rate and resamples in the worklet; forcing the
+      // context rate would break Firefox, which can't mix rates with a mic source
+      const audioContext = config.captureMode === 'pcm16'
+        ? new AudioContext()
+        : new AudioContext({ sampleRate: config.sampleRate });
       audioContextRef.current = audioContext;
 
+      // Setup analyser for voice activity detection and level monitoring
       const source = audioContext.createMediaStreamSource(stream);
-      const analyser = audioContext.createAnalyser();
-      analyser.fftSize = 256;
+      const analyser = createVadAnalyser(audioContext);
       source.connect(analyser);
       analyserRef.current = analyser;
 
-      // Setup MediaRecorder
-      const mediaRecorder = new MediaRecorder(stream, {
-        mimeType: 'audio/webm',
-      });
-
-      mediaRecorderRef.current = mediaRecorder;
-      chunksRef.current = [];
-
-      mediaRecorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          chunksRef.current.push(event.data);
+      // Hands-free: speech_start comes after the VAD has already heard the onset, so the
+      // capture listens through a delay line set to start back where the pre-roll began
+      const lookback = waitForSpeech ? audioContext.createDelay(MAX_LOOKBACK_MS / 1000) : null;
+      if (lookback) {
+        source.connect(lookback);
+        // A node is only rendered with a path to the destination; muted, this keeps the
+        // delay line filling while nothing is captured yet
+        const keepAlive = audioContext.createGain();
+        keepAlive.gain.value = 0;
+        lookback.connect(keepAlive);
+        keepAlive.connect(audioContext.destination);
+        if (config.captureMode === 'pcm16') {
+          // Loaded up front so the capture connects right after speech_start
+          await audioContext.audioWorklet.addModule(PCM16_WORKLET_URL);
         }
-      };
+      }
 
-      mediaRecorder.onstop = async () => {
-        console.log('[AudioManager] Recording stopped');
-        
-        const audioBlob = new Blob(chunksRef.current, { type: 'audio/webm' });
-        const reader = new FileReader();
-        
-        reader.onloadend = () => {
-          const base64Audio = (reader.result as string).split(',')[1];
-          if (onRecordingComplete) {
-            onRecordingComplete(base64Audio);
+      const beginCapture = async (delayMs = 0) => {
+        sequenceRef.current = 0;
+        utteranceStartRef.current = Date.now();
+        pendingChunksRef.current = Promise.resolve();
+
+        let captureSource: AudioNode = source;
+        let captureStream = stream;
+        if (lookback) {
+          lookback.delayTime.value = delayMs / 1000;
+          captureSource = lookback;
+          if (config.captureMode !== 'pcm16') {
+            const destination = audioContext.createMediaStreamDestination();
+            lookback.connect(destination);
+            captureStream = destination.stream;
           }
-        };
-        
-        reader.readAsDataURL(audioBlob);
-        chunksRef.current = [];
+        }
+
+        stopCaptureRef.current = config.captureMode === 'pcm16'
+          ? await startPcm16Capture(audioContext, captureSource)
+          : startMediaRecorderCapture(captureStream);
       };
 
-      // Start recording
-      mediaRecorder.start();
+      // Resolves once the utterance is being captured; null while waiting for speech
+      let capturing: Promise<void> | null = null;
+      if (!waitForSpeech) {
+        await beginCapture();
+        capturing = Promise.resolve();
+      } else {
+        utteranceStartRef.current = Date.now();
+      }
+
       setIsRecording(true);
 
-      // Start audio level monitoring
-      monitorAudioLevel();
+      // Voice activity drives the level meter and ends the utterance after trailing silence
+      let heardSpeech = false;
+      const vad = buildVad(audioContext.sampleRate, {
+        minEnergy: config.silenceThreshold,
+        hangoverMs: config.silenceDuration,
+      });
 
-      // Send chunks periodically if callback provided
-      if (onAudioChunk) {
-        chunkIntervalRef.current = setInterval(() => {
-          if (mediaRecorder.state === 'recording') {
-            mediaRecorder.requestData();
+      stopVadRef.current = runVoiceActivityDetection(analyser, vad, (rms, event) => {
+        setAudioLevel(rmsToLevel(rms));
+
+        if (event?.type === 'speech_start') {
+          heardSpeech = true;
+          if (!capturing) {
+            console.log('[AudioManager] Speech detected, starting utterance');
+            // The delayed capture stops that much early too, inside the trailing silence (silenceDuration)
+            capturing = beginCapture(lookbackMs(event, analyser)).catch((err) => {
+              console.error('[AudioManager] Failed to start capture:', err);
+              stopRecording();
+            });
           }
-        }, config.chunkInterval);
-      }
+          callbacksRef.current.onSpeechStart?.(event);
+        } else if (event?.type === 'speech_end') {
+          console.log('[AudioManager] End of speech detected, stopping recording');
+          callbacksRef.current.onSpeechEnd?.(event);
+          // A capture that was still starting must be running before it can be stopped
+          capturing?.then(stopRecording);
+        } else if (!waitForSpeech && !heardSpeech && Date.now() - utteranceStartRef.current > config.noSpeechTimeout) {
+          console.log('[AudioManager] No speech detected, stopping recording');
+          stopRecording();
+        }
+      });
 
       console.log('[AudioManager] Recording started');
     } catch (err) {
       console.error('[AudioManager] Failed to start recording:', err);
+      // Don't leave the mic open (and its indicator on) when setup failed after getUserMedia
+      if (streamRef.current || audioContextRef.current) {
+        stopRecording();
+      }
       const error = err instanceof Error ? err : new Error('Failed to start recording');
       setError(error);
       throw error;
     }
-  }, [config, onAudioChunk, onRecordingComplete, monitorAudioLevel]);
+  }, [config, buildVad, stopRecording, stopMicTest, startPcm16Capture, startMediaRecorderCapture]);
 
-  const stopRecording = useCallback(() => {
-    console.log('[AudioManager] Stopping recording...');
+  const hasActivePlayback = useCallback(() => {
+    return currentAudioRef.current !== null || Boolean(streamingPlayerRef.current?.isActive);
+  }, []);
 
-    if (chunkIntervalRef.current) {
-      clearInterval(chunkIntervalRef.current);
-      chunkIntervalRef.current = undefined;
-    }
+  const stopBargeInMonitor = useCallback(() => {
+    const monitor = bargeInMonitorRef.current;
+    if (!monitor) return;
 
-    if (silenceTimeoutRef.current) {
-      clearTimeout(silenceTimeoutRef.current);
-      silenceTimeoutRef.current = undefined;
-    }
+    bargeInMonitorRef.current = null;
+    monitor.stopVad();
+    monitor.stream.getTracks().forEach(track => track.stop());
+    monitor.audioContext.close();
+  }, []);
 
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
-      mediaRecorderRef.current.stop();
+  /**
+   * Stop the current clip and drop everything queued behind it.
+   * Returns how far into the response playback got, in ms.
+   */
+  const stopPlayback = useCallback((): number => {
+    stopBargeInMonitor();
+
+    const audio = currentAudioRef.current;
+    const clipOffset = Math.round(playedDurationRef.current + (audio ? audio.currentTime * 1000 : 0));
+    const streamOffset = streamingPlayerRef.current?.stop() ?? 0;
+    const playbackOffset = clipOffset + streamOffset;
+
+    stopClipTapRef.current?.();
+    stopClipTapRef.current = null;
+
+    if (audio) {
+      // Detach handlers first so onended/onerror don't advance the queue
+      audio.onended = null;
+      audio.onerror = null;
+      audio.pause();
+      URL.revokeObjectURL(audio.src);
+      currentAudioRef.current = null;
     }
 
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
+    audioQueueRef.current = [];
+    playedDurationRef.current = 0;
+    setIsPlaying(false);
+
+    console.log(`[AudioManager] Playback stopped at ${playbackOffset}ms`);
+    return playbackOffset;
+  }, [stopBargeInMonitor]);
+
+  // While the agent speaks, watch the mic and cut playback when the user starts talking
+  const startBargeInMonitor = useCallback(async () => {
+    if (bargeInMonitorRef.current) return;
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          ...buildAudioConstraints(),
+          // Always on here, whatever the settings: it keeps the agent's own voice from triggering a barge-in
+          echoCancellation: true,
+        },
+      });
+
+      // Playback may have finished while we waited for the mic
+      if (!hasActivePlayback()) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+
+      const audioContext = new AudioContext();
+      const analyser = createVadAnalyser(audioContext);
+      audioContext.createMediaStreamSource(stream).connect(analyser);
+
+      const vad = buildVad(audioContext.sampleRate, {
+        minEnergy: config.bargeInThreshold,
+        minSpeechMs: config.bargeInDuration,
+      });
+
+      const stopVad = runVoiceActivityDetection(analyser, vad, (_rms, event) => {
+        if (event?.type !== 'speech_start') return;
+
+        console.log('[AudioManager] Voice activity during playback, barging in');
+        const playbackOffset = stopPlayback();
+        callbacksRef.current.onBargeIn?.(playbackOffset);
+      });
+
+      bargeInMonitorRef.current = { stream, audioContext, stopVad };
+    } catch (err) {
+      console.warn('[AudioManager] Barge-in monitor unavailable:', err);
     }
+  }, [config.bargeInThreshold, config.bargeInDuration, buildVad, hasActivePlayback, stopPlayback]);
+
+  const getStreamingPlayer = useCallback((): StreamingAudioPlayer => {
+    if (!streamingPlayerRef.current) {
+      streamingPlayerRef.current = new StreamingAudioPlayer({
+        onStart: () => {
+          setIsPlaying(true);
+          callbacksRef.current.onPlaybackStart?.();
+        },
+        onEnd: () => {
+          if (!currentAudioRef.current) {
+            stopBargeInMonitor();
+            setIsPlaying(false);
+          }
+        },
+        onError: (err) => setError(err),
+        outputDeviceId: getAudioSettings().outputDeviceId,
+        playbackRate: getAccessibilitySettings().playbackRate,
+      });
+    }
+    return streamingPlayerRef.current;
+  }, [stopBargeInMonitor]);
+
+  // Streamed responses: chunks are reordered, decoded and scheduled gaplessly
+  const playAudioChunk = useCallback((chunk: StreamingAudioChunk) => {
+    getStreamingPlayer().enqueue(chunk);
 
-    if (audioContextRef.current) {
-      audioContextRef.current.close();
-      audioContextRef.current = null;
+    if (bargeIn) {
+      startBargeInMonitor();
     }
+  }, [bargeIn, getStreamingPlayer, startBargeInMonitor]);
 
-    setIsRecording(false);
-    setAudioLevel(0);
+  const finishAudioStream = useCallback(() => {
+    streamingPlayerRef.current?.finalize();
   }, []);
 
-  const playAudio = useCallback(async (base64Audio: string): Promise<void> => {
+  const playAudio = useCallback(async (base64Audio: string, format?: string): Promise<void> => {
     try {
       console.log('[AudioManager] Playing audio...');
       setError(null);
 
       // Add to queue if already playing
-      if (isPlaying) {
+      if (currentAudioRef.current) {
         console.log('[AudioManager] Audio already playing, adding to queue');
-        audioQueueRef.current.push(base64Audio);
+        audioQueueRef.current.push({ base64Audio, format });
         return;
       }
 
       setIsPlaying(true);
 
       // Convert base64 to blob
-      const audioData = atob(base64Audio);
-      const arrayBuffer = new ArrayBuffer(audioData.length);
-      const view = new Uint8Array(arrayBuffer);
-      for (let i = 0; i < audioData.length; i++) {
-        view[i] = audioData.charCodeAt(i);
-      }
-      const blob = new Blob([arrayBuffer], { type: 'audio/mp3' });
+      const bytes = base64ToArrayBuffer(base64Audio);
+      const blob = new Blob([bytes], { type: audioMimeType(format) });
       const audioUrl = URL.createObjectURL(blob);
 
       // Create and play audio element
       const audio = new Audio(audioUrl);
+      audio.playbackRate = getAccessibilitySettings().playbackRate;
       currentAudioRef.current = audio;
+      await applyOutputDevice(audio, getAudioSettings().outputDeviceId);
+
+      if (bargeIn) {
+        startBargeInMonitor();
+      }
+
+      // 'playing' fires again after a stall; the tap only gets the clip once
+      let tapped = false;
+      audio.onplaying = () => {
+        callbacksRef.current.onPlaybackStart?.();
+        if (!tapped) {
+          tapped = true;
+          stopClipTapRef.current = playbackTapRef.current?.playClip(bytes, audio.playbackRate) ?? null;
+        }
+      };
 
       await new Promise<void>((resolve, reject) => {
         audio.onended = () => {
           console.log('[AudioManager] Audio playback ended');
           URL.revokeObjectURL(audioUrl);
-          setIsPlaying(false);
           currentAudioRef.current = null;
+          stopClipTapRef.current = null;
+          playedDurationRef.current += audio.duration * 1000;
 
           // Play next in queue
           const nextAudio = audioQueueRef.current.shift();
           if (nextAudio) {
-            playAudio(nextAudio);
+            playAudio(nextAudio.base64Audio, nextAudio.format);
+          } else {
+            playedDurationRef.current = 0;
+            if (!streamingPlayerRef.current?.isActive) {
+              stopBargeInMonitor();
+              setIsPlaying(false);
+            }
           }
 
           resolve();
@@ -242,6 +783,7 @@ export function useAudioManager(options: UseAudioManagerOptions = {}): UseAudioM
           URL.revokeObjectURL(audioUrl);
           setIsPlaying(false);
           currentAudioRef.current = null;
+          stopBargeInMonitor();
           reject(new Error('Audio playback failed'));
         };
 
@@ -254,19 +796,55 @@ export function useAudioManager(options: UseAudioManagerOptions = {}): UseAudioM
       setIsPlaying(false);
       throw error;
     }
-  }, [isPlaying]);
+  }, [bargeIn, startBargeInMonitor, stopBargeInMonitor]);
+
+  // Streamed answers reach the tap as the player's live output
+  useEffect(() => {
+    if (!playbackTap) return;
+    return playbackTap.addStream(getStreamingPlayer().getOutputStream());
+  }, [playbackTap, getStreamingPlayer]);
+
+  // A new speaker applies to whatever is playing; a running mic test restarts with the new settings
+  useEffect(() => {
+    let previous = getAudioSettings();
+
+    return subscribeAudioSettings(() => {
+      const settings = getAudioSettings();
+      if (settings.outputDeviceId !== previous.outputDeviceId) {
+        streamingPlayerRef.current?.setOutputDevice(settings.outputDeviceId);
+        if (currentAudioRef.current) {
+          applyOutputDevice(currentAudioRef.current, settings.outputDeviceId);
+        }
+      }
+      previous = settings;
+
+      if (micTestRef.current) {
+        startMicTest().catch(() => undefined);
+      }
+    });
+  }, [startMicTest]);
+
+  // A new speed applies to the clip playing now and to the next streamed buffers
+  useEffect(() => {
+    return subscribeAccessibilitySettings(() => {
+      const { playbackRate } = getAccessibilitySettings();
+      streamingPlayerRef.current?.setPlaybackRate(playbackRate);
+      if (currentAudioRef.current) {
+        currentAudioRef.current.playbackRate = playbackRate;
+      }
+    });
+  }, []);
 
   // Cleanup on unmount
   useEffect(() => {
     return () => {
+      stopMicTest();
       stopRecording();
-      if (currentAudioRef.current) {
-        currentAudioRef.current.pause();
-        currentAudioRef.current = null;
-      }
-      audioQueueRef.current = [];
+      stopPlayback();
+      streamingPlayerRef.current?.dispose();
+      streamingPlayerRef.current = null;
     };
-  }, [stopRecording]);
+  }, [stopMicTest, stopRecording, stopPlayback]);
 
   return {
     isRecording,
@@ -275,6 +853,12 @@ export function useAudioManager(options: UseAudioManagerOptions = {}): UseAudioM
     startRecording,
     stopRecording,
     playAudio,
+    playAudioChunk,
+    finishAudioStream,
+    stopPlayback,
+    isTestingMic,
+    startMicTest,
+    stopMicTest,
     error,
   };
 }
@@ -0,0 +1,24 @@
+/**
+ * useAuth - Signed-in user and session actions
+ * Re-renders on login, logout, token refresh and profile updates
+ */
+
+import { useSyncExternalStore } from 'react';
+import { authService } from '../services/auth.service';
+
+const subscribe = (listener: () => void) => authService.subscribe(listener);
+const getSnapshot = () => authService.getSnapshot();
+
+export function useAuth() {
+  const { token, user } = useSyncExternalStore(subscribe, getSnapshot);
+
+  return {
+    user,
+    // An expired token still counts: it's renewed in the background, or the session is
+    // cleared (and this re-renders) if that fails
+    isAuthenticated: token !== null,
+    login: authService.login.bind(authService),
+    register: authService.register.bind(authService),
+    logout: authService.logout.bind(authService),
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * useConversationRecorder - Opt-in recording of the whole conversation for QA review
+ * While recording, `tap` goes to the audio manager so the agent's audio joins the mix;
+ * after `stop`, the finished recording stays available until it is discarded.
+ */
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ConversationRecorder, type ConversationRecording, type PlaybackTap } from '@/lib/conversation-recorder';
+
+export type ConversationRecorderStatus = 'idle' | 'starting' | 'recording' | 'stopping';
+
+// Refresh rate of the elapsed-time display
+const ELAPSED_TICK_MS = 1000;
+
+export function useConversationRecorder() {
+  const [status, setStatus] = useState<ConversationRecorderStatus>('idle');
+  const [tap, setTap] = useState<PlaybackTap | null>(null);
+  const [recording, setRecording] = useState<ConversationRecording | null>(null);
+  const [elapsedMs, setElapsedMs] = useState(0);
+
+  const recorderRef = useRef<ConversationRecorder | null>(null);
+  const startedAtRef = useRef(0);
+
+  const isSupported = ConversationRecorder.isSupported();
+
+  /**
+   * Start a new recording; `consentAt` is when the user agreed to it. A previous
+   * recording that wasn't discarded is replaced.
+   */
+  const start = useCallback(async (consentAt: Date) => {
+    if (recorderRef.current) return;
+
+    const recorder = new ConversationRecorder();
+    recorderRef.current = recorder;
+    setStatus('starting');
+
+    try {
+      await recorder.start(consentAt);
+      startedAtRef.current = Date.now();
+      setElapsedMs(0);
+      setRecording(null);
+      setTap(recorder);
+      setStatus('recording');
+    } catch (error) {
+      recorder.dispose();
+      recorderRef.current = null;
+      setStatus('idle');
+      throw error;
+    }
+  }, []);
+
+  const stop = useCallback(async (): Promise<ConversationRecording | null> => {
+    const recorder = recorderRef.current;
+    if (!recorder?.isRecording) return null;
+
+    setStatus('stopping');
+    setTap(null);
+    try {
+      const result = await recorder.stop();
+      setRecording(result);
+      return result;
+    } finally {
+      recorderRef.current = null;
+      setStatus('idle');
+    }
+  }, []);
+
+  const discard = useCallback(() => {
+    setRecording(null);
+  }, []);
+
+  /**
+   * Offset of a moment in the running recording, in ms; undefined when it isn't recorded
+   */
+  const offsetOf = useCallback((time: Date): number | undefined => {
+    return recorderRef.current?.offsetOf(time) ?? undefined;
+  }, []);
+
+  useEffect(() => {
+    if (status !== 'recording') return;
+
+    const intervalId = setInterval(() => setElapsedMs(Date.now() - startedAtRef.current), ELAPSED_TICK_MS);
+    return () => clearInterval(intervalId);
+  }, [status]);
+
+  // Leaving the page drops an unfinished recording
+  useEffect(() => {
+    return () => {
+      recorderRef.current?.dispose();
+      recorderRef.current = null;
+    };
+  }, []);
+
+  return {
+    status,
+    isSupported,
+    tap,
+    recording,
+    elapsedMs,
+    start,
+    stop,
+    discard,
+    offsetOf,
+  };
+}
@@ -4,6 +4,7 @@
 import { useQuery } from '@tanstack/react-query';
 import { apiClient } from '@/lib/api-client';
 import { handleError } from '@/lib/error-handler';
+import { t } from '@/lib/i18n';
 
 export interface DashboardStats {
   interacoes: number;
@@ -32,11 +33,11 @@ export interface DashboardData {
 export function useDashboard() {
   return useQuery<DashboardData>({
     queryKey: ['dashboard'],
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       try {
-        return await apiClient.get<DashboardData>('/api/v1/dashboard');
+        return await apiClient.get<DashboardData>('/api/v1/dashboard', { signal });
       } catch (err) {
-        handleError(err, 'Falha ao carregar dashboard');
+        handleError(err, t('errors.load.dashboard'));
         throw err;
       }
     },
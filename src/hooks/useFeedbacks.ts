@@ -4,6 +4,7 @@
 import { useQuery } from '@tanstack/react-query';
 import { apiClient } from '@/lib/api-client';
 import { handleError } from '@/lib/error-handler';
+import { t } from '@/lib/i18n';
 
 export interface Feedback {
   id: number;
@@ -17,11 +18,11 @@ export interface Feedback {
 export function useFeedbacks() {
   return useQuery<Feedback[]>({
     queryKey: ['feedbacks'],
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       try {
-        return await apiClient.get<Feedback[]>('/api/v1/feedbacks');
+        return await apiClient.get<Feedback[]>('/api/v1/feedbacks', { signal });
       } catch (err) {
-        handleError(err, 'Falha ao carregar feedbacks');
+        handleError(err, t('errors.load.feedbacks'));
         throw err;
       }
     },
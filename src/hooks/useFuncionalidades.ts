@@ -4,6 +4,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiClient } from '@/lib/api-client';
 import { handleError } from '@/lib/error-handler';
+import { t } from '@/lib/i18n';
 
 export interface Funcionalidade {
   id: number;
@@ -49,11 +50,11 @@ export interface Trigger {
 export function useFuncionalidades() {
   return useQuery<Funcionalidade[]>({
     queryKey: ['funcionalidades'],
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       try {
-        return await apiClient.get<Funcionalidade[]>('/api/v1/funcionalidades');
+        return await apiClient.get<Funcionalidade[]>('/api/v1/funcionalidades', { signal });
       } catch (err) {
-        handleError(err, 'Falha ao carregar funcionalidades');
+        handleError(err, t('errors.load.functionalities'));
         throw err;
       }
     },
@@ -63,11 +64,11 @@ export function useFuncionalidades() {
 export function useAgentConfig() {
   return useQuery<AgentConfig>({
     queryKey: ['agent-config'],
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       try {
-        return await apiClient.get<AgentConfig>('/api/v1/funcionalidades/config');
+        return await apiClient.get<AgentConfig>('/api/v1/funcionalidades/config', { signal });
       } catch (err) {
-        handleError(err, 'Falha ao carregar configuração do agente');
+        handleError(err, t('errors.load.agentConfig'));
         throw err;
       }
     },
@@ -85,7 +86,7 @@ export function useUpdateAgentConfig() {
       queryClient.invalidateQueries({ queryKey: ['agent-config'] });
     },
     onError: (err) => {
-      handleError(err, 'Falha ao atualizar configuração do agente');
+      handleError(err, t('errors.save.agentConfig'));
     },
   });
 }
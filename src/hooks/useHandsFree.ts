@@ -0,0 +1,140 @@
+/**
+ * useHandsFree - Continuous conversation without clicking for every turn
+ * While awake, the mic reopens (waiting for speech) as soon as the agent is done, and
+ * goes to sleep after a stretch without speech. With the wake word on, sleeping means
+ * listening for "RENUS"; otherwise a click on the sphere wakes it up. The wake word only
+ * gates the mode when it can be spotted on-device, or the user allowed the cloud fallback.
+ */
+import { useState, useEffect, useCallback, useRef, useSyncExternalStore } from 'react';
+import { useWakeWordSupport } from '@/hooks/useWakeWordSupport';
+import { getAudioSettings, subscribeAudioSettings } from '@/lib/audio-settings';
+import { getLocale, t } from '@/lib/i18n';
+import { createKeywordSpotter } from '@/lib/keyword-spotter';
+import { showError } from '@/utils/toast';
+import type { AgentState, HandsFreeState } from '@/types/voice';
+
+interface UseHandsFreeOptions {
+  enabled: boolean;
+  canListen: boolean; // connected and in voice mode
+  agentState: AgentState;
+  isRecording: boolean;
+  isPlaying: boolean;
+  onListen: () => void; // open the mic and wait for speech
+  onSleep: () => void; // close the mic
+}
+
+// Let the end of a clip and the server's final state settle before reopening the mic
+const RESUME_DELAY_MS = 400;
+// Stop waiting for the server to pick up an utterance it never acknowledged
+const REPLY_TIMEOUT_MS = 15000;
+
+export function useHandsFree(options: UseHandsFreeOptions) {
+  const { enabled, canListen, agentState, isRecording, isPlaying, onListen, onSleep } = options;
+
+  const { wakeWord, wakeWordCloudFallback, handsFreeSleepMs } = useSyncExternalStore(subscribeAudioSettings, getAudioSettings);
+  const { isSupported: isWakeWordSupported, isOnDevice } = useWakeWordSupport();
+  const wakeWordGate = wakeWord && isWakeWordSupported && (isOnDevice === true || wakeWordCloudFallback);
+
+  const [awake, setAwake] = useState(false);
+  // An utterance went out and the server hasn't reacted yet; state is still 'idle' meanwhile
+  const [awaitingReply, setAwaitingReply] = useState(false);
+  const [lastActivity, setLastActivity] = useState(0);
+
+  const state: HandsFreeState = !enabled ? 'off' : awake ? 'awake' : 'sleeping';
+
+  const callbacksRef = useRef({ onListen, onSleep });
+  callbacksRef.current = { onListen, onSleep };
+  const wakeWordGateRef = useRef(wakeWordGate);
+  wakeWordGateRef.current = wakeWordGate;
+
+  const wake = useCallback(() => {
+    setAwake(true);
+    setLastActivity(Date.now());
+  }, []);
+
+  const sleep = useCallback(() => {
+    console.log('[HandsFree] Going to sleep');
+    setAwake(false);
+    setAwaitingReply(false);
+    callbacksRef.current.onSleep();
+  }, []);
+
+  const noteActivity = useCallback(() => {
+    setLastActivity(Date.now());
+  }, []);
+
+  const noteUtteranceEnd = useCallback(() => {
+    setAwaitingReply(true);
+  }, []);
+
+  // Turning the mode on wakes it straight away unless the wake word gates it; turning it off closes the mic
+  useEffect(() => {
+    if (!enabled) return;
+
+    if (wakeWordGateRef.current) {
+      setAwake(false);
+    } else {
+      wake();
+    }
+
+    return () => {
+      setAwake(false);
+      setAwaitingReply(false);
+      callbacksRef.current.onSleep();
+    };
+  }, [enabled, wake]);
+
+  const isAgentIdle = agentState === 'idle' && !isPlaying && !awaitingReply;
+
+  // Reopen the mic once the agent has finished its turn
+  useEffect(() => {
+    if (state !== 'awake' || !canListen || isRecording || !isAgentIdle) return;
+
+    const timeoutId = setTimeout(() => callbacksRef.current.onListen(), RESUME_DELAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [state, canListen, isRecording, isAgentIdle]);
+
+  useEffect(() => {
+    if (!awaitingReply) return;
+    if (agentState !== 'idle' || isPlaying) {
+      setAwaitingReply(false);
+      return;
+    }
+
+    const timeoutId = setTimeout(() => setAwaitingReply(false), REPLY_TIMEOUT_MS);
+    return () => clearTimeout(timeoutId);
+  }, [awaitingReply, agentState, isPlaying]);
+
+  // Auto-sleep: the clock only runs while it's the user's turn and restarts whenever they speak
+  useEffect(() => {
+    if (state !== 'awake' || !isAgentIdle) return;
+
+    const timeoutId = setTimeout(sleep, handsFreeSleepMs);
+    return () => clearTimeout(timeoutId);
+  }, [state, isAgentIdle, handsFreeSleepMs, lastActivity, sleep]);
+
+  // Asleep with the wake word on: listen for "RENUS"
+  useEffect(() => {
+    if (state !== 'sleeping' || !wakeWordGate || !canListen) return;
+
+    const spotter = createKeywordSpotter({
+      lang: getLocale(),
+      onDevice: isOnDevice === true,
+      onDetected: wake,
+      onError: () => showError(t('handsFree.wakeWordUnavailable')),
+    });
+    spotter.start();
+
+    return () => spotter.stop();
+  }, [state, wakeWordGate, isOnDevice, canListen, wake]);
+
+  return {
+    state,
+    usesWakeWord: wakeWordGate,
+    isWakeWordSupported,
+    wake,
+    sleep,
+    noteActivity,
+    noteUtteranceEnd,
+  };
+}
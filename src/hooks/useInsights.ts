@@ -4,6 +4,7 @@
 import { useQuery } from '@tanstack/react-query';
 import { apiClient } from '@/lib/api-client';
 import { handleError } from '@/lib/error-handler';
+import { t } from '@/lib/i18n';
 
 export interface InsightsData {
   resumo: string;
@@ -14,11 +15,11 @@ export interface InsightsData {
 export function useInsights() {
   return useQuery<InsightsData>({
     queryKey: ['insights'],
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       try {
-        return await apiClient.get<InsightsData>('/api/v1/insights');
+        return await apiClient.get<InsightsData>('/api/v1/insights', { signal });
       } catch (err) {
-        handleError(err, 'Falha ao carregar insights');
+        handleError(err, t('errors.load.insights'));
         throw err;
       }
     },
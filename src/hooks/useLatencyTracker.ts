@@ -0,0 +1,66 @@
+/**
+ * useLatencyTracker - Hook exposing per-turn voice latency and rolling percentiles
+ * Wraps LatencyTracker and re-renders whenever a turn changes
+ */
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { LatencyTracker, computeLatencyStats } from '../lib/latency-tracker';
+import type { LatencyMark, LatencyMetrics, TurnLatency } from '../types/voice';
+
+interface UseLatencyTrackerOptions {
+  windowSize?: number; // turns kept for p50/p95, default 20
+  onTurnComplete?: (turn: TurnLatency) => void;
+}
+
+export function useLatencyTracker(options: UseLatencyTrackerOptions = {}) {
+  const { windowSize, onTurnComplete } = options;
+
+  const onTurnCompleteRef = useRef(onTurnComplete);
+  onTurnCompleteRef.current = onTurnComplete;
+
+  const trackerRef = useRef<LatencyTracker | null>(null);
+  if (!trackerRef.current) {
+    trackerRef.current = new LatencyTracker({
+      windowSize,
+      onTurnComplete: (turn) => onTurnCompleteRef.current?.(turn),
+    });
+  }
+  const tracker = trackerRef.current;
+
+  const [turns, setTurns] = useState<TurnLatency[]>([]);
+
+  const startTurn = useCallback((input: TurnLatency['input']) => {
+    tracker.startTurn(input);
+    setTurns(tracker.getTurns());
+  }, [tracker]);
+
+  const mark = useCallback((name: LatencyMark) => {
+    tracker.mark(name);
+    setTurns(tracker.getTurns());
+  }, [tracker]);
+
+  const setServerMetrics = useCallback((metrics: LatencyMetrics) => {
+    tracker.setServerMetrics(metrics);
+    setTurns(tracker.getTurns());
+  }, [tracker]);
+
+  const clear = useCallback(() => {
+    tracker.clear();
+    setTurns([]);
+  }, [tracker]);
+
+  // The last turn is only closed by the next one; close it when the page goes away
+  useEffect(() => {
+    return () => tracker.completeTurn();
+  }, [tracker]);
+
+  const stats = useMemo(() => computeLatencyStats(turns), [turns]);
+
+  return {
+    turns,
+    stats,
+    startTurn,
+    mark,
+    setServerMetrics,
+    clear,
+  };
+}
@@ -4,6 +4,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiClient } from '@/lib/api-client';
 import { handleError } from '@/lib/error-handler';
+import { t } from '@/lib/i18n';
 
 export interface Lead {
   id: string;
@@ -18,11 +19,11 @@ export interface Lead {
 export function useLeads() {
   return useQuery<Lead[]>({
     queryKey: ['leads'],
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       try {
-        return await apiClient.get<Lead[]>('/api/v1/leads');
+        return await apiClient.get<Lead[]>('/api/v1/leads', { signal });
       } catch (err) {
-        handleError(err, 'Falha ao carregar leads');
+        handleError(err, t('errors.load.leads'));
         throw err;
       }
     },
@@ -40,7 +41,7 @@ export function useCreateLead() {
       queryClient.invalidateQueries({ queryKey: ['leads'] });
     },
     onError: (err) => {
-      handleError(err, 'Falha ao criar lead');
+      handleError(err, t('errors.save.lead'));
     },
   });
 }
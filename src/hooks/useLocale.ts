@@ -0,0 +1,17 @@
+/**
+ * useLocale - Hook exposing the current UI language and the message lookup
+ * Components using it re-render when the language changes
+ */
+
+import { useSyncExternalStore } from 'react';
+import { getLocale, setLocale, subscribeLocale, t } from '../lib/i18n';
+
+export function useLocale() {
+  const locale = useSyncExternalStore(subscribeLocale, getLocale);
+
+  return {
+    locale,
+    setLocale,
+    t,
+  };
+}
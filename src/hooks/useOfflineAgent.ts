@@ -0,0 +1,222 @@
+/**
+ * useOfflineAgent - Browser-only fallback for the voice page
+ * While `active`, the Web Speech API stands in for the server: recognition captures the
+ * user, synthesis speaks the scripted interviewer and each answer joins the offline queue.
+ * The queue is synced to /api/v1/respostas whenever the browser is online, active or not.
+ */
+import { useState, useEffect, useCallback, useRef, useSyncExternalStore } from 'react';
+import { apiClient } from '@/lib/api-client';
+import { getLocale, pickSpeechVoice, t } from '@/lib/i18n';
+import { OfflineInterviewer } from '@/lib/offline-interviewer';
+import { getSpeechRecognition } from '@/lib/speech-recognition';
+import { offlineAnswerQueue, type QueuedAnswer } from '@/lib/offline-answer-queue';
+import { showSuccess } from '@/utils/toast';
+import type { AgentState, ConversationEntry } from '@/types/voice';
+
+interface UseOfflineAgentOptions {
+  active: boolean;
+  conversationId?: string | null;
+  leadId?: string | null;
+  speakReplies?: boolean; // false keeps the interviewer silent (text mode)
+  onEntry: (entry: ConversationEntry) => void;
+}
+
+// Retry cadence for the queue while answers are pending
+const SYNC_INTERVAL = 30000;
+
+function sendAnswer(answer: QueuedAnswer) {
+  return apiClient.post('/api/v1/respostas', {
+    client_id: answer.id,
+    conversation_id: answer.conversationId,
+    lead_id: answer.leadId,
+    nicho: answer.nicho,
+    pergunta: answer.pergunta,
+    resposta: answer.resposta,
+    data: answer.answeredAt,
+    origem: 'offline',
+  });
+}
+
+export function useOfflineAgent(options: UseOfflineAgentOptions) {
+  const { active, conversationId = null, leadId = null, speakReplies = true, onEntry } = options;
+
+  const [agentState, setAgentState] = useState<AgentState>('idle');
+  const [interimTranscript, setInterimTranscript] = useState('');
+  const pendingAnswers = useSyncExternalStore(
+    (listener) => offlineAnswerQueue.subscribe(listener),
+    () => offlineAnswerQueue.size
+  );
+
+  const interviewerRef = useRef(new OfflineInterviewer());
+  const recognitionRef = useRef<SpeechRecognition | null>(null);
+
+  const callbacksRef = useRef({ onEntry, conversationId, leadId, speakReplies });
+  callbacksRef.current = { onEntry, conversationId, leadId, speakReplies };
+
+  const isRecognitionSupported = getSpeechRecognition() !== null;
+
+  const speak = useCallback((text: string) => {
+    const synth = typeof window !== 'undefined' ? window.speechSynthesis : undefined;
+    if (!synth || !callbacksRef.current.speakReplies) {
+      setAgentState('idle');
+      return;
+    }
+
+    const locale = getLocale();
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = locale;
+    const voice = pickSpeechVoice(synth.getVoices(), locale);
+    if (voice) {
+      utterance.voice = voice;
+    }
+    utterance.onend = () => setAgentState('idle');
+    utterance.onerror = () => setAgentState('idle');
+
+    synth.cancel();
+    setAgentState('speaking');
+    synth.speak(utterance);
+  }, []);
+
+  const addEntry = useCallback((speaker: ConversationEntry['speaker'], text: string) => {
+    callbacksRef.current.onEntry({
+      id: `${Date.now()}-offline-${speaker}`,
+      timestamp: new Date(),
+      speaker,
+      text,
+      state: speaker === 'user' ? 'listening' : 'speaking',
+    });
+  }, []);
+
+  const say = useCallback((text: string) => {
+    addEntry('agent', text);
+    speak(text);
+  }, [addEntry, speak]);
+
+  // One user reply, spoken or typed: record it, queue the answer, ask the next question
+  const handleUserText = useCallback((text: string) => {
+    if (!text.trim()) {
+      setAgentState('idle');
+      return;
+    }
+
+    addEntry('user', text);
+    const turn = interviewerRef.current.reply(text);
+    if (turn.answer) {
+      const { conversationId, leadId } = callbacksRef.current;
+      offlineAnswerQueue.enqueue({ ...turn.answer, conversationId, leadId });
+    }
+    say(turn.prompt);
+  }, [addEntry, say]);
+
+  const stopListening = useCallback(() => {
+    recognitionRef.current?.stop();
+  }, []);
+
+  const listen = useCallback(() => {
+    const Recognition = getSpeechRecognition();
+    if (!Recognition || recognitionRef.current) return;
+
+    window.speechSynthesis?.cancel();
+
+    const recognition = new Recognition();
+    recognition.lang = getLocale();
+    recognition.continuous = false;
+    recognition.interimResults = true;
+
+    let finalTranscript = '';
+
+    recognition.onresult = (event: SpeechRecognitionEvent) => {
+      let interim = '';
+      for (let i = event.resultIndex; i < event.results.length; ++i) {
+        const result = event.results[i];
+        if (result.isFinal) {
+          finalTranscript += result[0].transcript;
+        } else {
+          interim += result[0].transcript;
+        }
+      }
+      setInterimTranscript(finalTranscript || interim);
+    };
+
+    recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
+      if (event.error !== 'no-speech' && event.error !== 'aborted') {
+        console.error('[OfflineAgent] Recognition error:', event.error);
+      }
+    };
+
+    recognition.onend = () => {
+      recognitionRef.current = null;
+      setInterimTranscript('');
+      handleUserText(finalTranscript);
+    };
+
+    recognitionRef.current = recognition;
+    setAgentState('listening');
+    recognition.start();
+  }, [handleUserText]);
+
+  // Barge-in: cut the interviewer off and hand the turn to the user
+  const interrupt = useCallback(() => {
+    window.speechSynthesis?.cancel();
+    setAgentState('idle');
+    listen();
+  }, [listen]);
+
+  const sendText = useCallback((text: string) => {
+    setAgentState('thinking');
+    handleUserText(text);
+  }, [handleUserText]);
+
+  const syncAnswers = useCallback(async () => {
+    if (offlineAnswerQueue.size === 0 || !navigator.onLine) return;
+
+    const { sent } = await offlineAnswerQueue.flush(sendAnswer);
+    if (sent > 0) {
+      showSuccess(t('offline.synced', { count: sent }));
+    }
+  }, []);
+
+  // Start the interview when the fallback kicks in; stop talking and listening when it ends
+  useEffect(() => {
+    if (!active) return;
+
+    say(interviewerRef.current.start());
+
+    return () => {
+      const recognition = recognitionRef.current;
+      if (recognition) {
+        recognition.onend = null;
+        recognition.stop();
+        recognitionRef.current = null;
+      }
+      window.speechSynthesis?.cancel();
+      setInterimTranscript('');
+      setAgentState('idle');
+    };
+  }, [active, say]);
+
+  // Sync on load, when the browser comes back online and periodically while answers wait
+  useEffect(() => {
+    syncAnswers();
+    window.addEventListener('online', syncAnswers);
+    return () => window.removeEventListener('online', syncAnswers);
+  }, [syncAnswers]);
+
+  useEffect(() => {
+    if (pendingAnswers === 0) return;
+    const interval = setInterval(syncAnswers, SYNC_INTERVAL);
+    return () => clearInterval(interval);
+  }, [pendingAnswers, syncAnswers]);
+
+  return {
+    agentState,
+    interimTranscript,
+    pendingAnswers,
+    isRecognitionSupported,
+    listen,
+    stopListening,
+    interrupt,
+    sendText,
+    syncAnswers,
+  };
+}
@@ -0,0 +1,20 @@
+/**
+ * usePermission - What the signed-in user's role allows
+ * Follows the session, so a role change after a refresh or re-login applies right away
+ */
+
+import { useCallback } from 'react';
+import { useAuth } from './useAuth';
+import { hasPermission, resolveRole, type Permission, type Role } from '../lib/permissions';
+
+export function usePermissions(): { role: Role; can: (permission: Permission) => boolean } {
+  const { user } = useAuth();
+  const role = resolveRole(user?.role);
+  const can = useCallback((permission: Permission) => hasPermission(role, permission), [role]);
+
+  return { role, can };
+}
+
+export function usePermission(permission: Permission): boolean {
+  return usePermissions().can(permission);
+}
@@ -4,6 +4,7 @@
 import { useQuery } from '@tanstack/react-query';
 import { apiClient } from '@/lib/api-client';
 import { handleError } from '@/lib/error-handler';
+import { t } from '@/lib/i18n';
 
 export interface Resposta {
   id: number;
@@ -17,16 +18,16 @@ export interface Resposta {
 export function useRespostas(filters?: { nicho?: string; keyword?: string }) {
   return useQuery<Resposta[]>({
     queryKey: ['respostas', filters],
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       try {
         const params = new URLSearchParams();
         if (filters?.nicho) params.append('nicho', filters.nicho);
         if (filters?.keyword) params.append('keyword', filters.keyword);
         
         const url = `/api/v1/respostas${params.toString() ? `?${params.toString()}` : ''}`;
-        return await apiClient.get<Resposta[]>(url);
+        return await apiClient.get<Resposta[]>(url, { signal });
       } catch (err) {
-        handleError(err, 'Falha ao carregar respostas');
+        handleError(err, t('errors.load.responses'));
         throw err;
       }
     },
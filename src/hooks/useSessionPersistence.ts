@@ -1,12 +1,14 @@
 /**
  * useSessionPersistence - Hook for managing session persistence
- * Saves and restores conversation_id and session data from localStorage
+ * Saves and restores conversation_id and session data from localStorage,
+ * along with the last server message sequence used to resume the voice socket
  */
 import { useState, useEffect, useCallback } from 'react';
 
 interface SessionData {
   conversationId: string | null;
   leadId: string | null;
+  lastSequence?: number; // highest server message sequence seen in this conversation
   timestamp: number;
   expiresAt: number;
 }
@@ -55,23 +57,43 @@ export function useSessionPersistence(options: UseSessionPersistenceOptions = {}
   }, [storageKey]);
 
   // Save session to localStorage
-  const saveSession = useCallback((conversationId: string, leadId: string | null = null) => {
-    try {
+  const saveSession = useCallback((conversationId: string, leadId: string | null = null, lastSequence?: number) => {
+    setSessionData(prev => {
+      // Same conversation: keep the sequence already seen unless a newer one is given
+      const seen = prev?.conversationId === conversationId ? prev.lastSequence : undefined;
       const data: SessionData = {
         conversationId,
         leadId,
+        lastSequence: lastSequence === undefined ? seen : Math.max(lastSequence, seen ?? -1),
         timestamp: Date.now(),
         expiresAt: Date.now() + sessionTimeout,
       };
 
-      localStorage.setItem(storageKey, JSON.stringify(data));
-      setSessionData(data);
-      console.log('[SessionPersistence] Saved session:', conversationId);
-    } catch (error) {
-      console.error('[SessionPersistence] Failed to save session:', error);
-    }
+      try {
+        localStorage.setItem(storageKey, JSON.stringify(data));
+        console.log('[SessionPersistence] Saved session:', conversationId);
+      } catch (error) {
+        console.error('[SessionPersistence] Failed to save session:', error);
+      }
+      return data;
+    });
   }, [storageKey, sessionTimeout]);
 
+  // Record the latest server message sequence; never moves backwards
+  const updateLastSequence = useCallback((sequence: number) => {
+    setSessionData(prev => {
+      if (!prev || (prev.lastSequence ?? -1) >= sequence) return prev;
+
+      const updatedData: SessionData = { ...prev, lastSequence: sequence };
+      try {
+        localStorage.setItem(storageKey, JSON.stringify(updatedData));
+      } catch (error) {
+        console.error('[SessionPersistence] Failed to save sequence:', error);
+      }
+      return updatedData;
+    });
+  }, [storageKey]);
+
   // Clear session from localStorage
   const clearSession = useCallback(() => {
     try {
@@ -143,7 +165,9 @@ export function useSessionPersistence(options: UseSessionPersistenceOptions = {}
     sessionData,
     conversationId: sessionData?.conversationId || null,
     leadId: sessionData?.leadId || null,
+    lastSequence: sessionData?.lastSequence ?? -1,
     saveSession,
+    updateLastSequence,
     clearSession,
     refreshSession,
     cleanupOldSessions,
@@ -0,0 +1,143 @@
+/**
+ * Hooks for the local transcript archive (IndexedDB)
+ * Queries for the history panel, plus the persistence used by the voice page
+ */
+import { useCallback, useEffect, useRef } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { transcriptStore, type StoredEntry } from '@/lib/transcript-store';
+import type { ConversationEntry } from '@/types/voice';
+
+const TRANSCRIPTS_KEY = 'transcripts';
+
+/**
+ * Archived entry as shown in the UI; audio is fetched on demand
+ */
+export function storedEntryToConversationEntry(entry: StoredEntry): ConversationEntry {
+  return {
+    id: entry.id,
+    timestamp: new Date(entry.timestamp),
+    speaker: entry.speaker,
+    text: entry.text,
+    state: 'idle',
+    sequence: entry.sequence,
+    correctedFrom: entry.correctedFrom,
+  };
+}
+
+export function useTranscriptConversations() {
+  return useQuery({
+    queryKey: [TRANSCRIPTS_KEY, 'conversations'],
+    queryFn: () => transcriptStore.listConversations(),
+    enabled: transcriptStore.isSupported,
+  });
+}
+
+export function useTranscriptEntries(conversationId: string | null) {
+  return useQuery({
+    queryKey: [TRANSCRIPTS_KEY, 'entries', conversationId],
+    queryFn: () => transcriptStore.getEntries(conversationId!),
+    enabled: transcriptStore.isSupported && !!conversationId,
+  });
+}
+
+export function useTranscriptSearch(query: string) {
+  const trimmed = query.trim();
+
+  return useQuery({
+    queryKey: [TRANSCRIPTS_KEY, 'search', trimmed],
+    queryFn: () => transcriptStore.search(trimmed),
+    enabled: transcriptStore.isSupported && trimmed.length >= 2,
+    placeholderData: (previous) => previous,
+  });
+}
+
+export function useDeleteTranscript() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (conversationId: string) => transcriptStore.deleteConversation(conversationId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [TRANSCRIPTS_KEY] });
+    },
+  });
+}
+
+/**
+ * Save the live conversation as it happens and restore it after a reload.
+ * Object URLs handed out for audio are revoked on unmount.
+ */
+export function useTranscriptPersistence() {
+  const queryClient = useQueryClient();
+  const audioUrlsRef = useRef<string[]>([]);
+
+  useEffect(() => {
+    // Retention runs once per visit rather than on every write
+    if (transcriptStore.isSupported) {
+      transcriptStore.enforceRetention().catch((err) => {
+        console.error('[Transcripts] Failed to apply retention:', err);
+      });
+    }
+
+    return () => {
+      audioUrlsRef.current.forEach((url) => URL.revokeObjectURL(url));
+      audioUrlsRef.current = [];
+    };
+  }, []);
+
+  const createAudioUrl = useCallback((blob: Blob) => {
+    const url = URL.createObjectURL(blob);
+    audioUrlsRef.current.push(url);
+    return url;
+  }, []);
+
+  const saveEntries = useCallback(async (conversationId: string, entries: ConversationEntry[], leadId: string | null) => {
+    if (!transcriptStore.isSupported) return;
+
+    try {
+      await transcriptStore.saveEntries(conversationId, entries, leadId);
+      queryClient.invalidateQueries({ queryKey: [TRANSCRIPTS_KEY] });
+    } catch (err) {
+      console.error('[Transcripts] Failed to save entries:', err);
+    }
+  }, [queryClient]);
+
+  /**
+   * Keep an entry's audio; returns an object URL for immediate replay. The conversation id
+   * may still be unknown, in which case saveEntries attaches the audio later.
+   */
+  const saveAudio = useCallback((conversationId: string | null, entryId: string, blob: Blob): string => {
+    if (transcriptStore.isSupported) {
+      transcriptStore.saveAudio(conversationId, entryId, blob).catch((err) => {
+        console.error('[Transcripts] Failed to save audio:', err);
+      });
+    }
+    return createAudioUrl(blob);
+  }, [createAudioUrl]);
+
+  /**
+   * A conversation's archived entries, with audio URLs where a recording was kept
+   */
+  const loadConversation = useCallback(async (conversationId: string): Promise<ConversationEntry[]> => {
+    if (!transcriptStore.isSupported) return [];
+
+    try {
+      const stored = await transcriptStore.getEntries(conversationId);
+      return await Promise.all(stored.map(async (entry) => {
+        const blob = entry.hasAudio ? await transcriptStore.getAudio(conversationId, entry.id) : null;
+        return {
+          ...storedEntryToConversationEntry(entry),
+          audioUrl: blob ? createAudioUrl(blob) : undefined,
+        };
+      }));
+    } catch (err) {
+      console.error('[Transcripts] Failed to load conversation:', err);
+      return [];
+    }
+  }, [createAudioUrl]);
+
+  return {
+    saveEntries,
+    saveAudio,
+    loadConversation,
+  };
+}
@@ -1,61 +1,244 @@
 /**
  * useVoiceWebSocket - Hook for managing WebSocket connection to RENUS Voice Agent
+ *
+ * The connection is kept alive with an application-level ping; a socket that stays silent
+ * past `heartbeatTimeout` is considered dead (half-open behind a proxy) and replaced.
+ * Lost connections are retried with jittered exponential backoff, and immediately when the
+ * browser comes back online or the tab becomes visible. `disconnect()` and unmounting
+ * close the socket for good.
+ *
+ * When `resumeSession` is set, every (re)connection asks the server to resume that
+ * conversation right after the version handshake, so it can replay what was missed.
  */
 import { useState, useEffect, useCallback, useRef } from 'react';
-import type { VoiceMessage, AgentState } from '../types/voice';
+import type { VoiceMessage, AgentState, AudioChunk, AudioStreamFormat, ClientMessage } from '../types/voice';
+import {
+  checkHelloAck,
+  createHello,
+  encodeClientMessage,
+  parseServerMessage,
+  VoiceProtocolError,
+} from '../lib/voice-protocol';
 
-type ConnectionState = 'connecting' | 'connected' | 'disconnected' | 'error';
+export type ConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'disconnected' | 'error';
 
 interface UseVoiceWebSocketReturn {
   isConnected: boolean;
   connectionState: ConnectionState;
-  sendAudio: (audioData: string, format: string) => void;
-  sendText: (text: string) => void;
+  reconnectAttempt: number; // attempt in progress while `reconnecting`, 0 otherwise
+  protocolVersion: number | null; // negotiated via hello/hello_ack, null until acknowledged
+  sendAudio: (audioData: string, format: string, chunk?: Omit<AudioChunk, 'data'>) => void;
+  startUtterance: (streamFormat: AudioStreamFormat) => void;
+  endUtterance: (totalChunks: number) => void;
+  sendText: (text: string, conversationId?: string | null) => void;
+  sendInterrupt: (conversationId: string | null, playbackOffset: number) => void;
+  sendTranscriptCorrection: (conversationId: string | null, correction: TranscriptCorrection) => void;
   lastMessage: VoiceMessage | null;
   error: Error | null;
+  connect: () => void;
+  disconnect: () => void;
   reconnect: () => void;
 }
 
+export interface TranscriptCorrection {
+  sequence?: number; // of the final transcription being corrected, when the server sent one
+  originalText: string;
+  correctedText: string;
+}
+
+export interface ResumeSession {
+  conversationId: string;
+  lastSequence: number; // highest server message `sequence` already seen, -1 for none
+}
+
 interface UseVoiceWebSocketOptions {
   url?: string;
   autoConnect?: boolean;
-  reconnectAttempts?: number;
-  reconnectDelay?: number;
+  reconnectAttempts?: number; // Infinity retries forever
+  reconnectDelay?: number; // base delay, doubled on every attempt
+  maxReconnectDelay?: number;
+  heartbeatInterval?: number; // ms between pings, 0 disables the heartbeat
+  heartbeatTimeout?: number; // ms without any frame before the socket is considered dead
   token?: string; // Optional JWT token for authentication
+  resumeSession?: ResumeSession | null; // read on every open, so it may change between reconnects
+  locale?: string; // sent in `hello`; like resumeSession, a change applies from the next open
   onStateChange?: (state: AgentState) => void;
   onMessage?: (message: VoiceMessage) => void;
   onError?: (error: Error) => void;
+  onProtocolError?: (error: VoiceProtocolError) => void; // invalid frames; the connection stays up
+}
+
+// Close code for sockets we drop ourselves (4000-4999 is reserved for applications)
+const HEARTBEAT_CLOSE_CODE = 4000;
+// Control messages kept for the next open; the oldest go first beyond this
+const MAX_QUEUED_MESSAGES = 50;
+// Stale by the time a socket opens: audio belongs to an utterance the server never saw start,
+// and a ping is only meaningful on the socket it probes
+const UNQUEUED_MESSAGE_TYPES = new Set<ClientMessage['type']>(['audio', 'audio_start', 'audio_end', 'ping']);
+
+/**
+ * Exponential backoff with "equal jitter": half the delay is fixed, half is random, so
+ * clients that lost the same proxy don't all come back at the same instant
+ */
+function getReconnectDelay(attempt: number, baseDelay: number, maxDelay: number): number {
+  const delay = Math.min(maxDelay, baseDelay * Math.pow(2, attempt - 1));
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
 }
 
 export function useVoiceWebSocket(options: UseVoiceWebSocketOptions = {}): UseVoiceWebSocketReturn {
   const {
     url = import.meta.env.VITE_WS_URL || 'ws://localhost:8000/api/v1/agent/voice-stream',
     autoConnect = true,
-    reconnectAttempts = 3,
+    reconnectAttempts = Infinity,
     reconnectDelay = 1000,
+    maxReconnectDelay = 30000,
+    heartbeatInterval = 15000,
+    heartbeatTimeout = 10000,
     token,
+    resumeSession,
+    locale,
     onStateChange,
     onMessage,
     onError,
+    onProtocolError,
   } = options;
 
   const [connectionState, setConnectionState] = useState<ConnectionState>('disconnected');
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const [protocolVersion, setProtocolVersion] = useState<number | null>(null);
   const [lastMessage, setLastMessage] = useState<VoiceMessage | null>(null);
   const [error, setError] = useState<Error | null>(null);
 
   const wsRef = useRef<WebSocket | null>(null);
+  const shouldConnectRef = useRef(false); // false after disconnect(): nothing may reconnect
   const reconnectCountRef = useRef(0);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout>();
-  const messageQueueRef = useRef<Array<{ type: string; data: any }>>([]);
+  const heartbeatIntervalRef = useRef<NodeJS.Timeout>();
+  const lastFrameAtRef = useRef(0);
+  const messageQueueRef = useRef<string[]>([]); // encoded control frames waiting for the socket to open
+
+  // Latest callbacks, so inline handlers don't recreate `connect` and reopen the socket
+  const callbacksRef = useRef({ onStateChange, onMessage, onError, onProtocolError });
+  callbacksRef.current = { onStateChange, onMessage, onError, onProtocolError };
+
+  const resumeSessionRef = useRef(resumeSession);
+  resumeSessionRef.current = resumeSession;
+  const localeRef = useRef(locale);
+  localeRef.current = locale;
+
+  const reportError = useCallback((err: Error) => {
+    setError(err);
+    callbacksRef.current.onError?.(err);
+  }, []);
+
+  const reportProtocolError = useCallback((err: VoiceProtocolError) => {
+    console.warn(`[WebSocket] Protocol error (${err.code}):`, err.message);
+    callbacksRef.current.onProtocolError?.(err);
+  }, []);
+
+  const stopHeartbeat = useCallback(() => {
+    if (heartbeatIntervalRef.current) {
+      clearInterval(heartbeatIntervalRef.current);
+      heartbeatIntervalRef.current = undefined;
+    }
+  }, []);
+
+  const clearReconnectTimeout = useCallback(() => {
+    if (reconnectTimeoutRef.current) {
+      clearTimeout(reconnectTimeoutRef.current);
+      reconnectTimeoutRef.current = undefined;
+    }
+  }, []);
+
+  // Detach handlers before closing so the socket can't trigger a reconnect on its way out
+  const closeSocket = useCallback((code = 1000, reason?: string) => {
+    stopHeartbeat();
+
+    const ws = wsRef.current;
+    wsRef.current = null;
+    if (!ws) return;
+
+    ws.onopen = null;
+    ws.onmessage = null;
+    ws.onerror = null;
+    ws.onclose = null;
+    if (ws.readyState === WebSocket.CONNECTING || ws.readyState === WebSocket.OPEN) {
+      ws.close(code, reason);
+    }
+  }, [stopHeartbeat]);
+
+  // Assigned below; lets the socket handlers schedule a reconnect without a circular dependency
+  const connectRef = useRef<() => void>(() => undefined);
+
+  const scheduleReconnect = useCallback(() => {
+    if (!shouldConnectRef.current) return;
+
+    clearReconnectTimeout();
+
+    if (reconnectCountRef.current >= reconnectAttempts) {
+      console.log('[WebSocket] Max reconnection attempts reached');
+      shouldConnectRef.current = false;
+      setConnectionState('error');
+      setReconnectAttempt(0);
+      reportError(new Error('Failed to reconnect after maximum attempts'));
+      return;
+    }
+
+    const attempt = ++reconnectCountRef.current;
+    const delay = getReconnectDelay(attempt, reconnectDelay, maxReconnectDelay);
+    const limit = Number.isFinite(reconnectAttempts) ? `/${reconnectAttempts}` : '';
+    console.log(`[WebSocket] Reconnecting in ${delay}ms (attempt ${attempt}${limit})`);
+
+    setConnectionState('reconnecting');
+    setReconnectAttempt(attempt);
+
+    reconnectTimeoutRef.current = setTimeout(() => {
+      reconnectTimeoutRef.current = undefined;
+      connectRef.current();
+    }, delay);
+  }, [reconnectAttempts, reconnectDelay, maxReconnectDelay, clearReconnectTimeout, reportError]);
+
+  const handleConnectionLost = useCallback((reason: string) => {
+    console.log('[WebSocket] Connection lost:', reason);
+    closeSocket(HEARTBEAT_CLOSE_CODE, reason);
+    setProtocolVersion(null);
+    setConnectionState('disconnected');
+    scheduleReconnect();
+  }, [closeSocket, scheduleReconnect]);
+
+  const startHeartbeat = useCallback((ws: WebSocket) => {
+    stopHeartbeat();
+    if (heartbeatInterval <= 0) return;
+
+    heartbeatIntervalRef.current = setInterval(() => {
+      if (wsRef.current !== ws || ws.readyState !== WebSocket.OPEN) return;
+
+      // Any frame proves the connection is alive, not just pongs
+      if (Date.now() - lastFrameAtRef.current > heartbeatInterval + heartbeatTimeout) {
+        handleConnectionLost('Heartbeat timeout');
+        return;
+      }
+
+      ws.send(encodeClientMessage({ type: 'ping', timestamp: Date.now() }));
+    }, heartbeatInterval);
+  }, [heartbeatInterval, heartbeatTimeout, stopHeartbeat, handleConnectionLost]);
 
   const connect = useCallback(() => {
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
+    shouldConnectRef.current = true;
+    clearReconnectTimeout();
+
+    const current = wsRef.current;
+    if (current && (current.readyState === WebSocket.OPEN || current.readyState === WebSocket.CONNECTING)) {
       console.log('[WebSocket] Already connected');
       return;
     }
 
     console.log('[WebSocket] Connecting to:', url);
-    setConnectionState('connecting');
+    // Keep showing `reconnecting` (and its attempt count) while a retry is in flight
+    if (reconnectCountRef.current === 0) {
+      setConnectionState('connecting');
+    }
+    setProtocolVersion(null);
     setError(null);
 
     try {
@@ -67,127 +250,203 @@ export function useVoiceWebSocket(options: UseVoiceWebSocketOptions = {}): UseVo
       ws.onopen = () => {
         console.log('[WebSocket] Connected');
         setConnectionState('connected');
+        setReconnectAttempt(0);
         reconnectCountRef.current = 0;
+        lastFrameAtRef.current = Date.now();
+
+        // Announce the protocol version (and the user's language) before anything else
+        ws.send(encodeClientMessage(createHello(localeRef.current)));
+
+        // Pick the conversation back up before any new turn is sent
+        const session = resumeSessionRef.current;
+        if (session) {
+          console.log('[WebSocket] Resuming session:', session.conversationId, 'after', session.lastSequence);
+          ws.send(encodeClientMessage({
+            type: 'session_resume',
+            conversation_id: session.conversationId,
+            last_sequence: session.lastSequence,
+          }));
+        }
 
         // Send queued messages
         while (messageQueueRef.current.length > 0) {
-          const msg = messageQueueRef.current.shift();
-          if (msg && ws.readyState === WebSocket.OPEN) {
-            ws.send(JSON.stringify(msg));
+          const frame = messageQueueRef.current.shift();
+          if (frame && ws.readyState === WebSocket.OPEN) {
+            ws.send(frame);
           }
         }
+
+        startHeartbeat(ws);
       };
 
       ws.onmessage = (event) => {
+        lastFrameAtRef.current = Date.now();
+
+        let message: VoiceMessage;
         try {
-          const message: VoiceMessage = JSON.parse(event.data);
-          console.log('[WebSocket] Message received:', message.type);
+          message = parseServerMessage(event.data);
+        } catch (err) {
+          if (!(err instanceof VoiceProtocolError)) throw err;
+          reportProtocolError(err);
+          return;
+        }
 
-          setLastMessage(message);
+        // Heartbeat replies only feed the liveness check
+        if (message.type === 'pong') return;
 
-          // Handle state changes
-          if (message.type === 'state' && message.state && onStateChange) {
-            onStateChange(message.state);
-          }
+        console.log('[WebSocket] Message received:', message.type);
 
-          // Call message callback
-          if (onMessage) {
-            onMessage(message);
+        if (message.type === 'hello_ack') {
+          const mismatch = checkHelloAck(message);
+          if (mismatch) {
+            // Retrying won't help: fail the connection without reconnecting
+            reportProtocolError(mismatch);
+            shouldConnectRef.current = false;
+            closeSocket(1000, 'Unsupported protocol version');
+            setConnectionState('error');
+            reportError(mismatch);
+            return;
           }
-        } catch (err) {
-          console.error('[WebSocket] Failed to parse message:', err);
+          setProtocolVersion(message.protocol_version);
+        }
+
+        setLastMessage(message);
+
+        const { onStateChange, onMessage } = callbacksRef.current;
+
+        // Handle state changes; a replayed state is history, not what the agent is doing now
+        if (message.type === 'state' && !message.replayed && onStateChange) {
+          onStateChange(message.state);
+        }
+
+        // Call message callback
+        if (onMessage) {
+          onMessage(message);
         }
       };
 
       ws.onerror = (event) => {
+        // A close event always follows, which takes care of reconnecting
         console.error('[WebSocket] Error:', event);
-        const err = new Error('WebSocket error');
-        setError(err);
-        setConnectionState('error');
-        if (onError) {
-          onError(err);
+        // Only surface the first failure, not every retry of the same outage
+        if (reconnectCountRef.current === 0) {
+          reportError(new Error('WebSocket error'));
         }
       };
 
       ws.onclose = (event) => {
         console.log('[WebSocket] Closed:', event.code, event.reason);
-        setConnectionState('disconnected');
-        wsRef.current = null;
-
-        // Attempt reconnection
-        if (reconnectCountRef.current < reconnectAttempts) {
-          const delay = reconnectDelay * Math.pow(2, reconnectCountRef.current);
-          console.log(`[WebSocket] Reconnecting in ${delay}ms (attempt ${reconnectCountRef.current + 1}/${reconnectAttempts})`);
-          
-          reconnectTimeoutRef.current = setTimeout(() => {
-            reconnectCountRef.current++;
-            connect();
-          }, delay);
-        } else {
-          console.log('[WebSocket] Max reconnection attempts reached');
-          const err = new Error('Failed to reconnect after maximum attempts');
-          setError(err);
-          if (onError) {
-            onError(err);
-          }
-        }
+        handleConnectionLost(event.reason || `Closed with code ${event.code}`);
       };
     } catch (err) {
       console.error('[WebSocket] Connection error:', err);
-      const error = err instanceof Error ? err : new Error('Failed to connect');
-      setError(error);
       setConnectionState('error');
-      if (onError) {
-        onError(error);
-      }
+      reportError(err instanceof Error ? err : new Error('Failed to connect'));
+      scheduleReconnect();
     }
-  }, [url, token, reconnectAttempts, reconnectDelay, onStateChange, onMessage, onError]);
+  }, [url, token, clearReconnectTimeout, closeSocket, startHeartbeat, handleConnectionLost, scheduleReconnect, reportError, reportProtocolError]);
+
+  connectRef.current = connect;
 
   const disconnect = useCallback(() => {
     console.log('[WebSocket] Disconnecting');
-    
-    if (reconnectTimeoutRef.current) {
-      clearTimeout(reconnectTimeoutRef.current);
-    }
 
-    if (wsRef.current) {
-      wsRef.current.close();
-      wsRef.current = null;
-    }
+    shouldConnectRef.current = false;
+    clearReconnectTimeout();
+    closeSocket(1000, 'Client disconnect');
 
     setConnectionState('disconnected');
+    setReconnectAttempt(0);
+    setProtocolVersion(null);
     reconnectCountRef.current = 0;
-  }, []);
+  }, [clearReconnectTimeout, closeSocket]);
+
+  const sendMessage = useCallback((message: ClientMessage) => {
+    let frame: string;
+    try {
+      frame = encodeClientMessage(message);
+    } catch (err) {
+      if (!(err instanceof VoiceProtocolError)) throw err;
+      reportProtocolError(err);
+      return;
+    }
 
-  const sendMessage = useCallback((message: { type: string; [key: string]: any }) => {
     if (wsRef.current?.readyState === WebSocket.OPEN) {
-      wsRef.current.send(JSON.stringify(message));
+      wsRef.current.send(frame);
+    } else if (UNQUEUED_MESSAGE_TYPES.has(message.type)) {
+      console.warn(`[WebSocket] Not connected, dropping ${message.type} message`);
     } else {
       console.warn('[WebSocket] Not connected, queueing message');
-      messageQueueRef.current.push(message);
+      const queue = messageQueueRef.current;
+      queue.push(frame);
+      if (queue.length > MAX_QUEUED_MESSAGES) {
+        queue.splice(0, queue.length - MAX_QUEUED_MESSAGES);
+      }
     }
-  }, []);
+  }, [reportProtocolError]);
 
-  const sendAudio = useCallback((audioData: string, format: string = 'wav') => {
+  const sendAudio = useCallback((
+    audioData: string,
+    format: string = 'wav',
+    chunk?: Omit<AudioChunk, 'data'>
+  ) => {
     sendMessage({
       type: 'audio',
       audio: audioData,
       format,
+      ...(chunk && { sequence: chunk.sequence, timestamp: chunk.timestamp }),
+    });
+  }, [sendMessage]);
+
+  // Utterance framing lets the server run partial STT while chunks are still arriving
+  const startUtterance = useCallback(({ format, sampleRate, channels }: AudioStreamFormat) => {
+    sendMessage({
+      type: 'audio_start',
+      format,
+      ...(sampleRate && { sample_rate: sampleRate }),
+      ...(channels && { channels }),
+    });
+  }, [sendMessage]);
+
+  const endUtterance = useCallback((totalChunks: number) => {
+    sendMessage({
+      type: 'audio_end',
+      total_chunks: totalChunks,
     });
   }, [sendMessage]);
 
-  const sendText = useCallback((text: string) => {
+  const sendText = useCallback((text: string, conversationId: string | null = null) => {
     sendMessage({
       type: 'text',
       text,
+      conversation_id: conversationId,
+    });
+  }, [sendMessage]);
+
+  // Tells the server the user talked over the agent and how much of the answer was heard
+  const sendInterrupt = useCallback((conversationId: string | null, playbackOffset: number) => {
+    sendMessage({
+      type: 'interrupt',
+      conversation_id: conversationId,
+      playback_offset_ms: playbackOffset,
+    });
+  }, [sendMessage]);
+
+  // Feeds the user's fix of a misheard transcript back to the server
+  const sendTranscriptCorrection = useCallback((conversationId: string | null, correction: TranscriptCorrection) => {
+    sendMessage({
+      type: 'transcript_correction',
+      conversation_id: conversationId,
+      ...(correction.sequence !== undefined && { sequence: correction.sequence }),
+      original_text: correction.originalText,
+      corrected_text: correction.correctedText,
     });
   }, [sendMessage]);
 
   const reconnect = useCallback(() => {
     console.log('[WebSocket] Manual reconnect triggered');
     disconnect();
-    reconnectCountRef.current = 0;
-    setTimeout(connect, 100);
+    connect();
   }, [connect, disconnect]);
 
   // Auto-connect on mount
@@ -201,13 +460,64 @@ export function useVoiceWebSocket(options: UseVoiceWebSocketOptions = {}): UseVo
     };
   }, [autoConnect, connect, disconnect]);
 
+  // Retry right away when the network returns or the tab wakes up, instead of waiting out the backoff
+  useEffect(() => {
+    const resume = (reason: string) => {
+      if (!shouldConnectRef.current) return;
+
+      const ws = wsRef.current;
+      if (ws?.readyState === WebSocket.OPEN) {
+        // The socket may have died while the tab was asleep; the next frame or ping settles it
+        if (Date.now() - lastFrameAtRef.current > heartbeatInterval) {
+          ws.send(encodeClientMessage({ type: 'ping', timestamp: Date.now() }));
+        }
+        return;
+      }
+      if (ws?.readyState === WebSocket.CONNECTING) return;
+
+      console.log(`[WebSocket] Resuming connection (${reason})`);
+      reconnectCountRef.current = 0;
+      connect();
+    };
+
+    const handleOnline = () => resume('online');
+    const handleOffline = () => {
+      if (wsRef.current) {
+        handleConnectionLost('Browser went offline');
+      }
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        resume('visible');
+      }
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [connect, handleConnectionLost, heartbeatInterval]);
+
   return {
     isConnected: connectionState === 'connected',
     connectionState,
+    reconnectAttempt,
+    protocolVersion,
     sendAudio,
+    startUtterance,
+    endUtterance,
     sendText,
+    sendInterrupt,
+    sendTranscriptCorrection,
     lastMessage,
     error,
+    connect,
+    disconnect,
     reconnect,
   };
 }
@@ -0,0 +1,33 @@
+/**
+ * useWakeWordSupport - Whether the wake word can be spotted here, and whether on-device
+ * Rechecked when the locale changes, since on-device models are per language
+ */
+import { useEffect, useState } from 'react';
+import { useLocale } from '@/hooks/useLocale';
+import { isKeywordSpottingSupported, isOnDeviceKeywordSpottingAvailable } from '@/lib/keyword-spotter';
+
+export function useWakeWordSupport() {
+  const { locale } = useLocale();
+  const isSupported = isKeywordSpottingSupported();
+  // null until the browser has answered
+  const [isOnDevice, setIsOnDevice] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    if (!isSupported) {
+      setIsOnDevice(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsOnDevice(null);
+    isOnDeviceKeywordSpottingAvailable(locale).then((available) => {
+      if (!cancelled) setIsOnDevice(available);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isSupported, locale]);
+
+  return { isSupported, isOnDevice };
+}
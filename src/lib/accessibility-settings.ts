@@ -0,0 +1,88 @@
+/**
+ * Accessibility Settings
+ * Captions, motion and playback speed preferences for the voice agent, persisted across visits
+ *
+ * Same module-level store as the audio settings: the audio manager reads the playback speed
+ * when it starts a clip or schedules a chunk, and components subscribe through
+ * `useAccessibility`. Reduced motion follows the system's `prefers-reduced-motion` unless the
+ * user forces it on or off.
+ */
+
+export type ReducedMotionPreference = 'system' | 'on' | 'off';
+export type CaptionSize = 'large' | 'x-large';
+
+export interface AccessibilitySettings {
+  captions: boolean; // agent speech stays on screen as text
+  captionSize: CaptionSize;
+  reducedMotion: ReducedMotionPreference;
+  playbackRate: number; // agent audio speed, 1 = normal
+}
+
+// Speed choices offered in the accessibility menu
+export const PLAYBACK_RATE_OPTIONS = [0.75, 1, 1.25, 1.5];
+
+export const DEFAULT_ACCESSIBILITY_SETTINGS: AccessibilitySettings = {
+  captions: false,
+  captionSize: 'large',
+  reducedMotion: 'system',
+  playbackRate: 1,
+};
+
+const STORAGE_KEY = 'renus_accessibility_settings';
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+function loadSettings(): AccessibilitySettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_ACCESSIBILITY_SETTINGS, ...JSON.parse(stored) } : DEFAULT_ACCESSIBILITY_SETTINGS;
+  } catch (error) {
+    console.error('[AccessibilitySettings] Failed to load settings:', error);
+    return DEFAULT_ACCESSIBILITY_SETTINGS;
+  }
+}
+
+let currentSettings: AccessibilitySettings = loadSettings();
+const listeners = new Set<() => void>();
+
+export function getAccessibilitySettings(): AccessibilitySettings {
+  return currentSettings;
+}
+
+/**
+ * Merge a change into the current settings and remember it for the next visit
+ */
+export function updateAccessibilitySettings(changes: Partial<AccessibilitySettings>): void {
+  currentSettings = { ...currentSettings, ...changes };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(currentSettings));
+  } catch (error) {
+    console.error('[AccessibilitySettings] Failed to save settings:', error);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeAccessibilitySettings(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Whether the operating system asks for reduced motion
+ */
+export function systemPrefersReducedMotion(): boolean {
+  return typeof window !== 'undefined' && typeof window.matchMedia === 'function'
+    ? window.matchMedia(REDUCED_MOTION_QUERY).matches
+    : false;
+}
+
+export function subscribeSystemReducedMotion(listener: () => void): () => void {
+  if (typeof window === 'undefined' || typeof window.matchMedia !== 'function') return () => undefined;
+
+  const query = window.matchMedia(REDUCED_MOTION_QUERY);
+  query.addEventListener('change', listener);
+  return () => query.removeEventListener('change', listener);
+}
+
+export function resolveReducedMotion(preference: ReducedMotionPreference, systemPreference: boolean): boolean {
+  return preference === 'system' ? systemPreference : preference === 'on';
+}
@@ -3,20 +3,77 @@
  * Handles HTTP requests with authentication and error handling
  */
 
+import { ApiError } from './api-error';
+
 // Use empty string for production (relative URLs via Vercel proxy)
 // Use localhost for development
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL !== undefined 
-  ? import.meta.env.VITE_API_BASE_URL 
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL !== undefined
+  ? import.meta.env.VITE_API_BASE_URL
   : (import.meta.env.DEV ? 'http://localhost:8000' : '');
 const API_TIMEOUT = parseInt(import.meta.env.VITE_API_TIMEOUT || '30000');
 
-interface RequestConfig extends RequestInit {
+// Sent with every request (same value on a replay) so client and server logs can be matched
+export const CORRELATION_ID_HEADER = 'X-Correlation-ID';
+// A request is sent at most this many extra times when an interceptor asks for a retry
+const MAX_REPLAYS = 1;
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface RequestConfig extends RequestInit {
   timeout?: number;
+  // Neither wait for nor start a token refresh (the refresh call itself)
+  skipAuthRefresh?: boolean;
+  // GETs share an identical request already in flight unless this is false
+  dedupe?: boolean;
+}
+
+/**
+ * One logical request as interceptors see it. A replay gets a fresh object
+ * with the same correlation id and a higher attempt.
+ */
+export interface ApiRequest {
+  method: HttpMethod;
+  endpoint: string;
+  url: string;
+  // Request interceptors may change these before the request goes out
+  headers: Headers;
+  correlationId: string;
+  attempt: number;
+  startedAt: number;
+  config: RequestConfig;
+}
+
+export interface ApiInterceptor {
+  // Before every send, replays included
+  onRequest?: (request: ApiRequest) => void | Promise<void>;
+  // Any HTTP response, before it's parsed. Return 'retry' to send the request again.
+  onResponse?: (response: Response, request: ApiRequest) => void | 'retry' | Promise<void | 'retry'>;
+  // Network failure, timeout, cancellation or an error status
+  onError?: (error: unknown, request: ApiRequest) => void;
+}
+
+interface InFlightGet {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  // Callers still waiting; the fetch is cancelled when the last one aborts
+  waiting: number;
+}
+
+function createCorrelationId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException('The operation was aborted.', 'AbortError');
 }
 
 class ApiClient {
   private baseURL: string;
   private timeout: number;
+  private interceptors: ApiInterceptor[] = [];
+  private inFlightGets = new Map<string, InFlightGet>();
 
   constructor(baseURL: string, timeout: number) {
     this.baseURL = baseURL;
@@ -30,12 +87,23 @@ class ApiClient {
     return localStorage.getItem('auth_token');
   }
 
+  /**
+   * Register request/response/error hooks, run in registration order.
+   * Returns a function that removes them again.
+   */
+  use(interceptor: ApiInterceptor): () => void {
+    this.interceptors.push(interceptor);
+    return () => {
+      this.interceptors = this.interceptors.filter((registered) => registered !== interceptor);
+    };
+  }
+
   /**
    * Build headers with authentication
    */
   private buildHeaders(customHeaders?: HeadersInit): Headers {
     const headers = new Headers(customHeaders);
-    
+
     // Add Content-Type if not present
     if (!headers.has('Content-Type')) {
       headers.set('Content-Type', 'application/json');
@@ -51,57 +119,53 @@ class ApiClient {
   }
 
   /**
-   * Make HTTP request with timeout
+   * Make HTTP request with timeout. The caller's signal and the timeout both abort it;
+   * a caller abort is rethrown as is so React Query recognizes the cancellation.
    */
   private async fetchWithTimeout(
     url: string,
-    config: RequestConfig = {}
+    init: RequestInit,
+    timeout: number,
+    signal?: AbortSignal | null
   ): Promise<Response> {
-    const { timeout = this.timeout, ...fetchConfig } = config;
-
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout);
+
+    const forwardAbort = () => controller.abort(signal ? abortReason(signal) : undefined);
+    if (signal?.aborted) {
+      forwardAbort();
+    } else {
+      signal?.addEventListener('abort', forwardAbort, { once: true });
+    }
 
     try {
-      const response = await fetch(url, {
-        ...fetchConfig,
+      return await fetch(url, {
+        ...init,
         signal: controller.signal,
       });
-
-      clearTimeout(timeoutId);
-      return response;
     } catch (error) {
-      clearTimeout(timeoutId);
-      if (error instanceof Error && error.name === 'AbortError') {
+      if (timedOut) {
         throw new Error('Request timeout');
       }
       throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', forwardAbort);
     }
   }
 
   /**
    * Handle response errors
    */
-  private async handleResponse<T>(response: Response): Promise<T> {
-    // Handle 401 Unauthorized - redirect to home
-    if (response.status === 401) {
-      localStorage.removeItem('auth_token');
-      window.location.href = '/';
-      throw new Error('Unauthorized');
-    }
-
-    // Handle other error status codes
+  private async handleResponse<T>(response: Response, request: ApiRequest): Promise<T> {
+    // Every error status becomes an ApiError; on a 401 with a token the auth interceptor
+    // has already tried to renew the session
     if (!response.ok) {
-      let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-      
-      try {
-        const errorData = await response.json();
-        errorMessage = errorData.detail || errorData.message || errorMessage;
-      } catch {
-        // If response is not JSON, use status text
-      }
-
-      throw new Error(errorMessage);
+      throw await ApiError.fromResponse(response, request);
     }
 
     // Handle empty responses (204 No Content)
@@ -118,98 +182,173 @@ class ApiClient {
   }
 
   /**
-   * GET request
+   * Send one logical request through the interceptors, replaying it when one asks to
    */
-  async get<T>(endpoint: string, config?: RequestConfig): Promise<T> {
+  private async execute<T>(
+    method: HttpMethod,
+    endpoint: string,
+    data: unknown,
+    config: RequestConfig,
+    signal?: AbortSignal | null
+  ): Promise<T> {
+    const { timeout = this.timeout, skipAuthRefresh, dedupe, signal: _signal, headers, ...init } = config;
     const url = `${this.baseURL}${endpoint}`;
-    const headers = this.buildHeaders(config?.headers);
-
-    const response = await this.fetchWithTimeout(url, {
-      ...config,
-      method: 'GET',
-      headers,
-    });
+    const correlationId = createCorrelationId();
+    const startedAt = Date.now();
+
+    for (let attempt = 0; ; attempt++) {
+      const request: ApiRequest = {
+        method,
+        endpoint,
+        url,
+        headers: this.buildHeaders(headers),
+        correlationId,
+        attempt,
+        startedAt,
+        config,
+      };
+      request.headers.set(CORRELATION_ID_HEADER, correlationId);
 
-    return this.handleResponse<T>(response);
+      try {
+        for (const interceptor of this.interceptors) {
+          await interceptor.onRequest?.(request);
+        }
+
+        const response = await this.fetchWithTimeout(
+          url,
+          {
+            ...init,
+            method,
+            headers: request.headers,
+            body: data ? JSON.stringify(data) : undefined,
+          },
+          timeout,
+          signal
+        );
+
+        let retry = false;
+        for (const interceptor of this.interceptors) {
+          if ((await interceptor.onResponse?.(response, request)) === 'retry') {
+            retry = true;
+          }
+        }
+        if (retry && attempt < MAX_REPLAYS) continue;
+
+        return await this.handleResponse<T>(response, request);
+      } catch (error) {
+        this.interceptors.forEach((interceptor) => interceptor.onError?.(error, request));
+        throw error;
+      }
+    }
   }
 
   /**
-   * POST request
+   * Join an identical GET already in flight. Each caller can still cancel on its own;
+   * the shared fetch is aborted only once nobody is waiting for it.
    */
-  async post<T>(
-    endpoint: string,
-    data?: unknown,
-    config?: RequestConfig
-  ): Promise<T> {
-    const url = `${this.baseURL}${endpoint}`;
-    const headers = this.buildHeaders(config?.headers);
+  private joinInFlightGet<T>(key: string, start: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal | null): Promise<T> {
+    let entry = this.inFlightGets.get(key);
+    if (!entry) {
+      const controller = new AbortController();
+      const created: InFlightGet = { controller, waiting: 0, promise: Promise.resolve() };
+      created.promise = start(controller.signal).finally(() => {
+        if (this.inFlightGets.get(key) === created) {
+          this.inFlightGets.delete(key);
+        }
+      });
+      this.inFlightGets.set(key, created);
+      entry = created;
+    }
 
-    const response = await this.fetchWithTimeout(url, {
-      ...config,
-      method: 'POST',
-      headers,
-      body: data ? JSON.stringify(data) : undefined,
-    });
+    const shared = entry;
+    shared.waiting++;
+
+    if (!signal) {
+      return shared.promise as Promise<T>;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const leave = () => {
+        shared.waiting--;
+        if (shared.waiting === 0) {
+          // Unlist it first, so a GET made before it settles starts afresh instead of joining an aborted one
+          if (this.inFlightGets.get(key) === shared) {
+            this.inFlightGets.delete(key);
+          }
+          shared.controller.abort(abortReason(signal));
+        }
+        reject(abortReason(signal));
+      };
+
+      if (signal.aborted) {
+        leave();
+        return;
+      }
 
-    return this.handleResponse<T>(response);
+      signal.addEventListener('abort', leave, { once: true });
+      shared.promise.then(
+        (value) => {
+          signal.removeEventListener('abort', leave);
+          resolve(value as T);
+        },
+        (error) => {
+          signal.removeEventListener('abort', leave);
+          reject(error);
+        }
+      );
+    });
   }
 
   /**
-   * PUT request
+   * Single entry point behind get/post/put/patch/delete
    */
-  async put<T>(
-    endpoint: string,
-    data?: unknown,
-    config?: RequestConfig
-  ): Promise<T> {
-    const url = `${this.baseURL}${endpoint}`;
-    const headers = this.buildHeaders(config?.headers);
+  async request<T>(method: HttpMethod, endpoint: string, data?: unknown, config: RequestConfig = {}): Promise<T> {
+    if (method === 'GET' && config.dedupe !== false) {
+      // Keyed by token too, so a request made before a login or refresh isn't reused after it
+      const key = `${endpoint}\n${this.getToken() ?? ''}`;
+      return this.joinInFlightGet<T>(
+        key,
+        (sharedSignal) => this.execute<T>(method, endpoint, data, config, sharedSignal),
+        config.signal
+      );
+    }
 
-    const response = await this.fetchWithTimeout(url, {
-      ...config,
-      method: 'PUT',
-      headers,
-      body: data ? JSON.stringify(data) : undefined,
-    });
+    return this.execute<T>(method, endpoint, data, config, config.signal);
+  }
 
-    return this.handleResponse<T>(response);
+  /**
+   * GET request
+   */
+  async get<T>(endpoint: string, config?: RequestConfig): Promise<T> {
+    return this.request<T>('GET', endpoint, undefined, config);
   }
 
   /**
-   * PATCH request
+   * POST request
    */
-  async patch<T>(
-    endpoint: string,
-    data?: unknown,
-    config?: RequestConfig
-  ): Promise<T> {
-    const url = `${this.baseURL}${endpoint}`;
-    const headers = this.buildHeaders(config?.headers);
+  async post<T>(endpoint: string, data?: unknown, config?: RequestConfig): Promise<T> {
+    return this.request<T>('POST', endpoint, data, config);
+  }
 
-    const response = await this.fetchWithTimeout(url, {
-      ...config,
-      method: 'PATCH',
-      headers,
-      body: data ? JSON.stringify(data) : undefined,
-    });
+  /**
+   * PUT request
+   */
+  async put<T>(endpoint: string, data?: unknown, config?: RequestConfig): Promise<T> {
+    return this.request<T>('PUT', endpoint, data, config);
+  }
 
-    return this.handleResponse<T>(response);
+  /**
+   * PATCH request
+   */
+  async patch<T>(endpoint: string, data?: unknown, config?: RequestConfig): Promise<T> {
+    return this.request<T>('PATCH', endpoint, data, config);
   }
 
   /**
    * DELETE request
    */
   async delete<T>(endpoint: string, config?: RequestConfig): Promise<T> {
-    const url = `${this.baseURL}${endpoint}`;
-    const headers = this.buildHeaders(config?.headers);
-
-    const response = await this.fetchWithTimeout(url, {
-      ...config,
-      method: 'DELETE',
-      headers,
-    });
-
-    return this.handleResponse<T>(response);
+    return this.request<T>('DELETE', endpoint, undefined, config);
   }
 }
 
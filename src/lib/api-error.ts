@@ -0,0 +1,112 @@
+/**
+ * ApiError - An error status from the RENUS backend, with everything needed to handle it
+ * Thrown by the API client instead of a bare Error, so the status survives even when
+ * the backend sends a `detail` message.
+ */
+
+// Where the backend puts its own request id; falls back to the id we sent
+const REQUEST_ID_HEADERS = ['X-Request-ID', 'X-Correlation-ID'];
+
+// `detail` or `message` string of an error body, the shapes FastAPI and our handlers use
+function serverMessageOf(body: unknown): string | null {
+  if (!body || typeof body !== 'object') return null;
+  const { detail, message } = body as { detail?: unknown; message?: unknown };
+  if (typeof detail === 'string') return detail;
+  if (typeof message === 'string') return message;
+  return null;
+}
+
+/**
+ * One entry of a FastAPI validation error (`detail` array of a 422)
+ */
+export interface ValidationIssue {
+  // e.g. ['body', 'email'] or ['query', 'page']
+  loc: Array<string | number>;
+  msg: string;
+  type?: string;
+}
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly statusText: string;
+  readonly method: string;
+  readonly endpoint: string;
+  // Parsed JSON body, or the raw text when it isn't JSON
+  readonly body: unknown;
+  readonly requestId: string | null;
+  // Present when the backend answered with FastAPI's validation format
+  readonly validationErrors: ValidationIssue[];
+
+  constructor(init: {
+    status: number;
+    statusText: string;
+    method: string;
+    endpoint: string;
+    body?: unknown;
+    requestId?: string | null;
+  }) {
+    super(serverMessageOf(init.body) ?? `HTTP ${init.status}: ${init.statusText}`);
+    this.name = 'ApiError';
+    this.status = init.status;
+    this.statusText = init.statusText;
+    this.method = init.method;
+    this.endpoint = init.endpoint;
+    this.body = init.body;
+    this.requestId = init.requestId ?? null;
+    this.validationErrors = ApiError.validationIssuesFrom(init.body);
+  }
+
+  /**
+   * Build from an error response; reads (and so consumes) its body
+   */
+  static async fromResponse(
+    response: Response,
+    request: { method: string; endpoint: string; correlationId?: string }
+  ): Promise<ApiError> {
+    let body: unknown;
+    try {
+      const text = await response.text();
+      try {
+        body = text ? JSON.parse(text) : undefined;
+      } catch {
+        body = text;
+      }
+    } catch {
+      // Body unreadable (aborted, already consumed): status alone will do
+    }
+
+    const requestId =
+      REQUEST_ID_HEADERS.map((header) => response.headers.get(header)).find(Boolean) ?? request.correlationId ?? null;
+
+    return new ApiError({
+      status: response.status,
+      statusText: response.statusText,
+      method: request.method,
+      endpoint: request.endpoint,
+      body,
+      requestId,
+    });
+  }
+
+  /**
+   * The backend's own message (`detail` or `message` string), if it sent one
+   */
+  get serverMessage(): string | null {
+    return serverMessageOf(this.body);
+  }
+
+  private static validationIssuesFrom(body: unknown): ValidationIssue[] {
+    if (!body || typeof body !== 'object') return [];
+    const { detail } = body as { detail?: unknown };
+    if (!Array.isArray(detail)) return [];
+
+    return detail.filter(
+      (issue): issue is ValidationIssue =>
+        Boolean(issue) && Array.isArray(issue.loc) && typeof issue.msg === 'string'
+    );
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
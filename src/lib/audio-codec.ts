@@ -0,0 +1,154 @@
+/**
+ * Audio Codec Helpers
+ * Conversions between audio payloads and the base64 strings used on the voice socket
+ */
+
+/**
+ * Encode a Blob (e.g. a MediaRecorder chunk) as base64, without the data URL prefix
+ */
+export function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+
+    reader.onloadend = () => {
+      const dataUrl = reader.result as string;
+      resolve(dataUrl.split(',')[1] || '');
+    };
+    reader.onerror = () => reject(reader.error || new Error('Failed to read audio blob'));
+
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Encode raw bytes (e.g. a PCM16 frame) as base64
+ */
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+
+  // Chunked to stay below the argument limit of String.fromCharCode
+  const CHUNK = 0x8000;
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  }
+
+  return btoa(binary);
+}
+
+export interface WavMarker {
+  position: number; // sample frame where the marker sits
+  label: string;
+}
+
+/**
+ * Wrap mono PCM16 frames in a WAV container. Markers become cue points with labels
+ * (`cue ` and `LIST/adtl` chunks), which editors such as Audacity show as regions.
+ */
+export function encodeWav(frames: Int16Array[], sampleRate: number, markers: WavMarker[] = []): Blob {
+  const dataLength = frames.reduce((acc, frame) => acc + frame.byteLength, 0);
+  const header = new ArrayBuffer(44);
+  const view = new DataView(header);
+  const markerChunks = markers.length > 0 ? encodeWavMarkers(markers) : [];
+  const markersLength = markerChunks.reduce((acc, chunk) => acc + chunk.byteLength, 0);
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataLength + markersLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataLength, true);
+
+  // PCM16 data always has an even length, so the marker chunks stay word aligned
+  return new Blob([header, ...(frames as BlobPart[]), ...markerChunks], { type: 'audio/wav' });
+}
+
+/**
+ * `cue ` chunk plus a `LIST` chunk of `labl` entries, one per marker
+ */
+function encodeWavMarkers(markers: WavMarker[]): ArrayBuffer[] {
+  const encoder = new TextEncoder();
+
+  const cue = new ArrayBuffer(12 + markers.length * 24);
+  const cueView = new DataView(cue);
+  const writeId = (view: DataView, offset: number, id: string) => {
+    for (let i = 0; i < 4; i++) view.setUint8(offset + i, id.charCodeAt(i));
+  };
+
+  writeId(cueView, 0, 'cue ');
+  cueView.setUint32(4, 4 + markers.length * 24, true);
+  cueView.setUint32(8, markers.length, true);
+  markers.forEach((marker, i) => {
+    const offset = 12 + i * 24;
+    cueView.setUint32(offset, i + 1, true); // cue id
+    cueView.setUint32(offset + 4, marker.position, true);
+    writeId(cueView, offset + 8, 'data');
+    cueView.setUint32(offset + 12, 0, true); // chunk start
+    cueView.setUint32(offset + 16, 0, true); // block start
+    cueView.setUint32(offset + 20, marker.position, true); // sample offset
+  });
+
+  const labels = markers.map((marker, i) => {
+    const text = encoder.encode(`${marker.label}\0`);
+    const size = 4 + text.length;
+    const label = new ArrayBuffer(8 + size + (size % 2));
+    const labelView = new DataView(label);
+    writeId(labelView, 0, 'labl');
+    labelView.setUint32(4, size, true);
+    labelView.setUint32(8, i + 1, true);
+    new Uint8Array(label, 12).set(text);
+    return label;
+  });
+
+  const listHeader = new ArrayBuffer(12);
+  const listView = new DataView(listHeader);
+  writeId(listView, 0, 'LIST');
+  listView.setUint32(4, 4 + labels.reduce((acc, label) => acc + label.byteLength, 0), true);
+  writeId(listView, 8, 'adtl');
+
+  return [cue, listHeader, ...labels];
+}
+
+/**
+ * Decode a base64 payload into raw bytes
+ */
+export function base64ToArrayBuffer(base64: string): ArrayBuffer {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+/**
+ * MIME type for an audio format name sent by the backend (defaults to MP3)
+ */
+export function audioMimeType(format?: string): string {
+  switch (format) {
+    case 'wav':
+      return 'audio/wav';
+    case 'ogg':
+    case 'opus':
+      return 'audio/ogg';
+    case 'webm':
+      return 'audio/webm';
+    case 'aac':
+      return 'audio/aac';
+    default:
+      return 'audio/mpeg';
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Audio Settings
+ * Microphone/speaker choice, capture processing and hands-free preferences for the voice page,
+ * persisted across visits
+ *
+ * Like the locale, settings live in a module-level store: the audio manager reads them when
+ * it opens the mic or starts playback, and the settings drawer subscribes through
+ * `useAudioDevices`. A `null` device id means the browser default.
+ */
+
+export interface AudioSettings {
+  inputDeviceId: string | null;
+  outputDeviceId: string | null;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  wakeWord: boolean; // hands-free mode only engages after "RENUS"
+  wakeWordCloudFallback: boolean; // without on-device recognition, spot it through the browser's cloud service
+  handsFreeSleepMs: number; // hands-free silence before the mic closes (or goes back to the wake word)
+}
+
+// Auto-sleep choices offered in the settings drawer
+export const HANDS_FREE_SLEEP_OPTIONS_MS = [30000, 60000, 120000, 300000];
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  inputDeviceId: null,
+  outputDeviceId: null,
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  wakeWord: false,
+  wakeWordCloudFallback: false,
+  handsFreeSleepMs: 60000,
+};
+
+const STORAGE_KEY = 'renus_audio_settings';
+
+function loadSettings(): AudioSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_AUDIO_SETTINGS, ...JSON.parse(stored) } : DEFAULT_AUDIO_SETTINGS;
+  } catch (error) {
+    console.error('[AudioSettings] Failed to load settings:', error);
+    return DEFAULT_AUDIO_SETTINGS;
+  }
+}
+
+let currentSettings: AudioSettings = loadSettings();
+const listeners = new Set<() => void>();
+
+export function getAudioSettings(): AudioSettings {
+  return currentSettings;
+}
+
+/**
+ * Merge a change into the current settings and remember it for the next visit
+ */
+export function updateAudioSettings(changes: Partial<AudioSettings>): void {
+  currentSettings = { ...currentSettings, ...changes };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(currentSettings));
+  } catch (error) {
+    console.error('[AudioSettings] Failed to save settings:', error);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeAudioSettings(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * getUserMedia audio constraints for the current settings. The device is only `ideal`, so an
+ * unplugged mic falls back to the default instead of failing the request.
+ */
+export function buildAudioConstraints(extra: MediaTrackConstraints = {}): MediaTrackConstraints {
+  const { inputDeviceId, echoCancellation, noiseSuppression, autoGainControl } = currentSettings;
+  return {
+    ...extra,
+    ...(inputDeviceId ? { deviceId: { ideal: inputDeviceId } } : {}),
+    echoCancellation,
+    noiseSuppression,
+    autoGainControl,
+  };
+}
+
+/**
+ * Whether this browser can route an audio element to a chosen output (Chrome, Edge, Firefox 116+)
+ */
+export function supportsOutputSelection(): boolean {
+  return typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+}
+
+/**
+ * Route an audio element to the chosen output. Unknown or unplugged devices fall back to the
+ * default output rather than silencing playback.
+ */
+export async function applyOutputDevice(audio: HTMLMediaElement, deviceId: string | null): Promise<void> {
+  if (!supportsOutputSelection()) return;
+
+  try {
+    await audio.setSinkId(deviceId ?? '');
+  } catch (error) {
+    console.warn('[AudioSettings] Output device unavailable, using default:', error);
+    await audio.setSinkId('').catch(() => undefined);
+  }
+}
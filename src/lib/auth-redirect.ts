@@ -0,0 +1,24 @@
+/**
+ * Return-URL handling between the auth guard and the login page
+ */
+
+export const REDIRECT_PARAM = 'redirect';
+export const DEFAULT_AFTER_LOGIN = '/dashboard';
+
+/**
+ * Login page URL that brings the user back to `returnTo` once signed in
+ */
+export function buildLoginPath(returnTo: string): string {
+  return `/login?${REDIRECT_PARAM}=${encodeURIComponent(returnTo)}`;
+}
+
+/**
+ * Where to go after login. Only same-app paths are followed, so a crafted
+ * link can't bounce the user to another site.
+ */
+export function resolveRedirect(value: string | null): string {
+  if (!value || !value.startsWith('/') || value.startsWith('//') || value.startsWith('/\\')) {
+    return DEFAULT_AFTER_LOGIN;
+  }
+  return value;
+}
@@ -0,0 +1,57 @@
+/**
+ * Validation for the login, registration and password reset forms
+ * Built on demand so error messages follow the active locale
+ */
+
+import { z } from 'zod';
+import { t } from './i18n';
+
+export const PASSWORD_MIN_LENGTH = 8;
+
+const email = () =>
+  z.string().trim().min(1, t('auth.validation.emailRequired')).email(t('auth.validation.emailInvalid'));
+
+const newPassword = () =>
+  z.string().min(PASSWORD_MIN_LENGTH, t('auth.validation.passwordMin', { min: PASSWORD_MIN_LENGTH }));
+
+export function createLoginSchema() {
+  return z.object({
+    email: email(),
+    password: z.string().min(1, t('auth.validation.passwordRequired')),
+  });
+}
+
+export function createRegisterSchema() {
+  return z
+    .object({
+      name: z.string().trim().max(120).optional(),
+      email: email(),
+      password: newPassword(),
+      confirmPassword: z.string(),
+    })
+    .refine((data) => data.password === data.confirmPassword, {
+      message: t('auth.validation.passwordMismatch'),
+      path: ['confirmPassword'],
+    });
+}
+
+export function createForgotPasswordSchema() {
+  return z.object({ email: email() });
+}
+
+export function createResetPasswordSchema() {
+  return z
+    .object({
+      password: newPassword(),
+      confirmPassword: z.string(),
+    })
+    .refine((data) => data.password === data.confirmPassword, {
+      message: t('auth.validation.passwordMismatch'),
+      path: ['confirmPassword'],
+    });
+}
+
+export type LoginFormValues = z.infer<ReturnType<typeof createLoginSchema>>;
+export type RegisterFormValues = z.infer<ReturnType<typeof createRegisterSchema>>;
+export type ForgotPasswordFormValues = z.infer<ReturnType<typeof createForgotPasswordSchema>>;
+export type ResetPasswordFormValues = z.infer<ReturnType<typeof createResetPasswordSchema>>;
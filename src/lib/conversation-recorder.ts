@@ -0,0 +1,186 @@
+/**
+ * Conversation Recorder
+ * Opt-in recording of a whole voice conversation, user and agent on one timeline, for QA review
+ *
+ * The recorder opens its own mic stream for the length of the recording (so pauses between
+ * utterances are kept) and mixes in the agent's audio through `PlaybackTap`: streamed
+ * responses arrive as the streaming player's live output, full clips as the same bytes the
+ * speaker plays. The mix is captured by a MediaRecorder as WebM/Opus. Recording only starts
+ * with a consent timestamp, which travels with the result.
+ */
+
+import { buildAudioConstraints } from './audio-settings';
+
+export interface ConversationRecording {
+  blob: Blob;
+  mimeType: string;
+  startedAt: Date;
+  consentAt: Date;
+  durationMs: number;
+}
+
+/**
+ * Where the audio manager sends a copy of the agent's audio while a recording runs
+ */
+export interface PlaybackTap {
+  // Mix a live stream in until the returned function is called
+  addStream(stream: MediaStream): () => void;
+  // Mix an encoded clip in, starting now; the returned function cuts it short (barge-in)
+  playClip(data: ArrayBuffer, playbackRate?: number): () => void;
+}
+
+const RECORDING_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm'];
+// How often the MediaRecorder hands over data, so a crash loses at most this much
+const TIMESLICE_MS = 1000;
+
+export class ConversationRecorder implements PlaybackTap {
+  private audioContext: AudioContext | null = null;
+  private destination: MediaStreamAudioDestinationNode | null = null;
+  private micStream: MediaStream | null = null;
+  private mediaRecorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private startedAt: Date | null = null;
+  private consentAt: Date | null = null;
+
+  static isSupported(): boolean {
+    return (
+      typeof MediaRecorder !== 'undefined' &&
+      typeof AudioContext !== 'undefined' &&
+      RECORDING_MIME_TYPES.some((type) => MediaRecorder.isTypeSupported(type))
+    );
+  }
+
+  get isRecording(): boolean {
+    return this.mediaRecorder?.state === 'recording';
+  }
+
+  /**
+   * Start recording. `consentAt` is when the user agreed to it.
+   */
+  async start(consentAt: Date): Promise<void> {
+    if (this.mediaRecorder) return;
+
+    const micStream = await navigator.mediaDevices.getUserMedia({ audio: buildAudioConstraints() });
+    const audioContext = new AudioContext();
+    const destination = audioContext.createMediaStreamDestination();
+    audioContext.createMediaStreamSource(micStream).connect(destination);
+
+    const mimeType = RECORDING_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? '';
+    const mediaRecorder = new MediaRecorder(destination.stream, mimeType ? { mimeType } : undefined);
+    this.chunks = [];
+    mediaRecorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        this.chunks.push(event.data);
+      }
+    };
+
+    this.audioContext = audioContext;
+    this.destination = destination;
+    this.micStream = micStream;
+    this.mediaRecorder = mediaRecorder;
+    this.consentAt = consentAt;
+    this.startedAt = new Date();
+    mediaRecorder.start(TIMESLICE_MS);
+    console.log('[ConversationRecorder] Recording started');
+  }
+
+  /**
+   * Milliseconds into the recording at a given moment; null if it isn't part of the recording
+   */
+  offsetOf(time: Date): number | null {
+    if (!this.startedAt || time < this.startedAt) return null;
+    return time.getTime() - this.startedAt.getTime();
+  }
+
+  addStream(stream: MediaStream): () => void {
+    if (!this.audioContext || !this.destination) return () => undefined;
+
+    const source = this.audioContext.createMediaStreamSource(stream);
+    source.connect(this.destination);
+    return () => source.disconnect();
+  }
+
+  playClip(data: ArrayBuffer, playbackRate = 1): () => void {
+    const audioContext = this.audioContext;
+    const destination = this.destination;
+    if (!audioContext || !destination) return () => undefined;
+
+    let source: AudioBufferSourceNode | null = null;
+    let cancelled = false;
+
+    // decodeAudioData detaches its input, and the caller still needs the bytes
+    audioContext
+      .decodeAudioData(data.slice(0))
+      .then((buffer) => {
+        if (cancelled || this.audioContext !== audioContext) return;
+        source = audioContext.createBufferSource();
+        source.buffer = buffer;
+        // Same speed as the speaker, so the recording keeps the conversation's timing
+        source.playbackRate.value = playbackRate;
+        source.connect(destination);
+        source.start();
+      })
+      .catch((err) => console.warn('[ConversationRecorder] Could not decode agent clip:', err));
+
+    return () => {
+      cancelled = true;
+      try {
+        source?.stop();
+      } catch {
+        // Already ended
+      }
+    };
+  }
+
+  /**
+   * Stop and hand over the recording
+   */
+  stop(): Promise<ConversationRecording> {
+    const mediaRecorder = this.mediaRecorder;
+    const startedAt = this.startedAt;
+    const consentAt = this.consentAt;
+    if (!mediaRecorder || !startedAt || !consentAt) {
+      return Promise.reject(new Error('Recorder is not running'));
+    }
+
+    return new Promise<ConversationRecording>((resolve) => {
+      mediaRecorder.onstop = () => {
+        const mimeType = mediaRecorder.mimeType || 'audio/webm';
+        const recording: ConversationRecording = {
+          blob: new Blob(this.chunks, { type: mimeType }),
+          mimeType,
+          startedAt,
+          consentAt,
+          durationMs: Date.now() - startedAt.getTime(),
+        };
+        this.release();
+        console.log(`[ConversationRecorder] Recording stopped (${recording.durationMs}ms)`);
+        resolve(recording);
+      };
+      mediaRecorder.stop();
+    });
+  }
+
+  /**
+   * Drop everything without producing a recording
+   */
+  dispose(): void {
+    if (this.mediaRecorder && this.mediaRecorder.state !== 'inactive') {
+      this.mediaRecorder.onstop = null;
+      this.mediaRecorder.stop();
+    }
+    this.release();
+  }
+
+  private release(): void {
+    this.micStream?.getTracks().forEach((track) => track.stop());
+    this.audioContext?.close();
+    this.micStream = null;
+    this.audioContext = null;
+    this.destination = null;
+    this.mediaRecorder = null;
+    this.chunks = [];
+    this.startedAt = null;
+    this.consentAt = null;
+  }
+}
@@ -4,6 +4,8 @@
  */
 
 import { toast } from 'sonner';
+import { ApiError, type ValidationIssue } from './api-error';
+import { t } from './i18n';
 
 export type ErrorType =
   | 'network'
@@ -13,6 +15,8 @@ export type ErrorType =
   | 'validation'
   | 'server'
   | 'timeout'
+  | 'rate_limited'
+  | 'cancelled'
   | 'unknown';
 
 export interface AppError {
@@ -20,17 +24,34 @@ export interface AppError {
   message: string;
   statusCode?: number;
   details?: unknown;
+  // Backend request id, for matching a report with the server logs
+  requestId?: string | null;
+  // FastAPI field errors of a 422, see applyApiFieldErrors
+  validationErrors?: ValidationIssue[];
 }
 
 /**
  * Parse error and determine type
  */
 export function parseError(error: unknown): AppError {
+  // Cancelled by the caller (React Query dropping a query, a component unmounting)
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    return {
+      type: 'cancelled',
+      message: t('errors.cancelled'),
+    };
+  }
+
+  // HTTP errors (checked first: a backend detail may well mention 'timeout')
+  if (error instanceof ApiError) {
+    return parseApiError(error);
+  }
+
   // Network errors
   if (error instanceof TypeError && error.message.includes('fetch')) {
     return {
       type: 'network',
-      message: 'Erro de conexão. Verifique sua internet e tente novamente.',
+      message: t('errors.network'),
     };
   }
 
@@ -38,135 +59,144 @@ export function parseError(error: unknown): AppError {
   if (error instanceof Error && error.message.includes('timeout')) {
     return {
       type: 'timeout',
-      message: 'A requisição demorou muito. Tente novamente.',
+      message: t('errors.timeout'),
     };
   }
 
-  // HTTP errors
+  // Other errors
   if (error instanceof Error) {
-    const message = error.message;
-
-    // Extract status code if present
-    const statusMatch = message.match(/HTTP (\d+):/);
-    const statusCode = statusMatch ? parseInt(statusMatch[1]) : undefined;
-
-    if (statusCode === 401) {
-      return {
-        type: 'unauthorized',
-        message: 'Sessão expirada. Faça login novamente.',
-        statusCode,
-      };
-    }
-
-    if (statusCode === 403) {
-      return {
-        type: 'forbidden',
-        message: 'Você não tem permissão para realizar esta ação.',
-        statusCode,
-      };
-    }
-
-    if (statusCode === 404) {
-      return {
-        type: 'not_found',
-        message: 'Recurso não encontrado.',
-        statusCode,
-      };
-    }
-
-    if (statusCode === 422) {
-      return {
-        type: 'validation',
-        message: 'Dados inválidos. Verifique os campos e tente novamente.',
-        statusCode,
-      };
-    }
-
-    if (statusCode && statusCode >= 500) {
-      return {
-        type: 'server',
-        message: 'Erro no servidor. Tente novamente mais tarde.',
-        statusCode,
-      };
-    }
-
     return {
       type: 'unknown',
-      message: message || 'Ocorreu um erro inesperado.',
-      statusCode,
+      message: error.message || t('errors.unknown'),
     };
   }
 
   // Unknown errors
   return {
     type: 'unknown',
-    message: 'Ocorreu um erro inesperado.',
+    message: t('errors.unknown'),
     details: error,
   };
 }
 
+/**
+ * Map an error status onto an error type
+ */
+function parseApiError(error: ApiError): AppError {
+  const base = {
+    statusCode: error.status,
+    details: error.body,
+    requestId: error.requestId,
+  };
+
+  switch (error.status) {
+    case 401:
+      return { ...base, type: 'unauthorized', message: t('errors.unauthorized') };
+    case 403:
+      return { ...base, type: 'forbidden', message: t('errors.forbidden') };
+    case 404:
+      return { ...base, type: 'not_found', message: t('errors.notFound') };
+    case 408:
+      return { ...base, type: 'timeout', message: t('errors.timeout') };
+    case 429:
+      return { ...base, type: 'rate_limited', message: t('errors.rateLimited') };
+  }
+
+  if (error.status >= 500) {
+    return { ...base, type: 'server', message: t('errors.server') };
+  }
+
+  // Other 4xx: the request itself was rejected; the backend's reason says more than ours
+  if (error.validationErrors.length > 0) {
+    return {
+      ...base,
+      type: 'validation',
+      message: formatValidationErrors(error.validationErrors),
+      validationErrors: error.validationErrors,
+    };
+  }
+
+  return {
+    ...base,
+    type: 'validation',
+    message: error.serverMessage || t('errors.validation'),
+  };
+}
+
 /**
  * Handle error with toast notification
  */
 export function handleError(error: unknown, customMessage?: string): AppError {
   const appError = parseError(error);
 
+  // Nobody is waiting for the result any more: nothing to tell the user
+  if (appError.type === 'cancelled') {
+    return appError;
+  }
+
   // Use custom message if provided
   const message = customMessage || appError.message;
 
   // Show toast notification based on error type
   switch (appError.type) {
     case 'network':
-      toast.error('Erro de Conexão', {
+      toast.error(t('errors.title.network'), {
         description: message,
         duration: 5000,
       });
       break;
 
     case 'unauthorized':
-      toast.error('Não Autorizado', {
+      toast.error(t('errors.title.unauthorized'), {
         description: message,
         duration: 4000,
       });
       break;
 
     case 'forbidden':
-      toast.error('Acesso Negado', {
+      toast.error(t('errors.title.forbidden'), {
         description: message,
         duration: 4000,
       });
       break;
 
     case 'not_found':
-      toast.error('Não Encontrado', {
+      toast.error(t('errors.title.notFound'), {
         description: message,
         duration: 3000,
       });
       break;
 
     case 'validation':
-      toast.error('Dados Inválidos', {
+      toast.error(t('errors.title.validation'), {
         description: message,
         duration: 4000,
       });
       break;
 
     case 'server':
-      toast.error('Erro no Servidor', {
+      toast.error(t('errors.title.server'), {
         description: message,
         duration: 5000,
       });
       break;
 
     case 'timeout':
-      toast.error('Tempo Esgotado', {
+      toast.error(t('errors.title.timeout'), {
         description: message,
         duration: 4000,
       });
       break;
 
+    case 'rate_limited':
+      toast.error(t('errors.title.rateLimited'), {
+        description: message,
+        duration: 5000,
+      });
+      break;
+
     default:
-      toast.error('Erro', {
+      toast.error(t('errors.title.unknown'), {
         description: message,
         duration: 4000,
       });
@@ -195,10 +225,14 @@ export function handleErrorSilent(error: unknown): AppError {
 }
 
 /**
- * Check if error is retryable
+ * Check if error is retryable: the request never got an answer, or the server
+ * failed or asked us to slow down. Any other 4xx fails the same way again.
  */
 export function isRetryableError(error: AppError): boolean {
-  return ['network', 'timeout', 'server'].includes(error.type);
+  if (error.statusCode !== undefined) {
+    return error.statusCode >= 500 || error.statusCode === 408 || error.statusCode === 429;
+  }
+  return error.type === 'network' || error.type === 'timeout';
 }
 
 /**
@@ -224,27 +258,30 @@ export function shouldRetryQuery(failureCount: number, error: unknown): boolean
   // Don't retry more than 3 times
   if (failureCount >= 3) return false;
 
-  // Parse error
-  const appError = parseError(error);
-
-  // Only retry network, timeout, and server errors
-  return isRetryableError(appError);
+  // Only retry network failures, timeouts, 5xx, 408 and 429
+  return isRetryableError(parseError(error));
 }
 
 /**
  * Format validation errors from backend
  */
 export function formatValidationErrors(details: unknown): string {
+  if (details instanceof ApiError) {
+    return details.validationErrors.length > 0
+      ? formatValidationErrors(details.validationErrors)
+      : details.serverMessage || t('errors.validationGeneric');
+  }
+
   if (!details || typeof details !== 'object') {
-    return 'Erro de validação';
+    return t('errors.validationGeneric');
   }
 
   // Handle FastAPI validation errors
   if (Array.isArray(details)) {
-    return details
-      .map((err: any) => {
-        const field = err.loc?.join('.') || 'campo';
-        return `${field}: ${err.msg}`;
+    return (details as ValidationIssue[])
+      .map((issue) => {
+        const field = fieldPath(issue.loc) || t('errors.field');
+        return `${field}: ${issue.msg}`;
       })
       .join(', ');
   }
@@ -254,20 +291,31 @@ export function formatValidationErrors(details: unknown): string {
     return details.detail;
   }
 
-  return 'Erro de validação';
+  return t('errors.validationGeneric');
+}
+
+/**
+ * Dotted field path of a FastAPI error location, without its 'body'/'query'/'path' prefix
+ */
+export function fieldPath(loc: ValidationIssue['loc'] | undefined): string {
+  if (!loc) return '';
+  const [source, ...rest] = loc;
+  const path = typeof source === 'string' && ['body', 'query', 'path'].includes(source) ? rest : loc;
+  return path.join('.');
 }
 
 /**
  * Create error message for specific operations
+ * Getters, so each read is in the current language
  */
 export const errorMessages = {
-  login: 'Falha no login. Verifique suas credenciais.',
-  logout: 'Falha ao fazer logout.',
-  fetch: 'Falha ao carregar dados.',
-  create: 'Falha ao criar registro.',
-  update: 'Falha ao atualizar registro.',
-  delete: 'Falha ao excluir registro.',
-  upload: 'Falha ao fazer upload do arquivo.',
-  download: 'Falha ao fazer download do arquivo.',
-  websocket: 'Falha na conexão WebSocket.',
+  get login() { return t('errors.op.login'); },
+  get logout() { return t('errors.op.logout'); },
+  get fetch() { return t('errors.op.fetch'); },
+  get create() { return t('errors.op.create'); },
+  get update() { return t('errors.op.update'); },
+  get delete() { return t('errors.op.delete'); },
+  get upload() { return t('errors.op.upload'); },
+  get download() { return t('errors.op.download'); },
+  get websocket() { return t('errors.op.websocket'); },
 };
@@ -0,0 +1,40 @@
+/**
+ * Form Errors
+ * Puts the backend's field-level validation errors (FastAPI 422) on react-hook-form fields
+ */
+
+import type { FieldValues, Path, UseFormSetError } from 'react-hook-form';
+import { ApiError } from './api-error';
+import { fieldPath } from './error-handler';
+
+/**
+ * Set each validation error of `error` on its form field. `fields` maps the backend's
+ * field path (without the 'body' prefix) to the form field, e.g. { new_password: 'password' }.
+ *
+ * Returns true when every error landed on a field, so the form already explains the
+ * problem; otherwise the caller should still report it (e.g. with handleError).
+ */
+export function applyApiFieldErrors<TValues extends FieldValues>(
+  error: unknown,
+  setError: UseFormSetError<TValues>,
+  fields: Partial<Record<string, Path<TValues>>>
+): boolean {
+  if (!(error instanceof ApiError) || error.validationErrors.length === 0) {
+    return false;
+  }
+
+  let unmapped = 0;
+  let focused = false;
+
+  for (const issue of error.validationErrors) {
+    const field = fields[fieldPath(issue.loc)];
+    if (!field) {
+      unmapped++;
+      continue;
+    }
+    setError(field, { type: 'server', message: issue.msg }, { shouldFocus: !focused });
+    focused = true;
+  }
+
+  return unmapped === 0;
+}
@@ -0,0 +1,117 @@
+/**
+ * i18n
+ * Current locale, persisted across visits, and the message lookup used by UI and services
+ *
+ * The locale lives in a small module-level store so non-React code (error handler, toasts,
+ * voice socket handshake) reads the same value as components, which subscribe through
+ * `useLocale`. Catalogs live in src/locales; pt-BR is the reference and every other
+ * catalog must provide the same keys.
+ */
+
+import { ptBR, type MessageKey } from '../locales/pt-BR';
+import { enUS } from '../locales/en-US';
+
+export type { MessageKey };
+
+export const SUPPORTED_LOCALES = ['pt-BR', 'en-US'] as const;
+export type Locale = (typeof SUPPORTED_LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'pt-BR';
+
+export const LOCALE_LABELS: Record<Locale, string> = {
+  'pt-BR': 'Português (pt-BR)',
+  'en-US': 'English (en-US)',
+};
+
+const LOCALE_STORAGE_KEY = 'renus_locale';
+
+const catalogs: Record<Locale, Record<MessageKey, string>> = {
+  'pt-BR': ptBR,
+  'en-US': enUS,
+};
+
+export type MessageParams = Record<string, string | number>;
+
+function isLocale(value: unknown): value is Locale {
+  return SUPPORTED_LOCALES.includes(value as Locale);
+}
+
+/**
+ * Saved choice first, then the browser language (exact or same language), then pt-BR
+ */
+function detectLocale(): Locale {
+  try {
+    const stored = localStorage.getItem(LOCALE_STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {
+    // Storage unavailable (private mode); fall through to the browser language
+  }
+
+  const languages = typeof navigator !== 'undefined' ? navigator.languages ?? [navigator.language] : [];
+  for (const language of languages) {
+    if (isLocale(language)) return language;
+    const sameLanguage = SUPPORTED_LOCALES.find((locale) => locale.split('-')[0] === language.split('-')[0]);
+    if (sameLanguage) return sameLanguage;
+  }
+
+  return DEFAULT_LOCALE;
+}
+
+let currentLocale: Locale = detectLocale();
+const listeners = new Set<() => void>();
+
+if (typeof document !== 'undefined') {
+  document.documentElement.lang = currentLocale;
+}
+
+export function getLocale(): Locale {
+  return currentLocale;
+}
+
+/**
+ * Switch the UI language and remember it for the next visit
+ */
+export function setLocale(locale: Locale): void {
+  if (locale === currentLocale) return;
+
+  currentLocale = locale;
+  try {
+    localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+  } catch (error) {
+    console.error('[i18n] Failed to save locale:', error);
+  }
+  document.documentElement.lang = locale;
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeLocale(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Translate a message key, filling {placeholders} from params
+ */
+export function t(key: MessageKey, params?: MessageParams, locale: Locale = currentLocale): string {
+  const template = catalogs[locale][key] ?? catalogs[DEFAULT_LOCALE][key] ?? key;
+  if (!params) return template;
+
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+}
+
+/**
+ * Best SpeechSynthesis voice for a locale: exact match (local voices first), then any voice
+ * of the same language. Returns null when the browser has none, leaving the default voice.
+ */
+export function pickSpeechVoice(voices: SpeechSynthesisVoice[], locale: Locale = currentLocale): SpeechSynthesisVoice | null {
+  const normalize = (lang: string) => lang.replace('_', '-').toLowerCase();
+  const target = normalize(locale);
+  const language = target.split('-')[0];
+
+  const exact = voices.filter((voice) => normalize(voice.lang) === target);
+  const sameLanguage = voices.filter((voice) => normalize(voice.lang).split('-')[0] === language);
+
+  return exact.find((voice) => voice.localService) ?? exact[0] ?? sameLanguage[0] ?? null;
+}
@@ -0,0 +1,158 @@
+/**
+ * Keyword Spotter
+ * Wake-word gate for hands-free mode: listens continuously and fires when "RENUS" is said
+ *
+ * Runs on the browser's speech recognizer with interim results, so the keyword is caught
+ * mid-phrase without waiting for the end of the sentence. Recognizers end a session after
+ * a stretch of silence; the spotter restarts them until it is stopped.
+ *
+ * A spotter listens the whole time hands-free mode is asleep, so it should run on-device
+ * (`processLocally`). Most recognizers otherwise stream the audio to a cloud service; that
+ * is only used when the user has opted into it.
+ */
+
+import { getSpeechRecognition, normalizeSpeech, type SpeechRecognitionConstructor } from './speech-recognition';
+
+// How the recognizers tend to write "RENUS" in pt-BR and en-US, already normalized
+export const WAKE_WORD_VARIANTS = ['renus', 'renos', 'renuz', 'henus', 'renews'];
+
+// Pause before restarting a recognizer that ended on its own, so a failing one doesn't spin
+const RESTART_DELAY_MS = 250;
+// Consecutive start() failures after which the spotter gives up and reports it
+const MAX_START_FAILURES = 3;
+
+export interface KeywordSpotterOptions {
+  lang: string;
+  onDevice: boolean; // require on-device recognition; false lets the browser use its cloud service
+  keywords?: string[]; // normalized (lowercase, accent-free); defaults to WAKE_WORD_VARIANTS
+  onDetected: (transcript: string) => void;
+  onError?: (error: string) => void; // fatal errors only (permission denied, no mic); the spotter has stopped
+}
+
+export interface KeywordSpotter {
+  start(): void;
+  stop(): void;
+  readonly isRunning: boolean;
+}
+
+/**
+ * Whether a transcript contains one of the keywords as a whole word or phrase
+ */
+export function containsKeyword(transcript: string, keywords: string[] = WAKE_WORD_VARIANTS): boolean {
+  const words = ` ${normalizeSpeech(transcript).replace(/[^a-z0-9]+/g, ' ')} `;
+  return keywords.some((keyword) => words.includes(` ${keyword} `));
+}
+
+export function isKeywordSpottingSupported(): boolean {
+  return getSpeechRecognition() !== null;
+}
+
+/**
+ * Whether the browser confirms it can recognize `lang` on the device right now. Models that
+ * still have to be downloaded don't count; browsers without the check never confirm.
+ */
+export async function isOnDeviceKeywordSpottingAvailable(lang: string): Promise<boolean> {
+  const Recognition = getSpeechRecognition() as
+    | (SpeechRecognitionConstructor & {
+        available?: (options: { langs: string[]; processLocally: boolean }) => Promise<string>;
+      })
+    | null;
+  if (!Recognition?.available) return false;
+
+  try {
+    return (await Recognition.available({ langs: [lang], processLocally: true })) === 'available';
+  } catch (error) {
+    console.warn('[KeywordSpotter] On-device availability check failed:', error);
+    return false;
+  }
+}
+
+export function createKeywordSpotter(options: KeywordSpotterOptions): KeywordSpotter {
+  const { lang, onDevice, keywords = WAKE_WORD_VARIANTS, onDetected, onError } = options;
+
+  let recognition: SpeechRecognition | null = null;
+  let running = false;
+  let restartTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  let startFailures = 0;
+
+  const open = () => {
+    const Recognition = getSpeechRecognition();
+    if (!Recognition || !running) return;
+
+    const next = new Recognition();
+    next.lang = lang;
+    next.continuous = true;
+    next.interimResults = true;
+    if ('processLocally' in next) {
+      (next as SpeechRecognition & { processLocally: boolean }).processLocally = onDevice;
+    }
+
+    next.onresult = (event: SpeechRecognitionEvent) => {
+      for (let i = event.resultIndex; i < event.results.length; ++i) {
+        const transcript = event.results[i][0].transcript;
+        if (containsKeyword(transcript, keywords)) {
+          console.log('[KeywordSpotter] Wake word detected:', transcript);
+          spotter.stop();
+          onDetected(transcript);
+          return;
+        }
+      }
+    };
+
+    next.onerror = (event: SpeechRecognitionErrorEvent) => {
+      if (event.error === 'not-allowed' || event.error === 'service-not-allowed' || event.error === 'audio-capture') {
+        console.error('[KeywordSpotter] Recognition unavailable:', event.error);
+        spotter.stop();
+        onError?.(event.error);
+      }
+    };
+
+    next.onend = () => {
+      if (recognition !== next) return;
+      recognition = null;
+      if (running) {
+        restartTimeoutId = setTimeout(open, RESTART_DELAY_MS);
+      }
+    };
+
+    recognition = next;
+    try {
+      next.start();
+      startFailures = 0;
+    } catch (error) {
+      console.error('[KeywordSpotter] Failed to start recognition:', error);
+      recognition = null;
+      // No onend follows a failed start: retry from here, or stop and say so
+      if (++startFailures >= MAX_START_FAILURES) {
+        spotter.stop();
+        onError?.('start-failed');
+      } else {
+        restartTimeoutId = setTimeout(open, RESTART_DELAY_MS);
+      }
+    }
+  };
+
+  const spotter: KeywordSpotter = {
+    start() {
+      if (running) return;
+      running = true;
+      startFailures = 0;
+      open();
+    },
+    stop() {
+      running = false;
+      if (restartTimeoutId) {
+        clearTimeout(restartTimeoutId);
+        restartTimeoutId = null;
+      }
+      const current = recognition;
+      recognition = null;
+      current?.stop();
+    },
+    get isRunning() {
+      return running;
+    },
+  };
+
+  return spotter;
+}
@@ -0,0 +1,145 @@
+/**
+ * Latency Tracker
+ * Per-turn latency instrumentation for the voice pipeline
+ *
+ * A turn starts when the user's speech (or typed message) leaves the client. Later marks
+ * are stored as ms since that point and merged with the `LatencyMetrics` the server
+ * reports for the same turn. Percentiles are computed over the last `windowSize` turns.
+ */
+
+import type {
+  LatencyMark,
+  LatencyMetrics,
+  LatencyPercentiles,
+  LatencyStats,
+  TurnLatency,
+} from '../types/voice';
+
+export interface LatencyTrackerOptions {
+  windowSize?: number; // turns kept for the rolling percentiles
+  onTurnComplete?: (turn: TurnLatency) => void; // once per turn, when the next one starts
+}
+
+const DEFAULT_WINDOW_SIZE = 20;
+
+const CLIENT_MARKS = ['first_transcription', 'response', 'first_audio', 'playback_start'] as const;
+const SERVER_STAGES = ['stt', 'agent', 'tts', 'total'] as const;
+
+/**
+ * Nearest-rank percentile of an unsorted sample
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))];
+}
+
+function summarize(values: number[]): LatencyPercentiles | undefined {
+  if (values.length === 0) return undefined;
+  return { p50: percentile(values, 50), p95: percentile(values, 95), count: values.length };
+}
+
+/**
+ * p50/p95 of every client mark and server stage present in the given turns
+ */
+export function computeLatencyStats(turns: TurnLatency[]): LatencyStats {
+  const stats: LatencyStats = { client: {}, server: {} };
+
+  for (const mark of CLIENT_MARKS) {
+    const summary = summarize(
+      turns.map((turn) => turn.marks[mark]).filter((value): value is number => value !== undefined)
+    );
+    if (summary) stats.client[mark] = summary;
+  }
+
+  for (const stage of SERVER_STAGES) {
+    const summary = summarize(turns.filter((turn) => turn.server).map((turn) => turn.server![stage]));
+    if (summary) stats.server[stage] = summary;
+  }
+
+  return stats;
+}
+
+export class LatencyTracker {
+  private turns: TurnLatency[] = [];
+  private current: TurnLatency | null = null;
+  private lastCompletedId = 0;
+  private nextId = 1;
+  private options: LatencyTrackerOptions;
+
+  constructor(options: LatencyTrackerOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Open a new turn at speech end; the previous turn is closed
+   */
+  startTurn(input: TurnLatency['input'], now = Date.now()): TurnLatency {
+    if (this.current) {
+      this.complete(this.current);
+    }
+
+    const turn: TurnLatency = { id: this.nextId++, input, startedAt: now, marks: { speech_end: 0 } };
+    this.current = turn;
+    this.turns = [...this.turns, turn].slice(-(this.options.windowSize ?? DEFAULT_WINDOW_SIZE));
+    return turn;
+  }
+
+  /**
+   * Record a mark on the current turn. Only the first occurrence counts.
+   */
+  mark(name: LatencyMark, now = Date.now()): void {
+    const turn = this.current;
+    if (!turn || turn.marks[name] !== undefined) return;
+
+    this.update(turn, { marks: { ...turn.marks, [name]: Math.max(0, now - turn.startedAt) } });
+  }
+
+  /**
+   * Attach the server's breakdown to the current turn (later reports overwrite earlier ones)
+   */
+  setServerMetrics(metrics: LatencyMetrics): void {
+    if (!this.current) return;
+    this.update(this.current, { server: { ...metrics } });
+  }
+
+  /**
+   * Close the current turn without starting another, e.g. when the session ends
+   */
+  completeTurn(): void {
+    if (this.current) {
+      this.complete(this.current);
+    }
+  }
+
+  getTurns(): TurnLatency[] {
+    return this.turns;
+  }
+
+  getStats(): LatencyStats {
+    return computeLatencyStats(this.turns);
+  }
+
+  clear(): void {
+    this.turns = [];
+    this.current = null;
+  }
+
+  // Turns are replaced, never mutated, so React consumers see a new reference per change
+  private update(turn: TurnLatency, changes: Partial<TurnLatency>): void {
+    const updated = { ...turn, ...changes };
+    this.turns = this.turns.map((item) => (item.id === turn.id ? updated : item));
+    if (this.current?.id === turn.id) {
+      this.current = updated;
+    }
+  }
+
+  private complete(turn: TurnLatency): void {
+    if (turn.id <= this.lastCompletedId) return;
+    this.lastCompletedId = turn.id;
+    this.options.onTurnComplete?.(turn);
+  }
+}
+
+export default LatencyTracker;
@@ -1,19 +1,23 @@
 import { Home, Users, MessageSquare, List, Lightbulb, Send, Settings, LucideIcon, FileText, Mic } from "lucide-react";
+import type { MessageKey } from "@/lib/i18n";
+import type { Permission } from "@/lib/permissions";
 
 export interface NavItem {
   icon: LucideIcon;
-  label: string;
+  labelKey: MessageKey;
   route: string;
+  // Hidden from roles without it (the route is guarded as well)
+  permission?: Permission;
 }
 
 export const navItems: NavItem[] = [
-  { icon: Home, label: "Visão Geral", route: "/dashboard" },
-  { icon: Mic, label: "Voice Agent", route: "/voice" },
-  { icon: Users, label: "Leads", route: "/dashboard/leads" },
-  { icon: MessageSquare, label: "Respostas", route: "/dashboard/respostas" },
-  { icon: List, label: "Funcionalidades", route: "/dashboard/funcionalidades" },
-  { icon: Lightbulb, label: "Insights", route: "/dashboard/insights" },
-  { icon: Send, label: "Feedbacks", route: "/dashboard/feedbacks" },
-  { icon: FileText, label: "Documento Técnico", route: "/dashboard/documento-tecnico" },
-  { icon: Settings, label: "Configurações", route: "/dashboard/config" },
+  { icon: Home, labelKey: "nav.overview", route: "/dashboard" },
+  { icon: Mic, labelKey: "nav.voice", route: "/voice" },
+  { icon: Users, labelKey: "nav.leads", route: "/dashboard/leads" },
+  { icon: MessageSquare, labelKey: "nav.responses", route: "/dashboard/respostas" },
+  { icon: List, labelKey: "nav.functionalities", route: "/dashboard/funcionalidades" },
+  { icon: Lightbulb, labelKey: "nav.insights", route: "/dashboard/insights" },
+  { icon: Send, labelKey: "nav.feedbacks", route: "/dashboard/feedbacks" },
+  { icon: FileText, labelKey: "nav.technicalDocument", route: "/dashboard/documento-tecnico", permission: "document:generate" },
+  { icon: Settings, labelKey: "nav.settings", route: "/dashboard/config", permission: "config:view" },
 ];
\ No newline at end of file
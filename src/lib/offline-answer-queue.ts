@@ -0,0 +1,153 @@
+/**
+ * Offline Answer Queue
+ * Answers captured while the voice server was unreachable, kept until /api/v1/respostas takes them
+ *
+ * The queue lives in localStorage so a reload or a closed tab doesn't lose answers. `flush`
+ * sends them oldest first and stops at the first retryable failure (network, timeout, 5xx,
+ * expired session), leaving the rest for the next attempt; answers the server rejects
+ * outright are dropped, since resending them can't succeed.
+ *
+ * Every tab has its own copy of the queue, so storage is the source of truth: it is reread
+ * before each change, and a Web Lock makes one tab at a time flush, so two tabs that come
+ * back online together don't upload the same answers.
+ */
+
+import { isRetryableError, parseError } from './error-handler';
+import type { InterviewNiche } from './offline-interviewer';
+
+export interface QueuedAnswer {
+  id: string; // client-side id, sent along so the server can ignore a repeated upload
+  conversationId: string | null;
+  leadId: string | null;
+  nicho: InterviewNiche;
+  pergunta: string;
+  resposta: string;
+  answeredAt: string; // ISO timestamp
+}
+
+export interface FlushResult {
+  sent: number;
+  dropped: number;
+  remaining: number;
+}
+
+const STORAGE_KEY = 'renus_offline_answers';
+// Web Lock held while flushing, shared by every tab
+const FLUSH_LOCK = 'renus_offline_answers_flush';
+
+class OfflineAnswerQueue {
+  private answers: QueuedAnswer[];
+  private listeners = new Set<() => void>();
+  private flushing: Promise<FlushResult> | null = null;
+
+  constructor() {
+    this.answers = this.load();
+
+    // Another tab queued or sent answers: keep the pending count in step
+    if (typeof window !== 'undefined') {
+      window.addEventListener('storage', (event) => {
+        if (event.key !== STORAGE_KEY && event.key !== null) return;
+        this.answers = this.load();
+        this.listeners.forEach((listener) => listener());
+      });
+    }
+  }
+
+  get size(): number {
+    return this.answers.length;
+  }
+
+  list(): QueuedAnswer[] {
+    return [...this.answers];
+  }
+
+  enqueue(answer: Omit<QueuedAnswer, 'id' | 'answeredAt'>): QueuedAnswer {
+    const queued: QueuedAnswer = {
+      ...answer,
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
+      answeredAt: new Date().toISOString(),
+    };
+    this.answers = [...this.load(), queued];
+    this.persist();
+    return queued;
+  }
+
+  /**
+   * Send queued answers in order. Concurrent calls share the flush already running; a flush
+   * in another tab is waited for, and what it left behind is sent afterwards.
+   */
+  flush(send: (answer: QueuedAnswer) => Promise<unknown>): Promise<FlushResult> {
+    if (!this.flushing) {
+      this.flushing = this.sendAllExclusively(send).finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  clear(): void {
+    this.answers = [];
+    this.persist();
+  }
+
+  private async sendAllExclusively(send: (answer: QueuedAnswer) => Promise<unknown>): Promise<FlushResult> {
+    const sendAll = () => this.sendAll(send);
+    return navigator.locks ? await navigator.locks.request(FLUSH_LOCK, sendAll) : sendAll();
+  }
+
+  private async sendAll(send: (answer: QueuedAnswer) => Promise<unknown>): Promise<FlushResult> {
+    let sent = 0;
+    let dropped = 0;
+
+    // Reread on every step: another tab may have queued more since
+    while ((this.answers = this.load()).length > 0) {
+      const answer = this.answers[0];
+      try {
+        await send(answer);
+        sent++;
+      } catch (error) {
+        const appError = parseError(error);
+        if (isRetryableError(appError) || appError.type === 'unauthorized') {
+          break;
+        }
+        console.error('[OfflineAnswerQueue] Answer rejected, dropping:', answer.id, appError);
+        dropped++;
+      }
+      this.answers = this.load().filter((item) => item.id !== answer.id);
+      this.persist();
+    }
+
+    return { sent, dropped, remaining: this.answers.length };
+  }
+
+  private load(): QueuedAnswer[] {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('[OfflineAnswerQueue] Failed to load queue:', error);
+      return [];
+    }
+  }
+
+  private persist(): void {
+    try {
+      if (this.answers.length > 0) {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(this.answers));
+      } else {
+        localStorage.removeItem(STORAGE_KEY);
+      }
+    } catch (error) {
+      console.error('[OfflineAnswerQueue] Failed to save queue:', error);
+    }
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+// Export singleton instance
+export const offlineAnswerQueue = new OfflineAnswerQueue();
@@ -0,0 +1,104 @@
+/**
+ * Offline Interviewer
+ * Scripted stand-in for the agent while the voice server is unreachable
+ *
+ * Asks which niche the user works in, then that niche's questionnaire and a closing
+ * question. Every answer comes back as a question/answer pair ready to be queued for
+ * /api/v1/respostas. Prompts are read in the UI language when they're produced.
+ */
+
+import { t, type MessageKey } from './i18n';
+import { normalizeSpeech } from './speech-recognition';
+
+export type InterviewNiche = 'mmn' | 'saude' | 'imobiliaria' | 'profissional_liberal' | 'outros';
+
+export interface InterviewAnswer {
+  nicho: InterviewNiche;
+  pergunta: string;
+  resposta: string;
+}
+
+export interface InterviewerTurn {
+  prompt: string; // what the agent says next
+  answer?: InterviewAnswer; // the answer captured from the user's text, if any
+  done: boolean;
+}
+
+const NICHE_QUESTIONS: Record<InterviewNiche, MessageKey[]> = {
+  mmn: ['offline.question.mmn.1', 'offline.question.mmn.2', 'offline.question.mmn.3'],
+  saude: ['offline.question.saude.1', 'offline.question.saude.2', 'offline.question.saude.3'],
+  imobiliaria: ['offline.question.imobiliaria.1', 'offline.question.imobiliaria.2', 'offline.question.imobiliaria.3'],
+  profissional_liberal: [
+    'offline.question.profissional_liberal.1',
+    'offline.question.profissional_liberal.2',
+    'offline.question.profissional_liberal.3',
+  ],
+  outros: ['offline.question.outros.1', 'offline.question.outros.2', 'offline.question.outros.3'],
+};
+
+// Accent-free, lowercase words that point to a niche, in every supported language
+const NICHE_KEYWORDS: Array<{ niche: InterviewNiche; keywords: string[] }> = [
+  { niche: 'mmn', keywords: ['mmn', 'multinivel', 'multi-level', 'mlm', 'network marketing', 'distribuidor', 'distributor'] },
+  { niche: 'saude', keywords: ['saude', 'clinica', 'medic', 'consultorio', 'hospital', 'dentist', 'terapeut', 'health', 'clinic', 'doctor', 'patient', 'paciente'] },
+  { niche: 'imobiliaria', keywords: ['imobiliaria', 'imovel', 'imoveis', 'corretor', 'real estate', 'realtor', 'property', 'properties'] },
+  { niche: 'profissional_liberal', keywords: ['profissional liberal', 'advogad', 'contador', 'arquitet', 'autonomo', 'freelancer', 'lawyer', 'accountant', 'architect', 'independent'] },
+];
+
+/**
+ * Niche named in a free-form answer; 'outros' when none matches
+ */
+export function detectNiche(text: string): InterviewNiche {
+  const normalized = normalizeSpeech(text);
+  return NICHE_KEYWORDS.find(({ keywords }) => keywords.some((keyword) => normalized.includes(keyword)))?.niche ?? 'outros';
+}
+
+export class OfflineInterviewer {
+  private niche: InterviewNiche | null = null;
+  private questions: MessageKey[] = [];
+  private current: MessageKey | null = null;
+
+  get isComplete(): boolean {
+    return this.niche !== null && this.current === null;
+  }
+
+  /**
+   * Restart from the top; returns the opening prompt
+   */
+  start(): string {
+    this.niche = null;
+    this.questions = [];
+    this.current = 'offline.askNiche';
+    return `${t('offline.intro')} ${t('offline.askNiche')}`;
+  }
+
+  /**
+   * Take the user's reply to the current question and move on to the next one
+   */
+  reply(text: string): InterviewerTurn {
+    const resposta = text.trim();
+
+    if (this.current === null) {
+      return { prompt: t('offline.done'), done: true };
+    }
+
+    if (!this.niche) {
+      const niche = detectNiche(resposta);
+      const answer: InterviewAnswer = { nicho: niche, pergunta: t('offline.askNiche'), resposta };
+      this.niche = niche;
+      this.questions = [...NICHE_QUESTIONS[niche], 'offline.question.final'];
+      this.current = this.questions.shift() ?? null;
+      return {
+        prompt: `${t('offline.nicheAck', { niche: t(`offline.niche.${niche}`) })} ${t(this.current!)}`,
+        answer,
+        done: false,
+      };
+    }
+
+    const answer: InterviewAnswer = { nicho: this.niche, pergunta: t(this.current), resposta };
+    this.current = this.questions.shift() ?? null;
+
+    return this.current
+      ? { prompt: t(this.current), answer, done: false }
+      : { prompt: t('offline.closing'), answer, done: true };
+  }
+}
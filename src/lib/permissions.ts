@@ -0,0 +1,29 @@
+/**
+ * Role-based permissions for the dashboard
+ * The backend sends `role` on the user; anything missing or unrecognized gets the
+ * least-privileged role. The server must still enforce the same rules on its endpoints.
+ */
+
+export const ROLES = ['admin', 'analyst', 'viewer'] as const;
+export type Role = (typeof ROLES)[number];
+
+export type Permission =
+  | 'config:view' // open Configurações (agent, sub-agents, system)
+  | 'config:edit' // save agent prompt, sub-agents and system settings
+  | 'document:generate' // open Documento Técnico and generate/download the YAML
+  | 'feedback:send'; // draft and send feedbacks
+
+const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  admin: ['config:view', 'config:edit', 'document:generate', 'feedback:send'],
+  analyst: ['config:view', 'document:generate', 'feedback:send'],
+  viewer: [],
+};
+
+export function resolveRole(role: string | null | undefined): Role {
+  const normalized = role?.trim().toLowerCase();
+  return (ROLES as readonly string[]).includes(normalized ?? '') ? (normalized as Role) : 'viewer';
+}
+
+export function hasPermission(role: Role, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
@@ -0,0 +1,132 @@
+/**
+ * Recording Export
+ * Downloads of a conversation recording with one chapter per turn
+ *
+ * Chapters come from the conversation entries linked to the recording (`recordingOffset`)
+ * and run until the next entry. WAV files carry them as labelled cue points; WebM has no
+ * chapter support in MediaRecorder output, so a WebVTT chapters file is downloaded with it.
+ */
+
+import { format } from 'date-fns';
+import type { ConversationEntry } from '../types/voice';
+import { encodeWav, type WavMarker } from './audio-codec';
+import type { ConversationRecording } from './conversation-recorder';
+import { t } from './i18n';
+import { downloadBlob, formatCueTime } from './transcript-export';
+
+export type RecordingDownloadFormat = 'webm' | 'wav';
+
+export interface RecordingChapter {
+  entryId: string;
+  start: number; // ms into the recording
+  end: number;
+  title: string;
+}
+
+// WAV exports are mono PCM16 at this rate: enough for speech, about 2.9 MB per minute
+const WAV_SAMPLE_RATE = 24000;
+const CHAPTER_TITLE_LENGTH = 60;
+
+/**
+ * mm:ss position in a recording
+ */
+export function formatRecordingTime(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  return `${String(Math.floor(totalSeconds / 60)).padStart(2, '0')}:${String(totalSeconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * One chapter per entry linked to the recording, in recording order
+ */
+export function buildChapters(entries: ConversationEntry[], durationMs: number): RecordingChapter[] {
+  const linked = entries
+    .filter((entry) => entry.recordingOffset !== undefined && entry.recordingOffset <= durationMs)
+    .sort((a, b) => a.recordingOffset! - b.recordingOffset!);
+
+  return linked.map((entry, i) => {
+    const speaker = entry.speaker === 'user' ? t('common.you') : t('common.agent');
+    const text = entry.text.replace(/\s+/g, ' ').trim();
+    const title = text.length > CHAPTER_TITLE_LENGTH ? `${text.slice(0, CHAPTER_TITLE_LENGTH - 1)}…` : text;
+    return {
+      entryId: entry.id,
+      start: entry.recordingOffset!,
+      end: linked[i + 1]?.recordingOffset ?? durationMs,
+      title: `${speaker}: ${title}`,
+    };
+  });
+}
+
+export function toChaptersVtt(
+  recording: ConversationRecording,
+  chapters: RecordingChapter[],
+  conversationId: string | null
+): string {
+  const header = [
+    'WEBVTT',
+    '',
+    'NOTE',
+    `conversation_id: ${conversationId ?? '-'}`,
+    `recorded_at: ${recording.startedAt.toISOString()}`,
+    `consent_at: ${recording.consentAt.toISOString()}`,
+    '',
+  ];
+  const cues = chapters.map((chapter, i) =>
+    [
+      `chapter-${i + 1}`,
+      `${formatCueTime(chapter.start, '.')} --> ${formatCueTime(Math.max(chapter.end, chapter.start + 1), '.')}`,
+      chapter.title.replace(/-->/g, '->'),
+      '',
+    ].join('\n')
+  );
+  return [...header, ...cues].join('\n');
+}
+
+/**
+ * Decode the WebM recording and re-encode it as mono PCM16 WAV with a cue point per chapter
+ */
+export async function recordingToWav(recording: ConversationRecording, chapters: RecordingChapter[]): Promise<Blob> {
+  const decoder = new OfflineAudioContext(1, 1, WAV_SAMPLE_RATE);
+  const buffer = await decoder.decodeAudioData(await recording.blob.arrayBuffer());
+
+  const pcm = new Int16Array(buffer.length);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+  for (let i = 0; i < buffer.length; i++) {
+    const sample = channels.reduce((acc, channel) => acc + channel[i], 0) / channels.length;
+    pcm[i] = Math.max(-1, Math.min(1, sample)) * 0x7fff;
+  }
+
+  const markers: WavMarker[] = chapters.map((chapter) => ({
+    position: Math.min(buffer.length, Math.round((chapter.start / 1000) * buffer.sampleRate)),
+    label: chapter.title,
+  }));
+
+  return encodeWav([pcm], buffer.sampleRate, markers);
+}
+
+function recordingFileName(recording: ConversationRecording, conversationId: string | null, extension: string): string {
+  const id = conversationId ? conversationId.slice(0, 8) : 'sem_id';
+  return `gravacao_renus_${id}_${format(recording.startedAt, 'yyyyMMdd_HHmm')}.${extension}`;
+}
+
+/**
+ * Download the recording: WAV with embedded chapters, or WebM plus a WebVTT chapters file
+ */
+export async function downloadRecording(
+  recording: ConversationRecording,
+  entries: ConversationEntry[],
+  conversationId: string | null,
+  downloadFormat: RecordingDownloadFormat
+): Promise<void> {
+  const chapters = buildChapters(entries, recording.durationMs);
+
+  if (downloadFormat === 'wav') {
+    downloadBlob(await recordingToWav(recording, chapters), recordingFileName(recording, conversationId, 'wav'));
+    return;
+  }
+
+  downloadBlob(recording.blob, recordingFileName(recording, conversationId, 'webm'));
+  downloadBlob(
+    new Blob([toChaptersVtt(recording, chapters, conversationId)], { type: 'text/vtt;charset=utf-8' }),
+    recordingFileName(recording, conversationId, 'chapters.vtt')
+  );
+}
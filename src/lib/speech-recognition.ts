@@ -0,0 +1,21 @@
+/**
+ * Speech Recognition
+ * Access to the browser's Web Speech recognizer and text normalization for matching its output
+ */
+
+export type SpeechRecognitionConstructor = new () => SpeechRecognition;
+
+/**
+ * The recognizer constructor, prefixed or not; null where the browser has none (Firefox)
+ */
+export function getSpeechRecognition(): SpeechRecognitionConstructor | null {
+  if (typeof window === 'undefined') return null;
+  return window.SpeechRecognition ?? window.webkitSpeechRecognition ?? null;
+}
+
+/**
+ * Lowercase, accent-free text, so recognized speech can be matched against plain keywords
+ */
+export function normalizeSpeech(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
@@ -0,0 +1,354 @@
+/**
+ * Streaming Audio Player
+ * Gapless Web Audio playback of the agent's `audio_chunk` stream
+ *
+ * Chunks may arrive out of order; they are decoded as soon as they land, reordered by
+ * `sequence` and scheduled back to back on the AudioContext clock. Playback only starts
+ * (or resumes after an underrun) once `jitterBufferMs` of contiguous audio is ready.
+ * A playback rate other than 1 speeds buffers up on the source node, which also shifts pitch.
+ */
+
+import { base64ToArrayBuffer } from './audio-codec';
+
+export interface StreamingAudioPlayerOptions {
+  jitterBufferMs?: number; // contiguous audio to buffer before starting/resuming
+  gapTimeoutMs?: number; // how long to wait for a missing sequence before skipping it
+  onStart?: () => void;
+  onEnd?: () => void;
+  onError?: (error: Error) => void;
+  outputDeviceId?: string | null; // speaker to play on; null for the default output
+  playbackRate?: number; // 1 = normal speed
+}
+
+export interface StreamingAudioChunk {
+  sequence: number;
+  data: string; // base64
+  isFinal?: boolean;
+  format?: string; // 'pcm16' for raw PCM, anything else goes through decodeAudioData
+  sampleRate?: number; // required for pcm16
+}
+
+interface ScheduledSource {
+  source: AudioBufferSourceNode;
+  startTime: number;
+  duration: number; // seconds of audio in the buffer
+  rate: number;
+}
+
+const DEFAULT_JITTER_BUFFER_MS = 200;
+const DEFAULT_GAP_TIMEOUT_MS = 500;
+// Lead time so the first buffer isn't scheduled in the past by the time it reaches the audio thread
+const SCHEDULE_LEAD_S = 0.05;
+
+// AudioContext.setSinkId is Chromium-only (110+) and not yet in the DOM typings
+type SinkableAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+class StreamingAudioPlayer {
+  private audioContext: AudioContext | null = null;
+  private options: StreamingAudioPlayerOptions;
+
+  private decoded = new Map<number, AudioBuffer>();
+  private decoding = new Set<number>();
+  private scheduled: ScheduledSource[] = [];
+  private nextSequence = 0;
+  private lastSequence: number | null = null;
+  private highestSequence = -1;
+  private nextStartTime = 0;
+  private playedDuration = 0; // seconds of audio from sources that already ended
+  private buffering = true;
+  private started = false;
+  private gapTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  private outputDeviceId: string | null;
+  private outputTap: MediaStreamAudioDestinationNode | null = null;
+  private playbackRate: number;
+
+  constructor(options: StreamingAudioPlayerOptions = {}) {
+    this.options = options;
+    this.outputDeviceId = options.outputDeviceId ?? null;
+    this.playbackRate = options.playbackRate ?? 1;
+  }
+
+  /**
+   * Whether a stream is in progress (buffering or playing)
+   */
+  get isActive(): boolean {
+    return this.started || this.decoded.size > 0 || this.decoding.size > 0 || this.scheduled.length > 0;
+  }
+
+  /**
+   * Add a chunk of the current response
+   */
+  enqueue(chunk: StreamingAudioChunk): void {
+    if (chunk.sequence < this.nextSequence || this.decoded.has(chunk.sequence) || this.decoding.has(chunk.sequence)) {
+      console.warn(`[StreamingPlayer] Dropping duplicate or late chunk ${chunk.sequence}`);
+      return;
+    }
+
+    const audioContext = this.getContext();
+    this.highestSequence = Math.max(this.highestSequence, chunk.sequence);
+    if (chunk.isFinal) {
+      this.lastSequence = chunk.sequence;
+    }
+
+    this.decoding.add(chunk.sequence);
+    this.decode(audioContext, chunk)
+      .then((buffer) => {
+        // stop() may have reset the stream while this chunk was decoding
+        if (!this.decoding.delete(chunk.sequence)) return;
+        this.decoded.set(chunk.sequence, buffer);
+        this.pump();
+      })
+      .catch((err) => {
+        if (!this.decoding.delete(chunk.sequence)) return;
+        console.error(`[StreamingPlayer] Failed to decode chunk ${chunk.sequence}:`, err);
+        this.options.onError?.(err instanceof Error ? err : new Error('Failed to decode audio chunk'));
+        // Treat an undecodable chunk like a lost one so the stream keeps going
+        this.pump();
+      });
+  }
+
+  /**
+   * Mark the stream complete (`response_complete`); the last received chunk ends it
+   */
+  finalize(): void {
+    if (this.lastSequence === null) {
+      this.lastSequence = this.highestSequence;
+    }
+    this.pump();
+  }
+
+  /**
+   * How much of the response has been heard, in ms
+   */
+  getPlaybackOffset(): number {
+    if (!this.audioContext) return 0;
+
+    const now = this.audioContext.currentTime;
+    const heard = this.scheduled.reduce(
+      (acc, { startTime, duration, rate }) => acc + Math.min(Math.max(now - startTime, 0) * rate, duration),
+      this.playedDuration
+    );
+    return Math.round(heard * 1000);
+  }
+
+  /**
+   * Stop immediately and drop everything buffered. Returns the playback offset in ms.
+   */
+  stop(): number {
+    const playbackOffset = this.getPlaybackOffset();
+    const wasStarted = this.started;
+
+    this.scheduled.forEach(({ source }) => {
+      source.onended = null;
+      try {
+        source.stop();
+      } catch {
+        // Source was never started
+      }
+    });
+
+    this.reset();
+    if (wasStarted) {
+      this.options.onEnd?.();
+    }
+
+    return playbackOffset;
+  }
+
+  /**
+   * Live copy of everything the player outputs, e.g. for recording the conversation
+   */
+  getOutputStream(): MediaStream {
+    const audioContext = this.getContext();
+    if (!this.outputTap) {
+      this.outputTap = audioContext.createMediaStreamDestination();
+    }
+    return this.outputTap.stream;
+  }
+
+  /**
+   * Move playback to another speaker. Browsers without AudioContext.setSinkId keep the default.
+   */
+  setOutputDevice(deviceId: string | null): void {
+    this.outputDeviceId = deviceId;
+    if (this.audioContext) {
+      this.applyOutputDevice(this.audioContext);
+    }
+  }
+
+  /**
+   * Change the speed from the next scheduled buffer on; buffers already queued keep theirs
+   */
+  setPlaybackRate(rate: number): void {
+    this.playbackRate = rate;
+  }
+
+  /**
+   * Stop playback and release the AudioContext
+   */
+  dispose(): void {
+    this.stop();
+    this.outputTap = null;
+    this.audioContext?.close();
+    this.audioContext = null;
+  }
+
+  private getContext(): AudioContext {
+    if (!this.audioContext) {
+      this.audioContext = new AudioContext();
+      this.applyOutputDevice(this.audioContext);
+    }
+    // Autoplay policies may leave the context suspended until a user gesture
+    if (this.audioContext.state === 'suspended') {
+      this.audioContext.resume().catch(() => undefined);
+    }
+    return this.audioContext;
+  }
+
+  private applyOutputDevice(audioContext: SinkableAudioContext): void {
+    if (typeof audioContext.setSinkId !== 'function') return;
+
+    audioContext.setSinkId(this.outputDeviceId ?? '').catch((err) => {
+      console.warn('[StreamingPlayer] Output device unavailable, using default:', err);
+      audioContext.setSinkId?.('').catch(() => undefined);
+    });
+  }
+
+  private async decode(audioContext: AudioContext, chunk: StreamingAudioChunk): Promise<AudioBuffer> {
+    const bytes = base64ToArrayBuffer(chunk.data);
+
+    if (chunk.format === 'pcm16') {
+      const samples = new Int16Array(bytes);
+      const buffer = audioContext.createBuffer(1, samples.length, chunk.sampleRate || 16000);
+      const channel = buffer.getChannelData(0);
+      for (let i = 0; i < samples.length; i++) {
+        channel[i] = samples[i] / 0x8000;
+      }
+      return buffer;
+    }
+
+    return audioContext.decodeAudioData(bytes);
+  }
+
+  /**
+   * Schedule every contiguous decoded chunk, honouring the jitter buffer
+   */
+  private pump(): void {
+    const audioContext = this.audioContext;
+    if (!audioContext) return;
+
+    this.clearGapTimeout();
+
+    const streamComplete = this.lastSequence !== null;
+
+    // An underrun happened if the clock passed the end of what was scheduled
+    if (this.started && !streamComplete && audioContext.currentTime > this.nextStartTime) {
+      this.buffering = true;
+    }
+
+    if (this.buffering) {
+      let ready = 0;
+      for (let seq = this.nextSequence; this.decoded.has(seq); seq++) {
+        ready += this.decoded.get(seq)!.duration;
+      }
+
+      const jitterBuffer = (this.options.jitterBufferMs ?? DEFAULT_JITTER_BUFFER_MS) / 1000;
+      if (ready < jitterBuffer && !streamComplete) {
+        this.waitForGap();
+        return;
+      }
+      this.buffering = false;
+    }
+
+    while (this.decoded.has(this.nextSequence)) {
+      const buffer = this.decoded.get(this.nextSequence)!;
+      this.decoded.delete(this.nextSequence);
+      this.schedule(audioContext, buffer);
+      this.nextSequence++;
+    }
+
+    this.waitForGap();
+    this.checkFinished();
+  }
+
+  private schedule(audioContext: AudioContext, buffer: AudioBuffer): void {
+    const source = audioContext.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = this.playbackRate;
+    source.connect(audioContext.destination);
+    if (this.outputTap) {
+      source.connect(this.outputTap);
+    }
+
+    const startTime = Math.max(this.nextStartTime, audioContext.currentTime + SCHEDULE_LEAD_S);
+    const entry: ScheduledSource = { source, startTime, duration: buffer.duration, rate: this.playbackRate };
+
+    source.onended = () => {
+      this.scheduled = this.scheduled.filter((s) => s !== entry);
+      this.playedDuration += entry.duration;
+      this.checkFinished();
+    };
+
+    source.start(startTime);
+    this.scheduled.push(entry);
+    this.nextStartTime = startTime + buffer.duration / entry.rate;
+
+    if (!this.started) {
+      this.started = true;
+      this.options.onStart?.();
+    }
+  }
+
+  /**
+   * If a later chunk is waiting on a missing sequence, skip the gap after a timeout
+   */
+  private waitForGap(): void {
+    const missing = !this.decoded.has(this.nextSequence) && !this.decoding.has(this.nextSequence);
+    const laterChunksWaiting = this.decoded.size > 0 || this.decoding.size > 0;
+    const endMissing = this.lastSequence !== null && this.nextSequence <= this.lastSequence;
+
+    if (!missing || !(laterChunksWaiting || endMissing)) return;
+
+    this.gapTimeoutId = setTimeout(() => {
+      this.gapTimeoutId = null;
+      console.warn(`[StreamingPlayer] Chunk ${this.nextSequence} never arrived, skipping`);
+      this.nextSequence++;
+      this.buffering = false;
+      this.pump();
+    }, this.options.gapTimeoutMs ?? DEFAULT_GAP_TIMEOUT_MS);
+  }
+
+  private clearGapTimeout(): void {
+    if (this.gapTimeoutId) {
+      clearTimeout(this.gapTimeoutId);
+      this.gapTimeoutId = null;
+    }
+  }
+
+  private checkFinished(): void {
+    const allScheduled = this.lastSequence !== null && this.nextSequence > this.lastSequence;
+    if (!allScheduled || this.scheduled.length > 0 || this.decoding.size > 0) return;
+
+    const wasStarted = this.started;
+    this.reset();
+    if (wasStarted) {
+      this.options.onEnd?.();
+    }
+  }
+
+  private reset(): void {
+    this.clearGapTimeout();
+    this.decoded.clear();
+    this.decoding.clear();
+    this.scheduled = [];
+    this.nextSequence = 0;
+    this.lastSequence = null;
+    this.highestSequence = -1;
+    this.nextStartTime = 0;
+    this.playedDuration = 0;
+    this.buffering = true;
+    this.started = false;
+  }
+}
+
+export default StreamingAudioPlayer;
@@ -0,0 +1,71 @@
+/**
+ * Cross-tab messaging for session state
+ * Uses BroadcastChannel where available and falls back to `storage` events on a scratch key.
+ * Either way a message never reaches the tab that sent it.
+ */
+
+export type TabMessage =
+  // Session changed in another tab; the new state is already in localStorage
+  | { type: 'auth'; event: 'login' | 'logout' | 'refresh' | 'profile' }
+  // A voice tab opened and asks whether another one owns the conversation
+  | { type: 'voice:query'; tabId: string }
+  // Answer to a query from the tab that owns it
+  | { type: 'voice:active'; tabId: string }
+  // A tab takes the conversation; the most recent claim wins
+  | { type: 'voice:claim'; tabId: string; claimedAt: number };
+
+const CHANNEL_NAME = 'renus_tab_sync';
+
+export const TAB_ID = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+const listeners = new Set<(message: TabMessage) => void>();
+let channel: BroadcastChannel | null = null;
+let transportReady = false;
+
+function dispatch(message: TabMessage): void {
+  listeners.forEach((listener) => listener(message));
+}
+
+function ensureTransport(): void {
+  if (transportReady || typeof window === 'undefined') return;
+  transportReady = true;
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<TabMessage>) => dispatch(event.data);
+    return;
+  }
+
+  window.addEventListener('storage', (event) => {
+    if (event.key !== CHANNEL_NAME || !event.newValue) return;
+    try {
+      dispatch(JSON.parse(event.newValue).message);
+    } catch (error) {
+      console.error('[TabSync] Ignoring malformed message:', error);
+    }
+  });
+}
+
+export function publishTabMessage(message: TabMessage): void {
+  ensureTransport();
+
+  if (channel) {
+    channel.postMessage(message);
+    return;
+  }
+
+  try {
+    // The nonce makes every write a change, so identical messages still fire the event
+    localStorage.setItem(CHANNEL_NAME, JSON.stringify({ message, nonce: `${TAB_ID}-${Date.now()}-${Math.random()}` }));
+  } catch (error) {
+    console.error('[TabSync] Failed to publish message:', error);
+  }
+}
+
+export function subscribeTabMessages(listener: (message: TabMessage) => void): () => void {
+  ensureTransport();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
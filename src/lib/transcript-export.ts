@@ -0,0 +1,278 @@
+/**
+ * Transcript Export
+ * Turns a conversation into Markdown, JSON, SRT/WebVTT subtitles or a printable page
+ *
+ * Every format carries the conversation/lead ids so an exported file can be traced back to
+ * the lead in the dashboard. Subtitle cues start at each entry's timestamp, relative to the
+ * first entry, and end when the next entry starts. Headings and speaker names follow the
+ * UI language at export time.
+ */
+
+import { format } from 'date-fns';
+import type { ConversationEntry } from '../types/voice';
+import { getLocale, t } from './i18n';
+
+export type TranscriptExportFormat = 'markdown' | 'json' | 'srt' | 'vtt' | 'pdf';
+
+export interface TranscriptExportData {
+  conversationId: string | null;
+  leadId: string | null;
+  transcriptions: ConversationEntry[];
+  functionalities: string[];
+  exportedAt?: Date;
+}
+
+const speakerLabel = (speaker: ConversationEntry['speaker']) =>
+  speaker === 'user' ? t('common.you') : t('common.agent');
+
+// Reading speed used to size a cue when nothing follows it
+const MS_PER_WORD = 400;
+const MIN_CUE_MS = 1500;
+const MAX_CUE_MS = 10000;
+
+const FILE_EXTENSIONS: Record<Exclude<TranscriptExportFormat, 'pdf'>, string> = {
+  markdown: 'md',
+  json: 'json',
+  srt: 'srt',
+  vtt: 'vtt',
+};
+
+const MIME_TYPES: Record<Exclude<TranscriptExportFormat, 'pdf'>, string> = {
+  markdown: 'text/markdown',
+  json: 'application/json',
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+};
+
+// ============================================================================
+// Formats
+// ============================================================================
+
+export function toMarkdown(data: TranscriptExportData): string {
+  const exportedAt = data.exportedAt ?? new Date();
+  const lines = [
+    `# ${t('export.heading')}`,
+    '',
+    `- **${t('export.conversation')}:** ${data.conversationId ?? '—'}`,
+    `- **${t('export.lead')}:** ${data.leadId ?? '—'}`,
+    `- **${t('export.exportedAt')}:** ${format(exportedAt, t('export.dateFormat'))}`,
+    '',
+    `## ${t('export.transcript')}`,
+    '',
+  ];
+
+  for (const entry of data.transcriptions) {
+    lines.push(`**${speakerLabel(entry.speaker)}** _(${format(entry.timestamp, 'HH:mm:ss')})_`, '');
+    lines.push(entry.text, '');
+  }
+
+  if (data.functionalities.length > 0) {
+    lines.push(`## ${t('history.functionalities')}`, '');
+    data.functionalities.forEach((functionality) => lines.push(`- ${functionality}`));
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+export function toJson(data: TranscriptExportData): string {
+  return JSON.stringify(
+    {
+      conversation_id: data.conversationId,
+      lead_id: data.leadId,
+      exported_at: (data.exportedAt ?? new Date()).toISOString(),
+      functionalities: data.functionalities,
+      transcriptions: data.transcriptions.map((entry) => ({
+        id: entry.id,
+        speaker: entry.speaker,
+        text: entry.text,
+        timestamp: entry.timestamp.toISOString(),
+        ...(entry.sequence !== undefined && { sequence: entry.sequence }),
+        ...(entry.recordingOffset !== undefined && { recording_offset_ms: entry.recordingOffset }),
+      })),
+    },
+    null,
+    2
+  );
+}
+
+interface Cue {
+  start: number; // ms since the first entry
+  end: number;
+  text: string;
+}
+
+function buildCues(entries: ConversationEntry[]): Cue[] {
+  if (entries.length === 0) return [];
+  const origin = entries[0].timestamp.getTime();
+
+  return entries.map((entry, i) => {
+    const start = entry.timestamp.getTime() - origin;
+    const words = entry.text.split(/\s+/).filter(Boolean).length;
+    const estimated = Math.min(MAX_CUE_MS, Math.max(MIN_CUE_MS, words * MS_PER_WORD));
+    const next = entries[i + 1]?.timestamp.getTime();
+    // Never overlap the next cue, but keep zero-length cues visible
+    const end = next !== undefined ? Math.max(start + 1, Math.min(start + estimated, next - origin)) : start + estimated;
+
+    // A blank line would end the cue early
+    const text = entry.text.trim().replace(/\n\s*\n/g, '\n');
+    return { start, end, text: `${speakerLabel(entry.speaker)}: ${text}` };
+  });
+}
+
+export function formatCueTime(ms: number, separator: ',' | '.'): string {
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+export function toSrt(data: TranscriptExportData): string {
+  return buildCues(data.transcriptions)
+    .map((cue, i) =>
+      [i + 1, `${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}`, cue.text, ''].join('\n')
+    )
+    .join('\n');
+}
+
+export function toWebVtt(data: TranscriptExportData): string {
+  const header = [
+    'WEBVTT',
+    '',
+    'NOTE',
+    `conversation_id: ${data.conversationId ?? '-'}`,
+    `lead_id: ${data.leadId ?? '-'}`,
+    '',
+  ];
+  const cues = buildCues(data.transcriptions).map((cue) =>
+    // "-->" is reserved in cue payloads
+    [`${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}`, cue.text.replace(/-->/g, '->'), ''].join('\n')
+  );
+  return [...header, ...cues].join('\n');
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Standalone, print-styled HTML page of the conversation
+ */
+export function toPrintableHtml(data: TranscriptExportData): string {
+  const exportedAt = data.exportedAt ?? new Date();
+  const entries = data.transcriptions
+    .map(
+      (entry) => `
+      <div class="entry ${entry.speaker}">
+        <div class="meta">${speakerLabel(entry.speaker)} · ${format(entry.timestamp, 'HH:mm:ss')}</div>
+        <p>${escapeHtml(entry.text)}</p>
+      </div>`
+    )
+    .join('');
+  const functionalities = data.functionalities.length
+    ? `<h2>${t('history.functionalities')}</h2><ul>${data.functionalities.map((f) => `<li>${escapeHtml(f)}</li>`).join('')}</ul>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="${getLocale()}">
+<head>
+  <meta charset="utf-8" />
+  <title>${t('export.heading')} ${escapeHtml(data.conversationId ?? '')}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; color: #111; margin: 2rem; }
+    h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+    h2 { font-size: 1.1rem; margin-top: 2rem; }
+    dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; font-size: 0.85rem; color: #444; }
+    dt { font-weight: 600; }
+    .entry { padding: 0.5rem 0.75rem; margin: 0.5rem 0; border-left: 3px solid #2563eb; break-inside: avoid; }
+    .entry.agent { border-left-color: #16a34a; }
+    .meta { font-size: 0.75rem; color: #666; }
+    p { margin: 0.25rem 0 0; white-space: pre-wrap; }
+    @page { margin: 1.5cm; }
+  </style>
+</head>
+<body>
+  <h1>${t('export.heading')}</h1>
+  <dl>
+    <dt>${t('export.conversation')}</dt><dd>${escapeHtml(data.conversationId ?? '—')}</dd>
+    <dt>${t('export.lead')}</dt><dd>${escapeHtml(data.leadId ?? '—')}</dd>
+    <dt>${t('export.exportedAt')}</dt><dd>${format(exportedAt, t('export.dateFormat'))}</dd>
+  </dl>
+  <h2>${t('export.transcript')}</h2>${entries}
+  ${functionalities}
+</body>
+</html>`;
+}
+
+// ============================================================================
+// Delivery
+// ============================================================================
+
+function exportFileName(data: TranscriptExportData, extension: string): string {
+  const id = data.conversationId ? data.conversationId.slice(0, 8) : 'sem_id';
+  return `conversa_renus_${id}_${format(data.exportedAt ?? new Date(), 'yyyyMMdd_HHmm')}.${extension}`;
+}
+
+function downloadFile(content: string, fileName: string, mimeType: string): void {
+  downloadBlob(new Blob([content], { type: `${mimeType};charset=utf-8` }), fileName);
+}
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const element = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  element.href = url;
+  element.download = fileName;
+  document.body.appendChild(element);
+  element.click();
+  document.body.removeChild(element);
+  // Revoked on the next tick; revoking synchronously can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url));
+}
+
+/**
+ * Open the printable page in a hidden frame and bring up the print dialog ("Salvar como PDF")
+ */
+function printTranscript(data: TranscriptExportData): void {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.setAttribute('aria-hidden', 'true');
+  document.body.appendChild(frame);
+
+  const printWindow = frame.contentWindow;
+  if (!printWindow) {
+    document.body.removeChild(frame);
+    throw new Error('Print frame unavailable');
+  }
+
+  printWindow.document.open();
+  printWindow.document.write(toPrintableHtml(data));
+  printWindow.document.close();
+
+  printWindow.onafterprint = () => document.body.removeChild(frame);
+  printWindow.focus();
+  printWindow.print();
+}
+
+/**
+ * Export a conversation in the given format: a download, or the print dialog for 'pdf'
+ */
+export function exportTranscript(data: TranscriptExportData, exportFormat: TranscriptExportFormat): void {
+  const stamped = { ...data, exportedAt: data.exportedAt ?? new Date() };
+
+  if (exportFormat === 'pdf') {
+    printTranscript(stamped);
+    return;
+  }
+
+  const content = {
+    markdown: toMarkdown,
+    json: toJson,
+    srt: toSrt,
+    vtt: toWebVtt,
+  }[exportFormat](stamped);
+
+  downloadFile(content, exportFileName(stamped, FILE_EXTENSIONS[exportFormat]), MIME_TYPES[exportFormat]);
+}
@@ -0,0 +1,433 @@
+/**
+ * Transcript Store
+ * IndexedDB archive of voice conversations: entries, recorded audio and a search index
+ *
+ * Conversations are keyed by the server's conversation_id. Entries are upserted by id, so
+ * saving the live transcript repeatedly only rewrites what changed. Entry ids are only unique
+ * within a conversation, so audio blobs are keyed by conversation and entry id. Audio saved
+ * before the conversation has an id waits under a pending key until its entry is archived.
+ * Retention drops old conversations first and then the oldest audio until the audio budget fits.
+ */
+
+import type { ConversationEntry } from '../types/voice';
+import { SUPPORTED_LOCALES, t } from './i18n';
+
+export interface StoredConversation {
+  id: string; // conversation_id
+  leadId: string | null;
+  startedAt: number; // epoch ms
+  updatedAt: number;
+  entryCount: number;
+  preview: string; // first user utterance, for the history list
+}
+
+export interface StoredEntry {
+  conversationId: string;
+  id: string; // ConversationEntry.id
+  speaker: ConversationEntry['speaker'];
+  text: string;
+  timestamp: number; // epoch ms
+  sequence?: number;
+  correctedFrom?: string; // transcript as heard, when the user corrected it
+  hasAudio: boolean;
+  tokens: string[]; // normalised words, indexed for search
+}
+
+interface StoredAudio {
+  conversationId: string; // PENDING_CONVERSATION until the entry is archived
+  entryId: string;
+  blob: Blob;
+  size: number;
+  createdAt: number;
+}
+
+export interface TranscriptSearchResult {
+  conversation: StoredConversation;
+  entry: StoredEntry;
+}
+
+export interface TranscriptRetention {
+  maxConversations: number;
+  maxAgeMs: number;
+  maxAudioBytes: number;
+}
+
+export const DEFAULT_TRANSCRIPT_RETENTION: TranscriptRetention = {
+  maxConversations: 50,
+  maxAgeMs: 30 * 24 * 60 * 60 * 1000, // 30 days
+  maxAudioBytes: 100 * 1024 * 1024, // 100 MB
+};
+
+const DB_NAME = 'renus_transcripts';
+const DB_VERSION = 2;
+const CONVERSATIONS = 'conversations';
+const ENTRIES = 'entries';
+const AUDIO = 'audio';
+// Conversation key of audio saved before the server assigned a conversation_id
+const PENDING_CONVERSATION = '';
+
+// Placeholder text shown while a user utterance is being transcribed, in any language; never indexed
+const PLACEHOLDER_TEXTS = new Set<string>(SUPPORTED_LOCALES.map((locale) => t('common.processing', undefined, locale)));
+const MIN_TOKEN_LENGTH = 2;
+const MAX_SEARCH_RESULTS = 50;
+
+/**
+ * Lowercase, accent-free words of a text, deduplicated
+ */
+export function tokenize(text: string): string[] {
+  const words = text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length >= MIN_TOKEN_LENGTH);
+
+  return [...new Set(words)];
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error || new Error('IndexedDB request failed'));
+  });
+}
+
+/**
+ * Version 1 keyed audio by entry id alone. Rekey each recording by its conversation where
+ * exactly one archived entry owns it; recordings whose owner is ambiguous are dropped and
+ * their entries unflagged.
+ */
+function migrateAudioKeys(db: IDBDatabase, tx: IDBTransaction): void {
+  const entryStore = tx.objectStore(ENTRIES);
+  const oldAudio = tx.objectStore(AUDIO);
+
+  oldAudio.getAll().onsuccess = (audioEvent) => {
+    const recordings = (audioEvent.target as IDBRequest<Omit<StoredAudio, 'conversationId'>[]>).result;
+
+    entryStore.getAll().onsuccess = (entryEvent) => {
+      const entries = (entryEvent.target as IDBRequest<StoredEntry[]>).result;
+      entryStore.deleteIndex('id');
+      db.deleteObjectStore(AUDIO);
+      const audio = db.createObjectStore(AUDIO, { keyPath: ['conversationId', 'entryId'] });
+      audio.createIndex('createdAt', 'createdAt');
+
+      for (const recording of recordings) {
+        const owners = entries.filter((entry) => entry.id === recording.entryId);
+        if (owners.length === 1) {
+          audio.put({ ...recording, conversationId: owners[0].conversationId } satisfies StoredAudio);
+        } else {
+          owners.forEach((entry) => entryStore.put({ ...entry, hasAudio: false }));
+        }
+      }
+    };
+  };
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error || new Error('IndexedDB transaction failed'));
+    tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted'));
+  });
+}
+
+class TranscriptStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private retention: TranscriptRetention;
+
+  constructor(retention: Partial<TranscriptRetention> = {}) {
+    this.retention = { ...DEFAULT_TRANSCRIPT_RETENTION, ...retention };
+  }
+
+  /**
+   * Whether the browser can persist transcripts at all (private modes may not)
+   */
+  get isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = (event) => {
+          const db = request.result;
+
+          if (event.oldVersion >= 1) {
+            migrateAudioKeys(db, request.transaction!);
+            return;
+          }
+
+          const conversations = db.createObjectStore(CONVERSATIONS, { keyPath: 'id' });
+          conversations.createIndex('updatedAt', 'updatedAt');
+
+          const entries = db.createObjectStore(ENTRIES, { keyPath: ['conversationId', 'id'] });
+          entries.createIndex('conversationId', 'conversationId');
+          entries.createIndex('tokens', 'tokens', { multiEntry: true });
+
+          const audio = db.createObjectStore(AUDIO, { keyPath: ['conversationId', 'entryId'] });
+          audio.createIndex('createdAt', 'createdAt');
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error || new Error('Failed to open transcript store'));
+      }).catch((err) => {
+        // Let the next call try again
+        this.dbPromise = null;
+        throw err;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Upsert a conversation's entries (and its summary) in one transaction
+   */
+  async saveEntries(conversationId: string, entries: ConversationEntry[], leadId: string | null = null): Promise<void> {
+    if (entries.length === 0) return;
+
+    const db = await this.open();
+    const tx = db.transaction([CONVERSATIONS, ENTRIES, AUDIO], 'readwrite');
+    const conversations = tx.objectStore(CONVERSATIONS);
+    const entryStore = tx.objectStore(ENTRIES);
+    const audioStore = tx.objectStore(AUDIO);
+
+    const existing = await promisify(conversations.get(conversationId) as IDBRequest<StoredConversation | undefined>);
+    const audioCounts = await Promise.all(
+      entries.map(async (entry) => {
+        const count = await promisify(audioStore.count([conversationId, entry.id]));
+        if (count > 0) return count;
+
+        // Audio saved before the conversation had an id: claim it for this conversation
+        const pending = await promisify(
+          audioStore.get([PENDING_CONVERSATION, entry.id]) as IDBRequest<StoredAudio | undefined>
+        );
+        if (!pending) return 0;
+        audioStore.delete([PENDING_CONVERSATION, entry.id]);
+        audioStore.put({ ...pending, conversationId } satisfies StoredAudio);
+        return 1;
+      })
+    );
+
+    entries.forEach((entry, i) => {
+      const stored: StoredEntry = {
+        conversationId,
+        id: entry.id,
+        speaker: entry.speaker,
+        text: entry.text,
+        timestamp: entry.timestamp.getTime(),
+        sequence: entry.sequence,
+        correctedFrom: entry.correctedFrom,
+        hasAudio: audioCounts[i] > 0,
+        tokens: PLACEHOLDER_TEXTS.has(entry.text) ? [] : tokenize(entry.text),
+      };
+      entryStore.put(stored);
+    });
+
+    const count = await promisify(entryStore.index('conversationId').count(IDBKeyRange.only(conversationId)));
+    const firstUserText = entries.find((entry) => entry.speaker === 'user' && !PLACEHOLDER_TEXTS.has(entry.text))?.text;
+
+    conversations.put({
+      id: conversationId,
+      leadId: leadId ?? existing?.leadId ?? null,
+      startedAt: existing?.startedAt ?? entries[0].timestamp.getTime(),
+      updatedAt: Date.now(),
+      entryCount: count,
+      preview: existing?.preview || firstUserText || entries[0].text,
+    } satisfies StoredConversation);
+
+    await transactionDone(tx);
+  }
+
+  /**
+   * Keep the recording of one entry; replaces any previous one. Without a conversation id
+   * it waits until saveEntries archives the entry.
+   */
+  async saveAudio(conversationId: string | null, entryId: string, blob: Blob): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([AUDIO, ENTRIES], 'readwrite');
+
+    tx.objectStore(AUDIO).put({
+      conversationId: conversationId ?? PENDING_CONVERSATION,
+      entryId,
+      blob,
+      size: blob.size,
+      createdAt: Date.now(),
+    } satisfies StoredAudio);
+
+    // The entry may already be archived; flag it so the history shows a play button
+    if (conversationId) {
+      const entries = tx.objectStore(ENTRIES);
+      const archived = await promisify(entries.get([conversationId, entryId]) as IDBRequest<StoredEntry | undefined>);
+      if (archived) {
+        entries.put({ ...archived, hasAudio: true });
+      }
+    }
+
+    await transactionDone(tx);
+  }
+
+  async getAudio(conversationId: string, entryId: string): Promise<Blob | null> {
+    const db = await this.open();
+    const tx = db.transaction(AUDIO, 'readonly');
+    const audio = await promisify(
+      tx.objectStore(AUDIO).get([conversationId, entryId]) as IDBRequest<StoredAudio | undefined>
+    );
+    return audio?.blob ?? null;
+  }
+
+  /**
+   * Conversations, most recently updated first
+   */
+  async listConversations(): Promise<StoredConversation[]> {
+    const db = await this.open();
+    const tx = db.transaction(CONVERSATIONS, 'readonly');
+    const all = await promisify(tx.objectStore(CONVERSATIONS).index('updatedAt').getAll() as IDBRequest<StoredConversation[]>);
+    return all.reverse();
+  }
+
+  async getConversation(conversationId: string): Promise<StoredConversation | null> {
+    const db = await this.open();
+    const tx = db.transaction(CONVERSATIONS, 'readonly');
+    const conversation = await promisify(
+      tx.objectStore(CONVERSATIONS).get(conversationId) as IDBRequest<StoredConversation | undefined>
+    );
+    return conversation ?? null;
+  }
+
+  /**
+   * A conversation's entries in the order they happened
+   */
+  async getEntries(conversationId: string): Promise<StoredEntry[]> {
+    const db = await this.open();
+    const tx = db.transaction(ENTRIES, 'readonly');
+    const entries = await promisify(
+      tx.objectStore(ENTRIES).index('conversationId').getAll(IDBKeyRange.only(conversationId)) as IDBRequest<StoredEntry[]>
+    );
+    return entries.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Full-text search: entries containing every word of the query (prefix match on the last)
+   */
+  async search(query: string, limit = MAX_SEARCH_RESULTS): Promise<TranscriptSearchResult[]> {
+    const words = tokenize(query);
+    if (words.length === 0) return [];
+
+    const db = await this.open();
+    const tx = db.transaction([ENTRIES, CONVERSATIONS], 'readonly');
+
+    // The longest word is the most selective one to scan the index with
+    const [seed] = [...words].sort((a, b) => b.length - a.length);
+    const seedIsPrefix = seed === words[words.length - 1];
+    const range = seedIsPrefix ? IDBKeyRange.bound(seed, `${seed}\uffff`) : IDBKeyRange.only(seed);
+
+    const candidates = await promisify(tx.objectStore(ENTRIES).index('tokens').getAll(range) as IDBRequest<StoredEntry[]>);
+
+    const matchesWord = (entry: StoredEntry, word: string, prefix: boolean) =>
+      entry.tokens.some((token) => (prefix ? token.startsWith(word) : token === word));
+
+    const seen = new Set<string>();
+    const matches = candidates.filter((entry) => {
+      const key = `${entry.conversationId}/${entry.id}`;
+      if (seen.has(key)) return false; // multiEntry prefix ranges can hit an entry twice
+      seen.add(key);
+      return words.every((word, i) => matchesWord(entry, word, i === words.length - 1));
+    });
+
+    matches.sort((a, b) => b.timestamp - a.timestamp);
+
+    const conversations = tx.objectStore(CONVERSATIONS);
+    const results: TranscriptSearchResult[] = [];
+    for (const entry of matches.slice(0, limit)) {
+      const conversation = await promisify(conversations.get(entry.conversationId) as IDBRequest<StoredConversation | undefined>);
+      if (conversation) {
+        results.push({ conversation, entry });
+      }
+    }
+    return results;
+  }
+
+  async deleteConversation(conversationId: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([CONVERSATIONS, ENTRIES, AUDIO], 'readwrite');
+    await this.deleteInTransaction(tx, conversationId);
+    await transactionDone(tx);
+  }
+
+  /**
+   * Apply the retention limits: conversation count and age, then the audio budget
+   */
+  async enforceRetention(now = Date.now()): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([CONVERSATIONS, ENTRIES, AUDIO], 'readwrite');
+
+    const conversations = await promisify(
+      tx.objectStore(CONVERSATIONS).index('updatedAt').getAll() as IDBRequest<StoredConversation[]>
+    );
+    const newestFirst = conversations.reverse();
+    const expired = newestFirst.filter(
+      (conversation, index) =>
+        index >= this.retention.maxConversations || now - conversation.updatedAt > this.retention.maxAgeMs
+    );
+
+    for (const conversation of expired) {
+      await this.deleteInTransaction(tx, conversation.id);
+    }
+
+    // Audio is the bulk of the archive: drop the oldest recordings until under budget,
+    // unflagging their entries so the history stops offering playback
+    const audioStore = tx.objectStore(AUDIO);
+    const entryStore = tx.objectStore(ENTRIES);
+    const audio = await promisify(audioStore.index('createdAt').getAll() as IDBRequest<StoredAudio[]>);
+    let total = audio.reduce((sum, item) => sum + item.size, 0);
+    for (const item of audio) {
+      if (total <= this.retention.maxAudioBytes) break;
+      audioStore.delete([item.conversationId, item.entryId]);
+      total -= item.size;
+
+      const entry = await promisify(
+        entryStore.get([item.conversationId, item.entryId]) as IDBRequest<StoredEntry | undefined>
+      );
+      if (entry) {
+        entryStore.put({ ...entry, hasAudio: false });
+      }
+    }
+
+    await transactionDone(tx);
+
+    if (expired.length > 0) {
+      console.log(`[TranscriptStore] Removed ${expired.length} expired conversation(s)`);
+    }
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([CONVERSATIONS, ENTRIES, AUDIO], 'readwrite');
+    tx.objectStore(CONVERSATIONS).clear();
+    tx.objectStore(ENTRIES).clear();
+    tx.objectStore(AUDIO).clear();
+    await transactionDone(tx);
+  }
+
+  private async deleteInTransaction(tx: IDBTransaction, conversationId: string): Promise<void> {
+    const entryStore = tx.objectStore(ENTRIES);
+    const audioStore = tx.objectStore(AUDIO);
+
+    const entries = await promisify(
+      entryStore.index('conversationId').getAll(IDBKeyRange.only(conversationId)) as IDBRequest<StoredEntry[]>
+    );
+    for (const entry of entries) {
+      entryStore.delete([conversationId, entry.id]);
+      if (entry.hasAudio) {
+        audioStore.delete([conversationId, entry.id]);
+      }
+    }
+    tx.objectStore(CONVERSATIONS).delete(conversationId);
+  }
+}
+
+// Export singleton instance
+export const transcriptStore = new TranscriptStore();
+export default transcriptStore;
@@ -0,0 +1,236 @@
+/**
+ * Voice Activity Detector
+ * Frame-based speech detection for the voice agent
+ *
+ * The default detector combines short-term energy (RMS) with the zero-crossing rate:
+ * - the first `calibrationMs` of audio estimate the room's noise floor, which then keeps
+ *   adapting slowly on non-speech frames
+ * - a frame is speech when its energy clears both `minEnergy` and `noiseFloor * energyRatio`
+ *   and its zero-crossing rate is below `maxZeroCrossingRate` (broadband hiss and clicks
+ *   cross zero far more often than voice)
+ * - `speech_start` fires after `minSpeechMs` of speech and carries the last `preRollMs` of
+ *   audio so word onsets aren't clipped; `speech_end` fires after `hangoverMs` of silence
+ *
+ * Detectors are plain objects fed Float32 PCM frames, so they can be driven by an
+ * AnalyserNode, an AudioWorklet or synthetic buffers alike. Time is counted from the frames;
+ * a source that skips audio between frames passes how much time each frame stands for.
+ */
+
+export type VadEvent =
+  | { type: 'speech_start'; timestamp: number; preRoll: Float32Array[] }
+  | { type: 'speech_end'; timestamp: number; duration: number };
+
+export interface VadFrameResult {
+  rms: number;
+  zeroCrossingRate: number;
+  isSpeech: boolean; // this frame, before start/hangover smoothing
+  speaking: boolean; // smoothed state after this frame
+  event: VadEvent | null;
+}
+
+export interface VoiceActivityDetector {
+  // durationMs defaults to the frame's length at sampleRate
+  process(frame: Float32Array, durationMs?: number): VadFrameResult;
+  reset(): void;
+  readonly speaking: boolean;
+  readonly noiseFloor: number;
+}
+
+export interface VoiceActivityDetectorOptions {
+  sampleRate: number;
+  calibrationMs?: number;
+  minEnergy?: number; // absolute RMS floor (0-1) below which nothing is speech
+  energyRatio?: number; // how far above the noise floor speech must be
+  maxZeroCrossingRate?: number; // crossings per sample
+  minSpeechMs?: number;
+  hangoverMs?: number;
+  preRollMs?: number;
+}
+
+export const DEFAULT_VAD_OPTIONS: Required<Omit<VoiceActivityDetectorOptions, 'sampleRate'>> = {
+  calibrationMs: 500,
+  minEnergy: 0.01,
+  energyRatio: 3,
+  maxZeroCrossingRate: 0.35,
+  minSpeechMs: 60,
+  hangoverMs: 1500,
+  preRollMs: 300,
+};
+
+// Once speaking, frames only need this fraction of the start threshold (hysteresis)
+const SPEAKING_THRESHOLD_FACTOR = 0.7;
+// Weight of each new non-speech frame in the running noise floor; the floor falls quickly
+// but rises slowly so a burst of loud non-speech doesn't lock out the next word
+const NOISE_FLOOR_RISE = 0.01;
+const NOISE_FLOOR_FALL = 0.1;
+// Percentile of calibration frames used as the noise floor, robust to an early word
+const CALIBRATION_PERCENTILE = 0.2;
+
+/**
+ * Root mean square of a frame (0-1 for normalised PCM)
+ */
+export function computeRms(frame: Float32Array): number {
+  if (frame.length === 0) return 0;
+
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) {
+    sum += frame[i] * frame[i];
+  }
+  return Math.sqrt(sum / frame.length);
+}
+
+/**
+ * Sign changes per sample
+ */
+export function computeZeroCrossingRate(frame: Float32Array): number {
+  if (frame.length < 2) return 0;
+
+  let crossings = 0;
+  for (let i = 1; i < frame.length; i++) {
+    if ((frame[i - 1] >= 0) !== (frame[i] >= 0)) {
+      crossings++;
+    }
+  }
+  return crossings / (frame.length - 1);
+}
+
+class EnergyZcrVoiceActivityDetector implements VoiceActivityDetector {
+  private options: Required<VoiceActivityDetectorOptions>;
+
+  private elapsedMs = 0;
+  private calibrationRms: number[] = [];
+  private floor = 0;
+  private isSpeaking = false;
+  private speechRunMs = 0;
+  private silenceRunMs = 0;
+  private speechStartedAt = 0;
+  private preRoll: Array<{ frame: Float32Array; ms: number }> = [];
+  private preRollMs = 0;
+
+  constructor(options: VoiceActivityDetectorOptions) {
+    this.options = { ...DEFAULT_VAD_OPTIONS, ...options };
+  }
+
+  get speaking(): boolean {
+    return this.isSpeaking;
+  }
+
+  get noiseFloor(): number {
+    return this.floor;
+  }
+
+  process(frame: Float32Array, durationMs?: number): VadFrameResult {
+    const { sampleRate, calibrationMs, minEnergy, energyRatio, maxZeroCrossingRate } = this.options;
+
+    const frameMs = durationMs ?? (frame.length / sampleRate) * 1000;
+    const rms = computeRms(frame);
+    const zeroCrossingRate = computeZeroCrossingRate(frame);
+    this.elapsedMs += frameMs;
+
+    if (this.elapsedMs <= calibrationMs) {
+      this.calibrate(rms);
+    }
+
+    const threshold = Math.max(minEnergy, this.floor * energyRatio)
+      * (this.isSpeaking ? SPEAKING_THRESHOLD_FACTOR : 1);
+    const isSpeech = rms >= threshold && zeroCrossingRate <= maxZeroCrossingRate;
+
+    if (!isSpeech && this.elapsedMs > calibrationMs) {
+      const rate = rms > this.floor ? NOISE_FLOOR_RISE : NOISE_FLOOR_FALL;
+      this.floor += (rms - this.floor) * rate;
+    }
+
+    const event = this.isSpeaking
+      ? this.updateSpeaking(isSpeech, frameMs)
+      : this.updateSilent(isSpeech, frameMs);
+
+    if (!this.isSpeaking) {
+      this.pushPreRoll(frame, frameMs);
+    }
+
+    return {
+      rms,
+      zeroCrossingRate,
+      isSpeech,
+      speaking: this.isSpeaking,
+      event,
+    };
+  }
+
+  reset(): void {
+    this.elapsedMs = 0;
+    this.calibrationRms = [];
+    this.floor = 0;
+    this.isSpeaking = false;
+    this.speechRunMs = 0;
+    this.silenceRunMs = 0;
+    this.speechStartedAt = 0;
+    this.preRoll = [];
+    this.preRollMs = 0;
+  }
+
+  private calibrate(rms: number): void {
+    this.calibrationRms.push(rms);
+
+    const sorted = [...this.calibrationRms].sort((a, b) => a - b);
+    this.floor = sorted[Math.floor((sorted.length - 1) * CALIBRATION_PERCENTILE)];
+  }
+
+  private updateSilent(isSpeech: boolean, frameMs: number): VadEvent | null {
+    if (!isSpeech) {
+      this.speechRunMs = 0;
+      return null;
+    }
+
+    this.speechRunMs += frameMs;
+    if (this.speechRunMs < this.options.minSpeechMs) return null;
+
+    this.isSpeaking = true;
+    this.silenceRunMs = 0;
+    this.speechStartedAt = this.elapsedMs - this.speechRunMs;
+
+    const preRoll = this.preRoll;
+    this.preRoll = [];
+    this.preRollMs = 0;
+
+    return { type: 'speech_start', timestamp: this.speechStartedAt, preRoll: preRoll.map((item) => item.frame) };
+  }
+
+  private updateSpeaking(isSpeech: boolean, frameMs: number): VadEvent | null {
+    if (isSpeech) {
+      this.silenceRunMs = 0;
+      return null;
+    }
+
+    this.silenceRunMs += frameMs;
+    if (this.silenceRunMs < this.options.hangoverMs) return null;
+
+    this.isSpeaking = false;
+    this.speechRunMs = 0;
+
+    // Speech ended where the trailing silence began
+    const endedAt = this.elapsedMs - this.silenceRunMs;
+    return { type: 'speech_end', timestamp: endedAt, duration: endedAt - this.speechStartedAt };
+  }
+
+  private pushPreRoll(frame: Float32Array, frameMs: number): void {
+    this.preRoll.push({ frame: frame.slice(), ms: frameMs });
+    this.preRollMs += frameMs;
+
+    // Drop the oldest frames while what remains still covers the pre-roll window
+    while (this.preRoll.length > 1) {
+      const oldestMs = this.preRoll[0].ms;
+      if (this.preRollMs - oldestMs < this.options.preRollMs) break;
+
+      this.preRoll.shift();
+      this.preRollMs -= oldestMs;
+    }
+  }
+}
+
+/**
+ * Create the default energy + zero-crossing detector
+ */
+export function createVoiceActivityDetector(options: VoiceActivityDetectorOptions): VoiceActivityDetector {
+  return new EnergyZcrVoiceActivityDetector(options);
+}
@@ -0,0 +1,319 @@
+/**
+ * Voice Protocol
+ * Typed, versioned message layer for the RENUS voice socket
+ *
+ * Every frame is JSON with a `type` discriminator. The message types live in types/voice;
+ * the zod schemas here mirror them so incoming frames are validated at runtime and
+ * outgoing frames can't drift from the contract. On open the client sends `hello` with its
+ * protocol version; the server answers `hello_ack` with the version it speaks.
+ */
+
+import { z } from 'zod';
+import type { ClientMessage, HelloAckMessage, HelloMessage, ServerMessage } from '../types/voice';
+
+export const PROTOCOL_VERSION = 1;
+export const PROTOCOL_CLIENT = 'renus-web';
+
+// Python backends send null for unset fields; normalise them to undefined
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  schema.nullish().transform((value) => value ?? undefined);
+
+const agentStateSchema = z.enum(['idle', 'listening', 'thinking', 'speaking']);
+
+const latencySchema = z.object({
+  stt: z.number(),
+  agent: z.number(),
+  tts: z.number(),
+  total: z.number(),
+});
+
+// ============================================================================
+// Client → server
+// ============================================================================
+
+const helloSchema = z.object({
+  type: z.literal('hello'),
+  protocol_version: z.number().int(),
+  client: z.string(),
+  locale: z.string().optional(),
+});
+
+const audioSchema = z.object({
+  type: z.literal('audio'),
+  audio: z.string(),
+  format: z.string(),
+  sequence: z.number().int().nonnegative().optional(),
+  timestamp: z.number().nonnegative().optional(),
+});
+
+const audioStartSchema = z.object({
+  type: z.literal('audio_start'),
+  format: z.string(),
+  sample_rate: z.number().int().positive().optional(),
+  channels: z.number().int().positive().optional(),
+});
+
+const audioEndSchema = z.object({
+  type: z.literal('audio_end'),
+  total_chunks: z.number().int().nonnegative(),
+});
+
+const textSchema = z.object({
+  type: z.literal('text'),
+  text: z.string().min(1),
+  conversation_id: z.string().nullable().optional(),
+});
+
+const interruptSchema = z.object({
+  type: z.literal('interrupt'),
+  conversation_id: z.string().nullable(),
+  playback_offset_ms: z.number().nonnegative(),
+});
+
+const pingSchema = z.object({
+  type: z.literal('ping'),
+  timestamp: z.number(),
+});
+
+const sessionResumeSchema = z.object({
+  type: z.literal('session_resume'),
+  conversation_id: z.string(),
+  last_sequence: z.number().int(),
+});
+
+const transcriptCorrectionSchema = z.object({
+  type: z.literal('transcript_correction'),
+  conversation_id: z.string().nullable(),
+  sequence: z.number().int().optional(),
+  original_text: z.string(),
+  corrected_text: z.string().min(1),
+});
+
+export const clientMessageSchema = z.discriminatedUnion('type', [
+  helloSchema,
+  audioSchema,
+  audioStartSchema,
+  audioEndSchema,
+  textSchema,
+  interruptSchema,
+  pingSchema,
+  sessionResumeSchema,
+  transcriptCorrectionSchema,
+]);
+
+// ============================================================================
+// Server → client
+// ============================================================================
+
+const helloAckSchema = z.object({
+  type: z.literal('hello_ack'),
+  protocol_version: z.number().int(),
+  min_protocol_version: optional(z.number().int()),
+  session_id: optional(z.string()),
+});
+
+const responseSchema = z.object({
+  type: z.literal('response'),
+  text: optional(z.string()),
+  state: optional(agentStateSchema),
+  audio_base64: optional(z.string()),
+  format: optional(z.string()), // audio format of audio_base64, e.g. 'mp3'
+  sample_rate: optional(z.number()),
+  conversation_id: optional(z.string()),
+  lead_id: optional(z.string()),
+  functionalities: optional(z.array(z.string())),
+  latency: optional(latencySchema),
+  sequence: optional(z.number().int()),
+  timestamp: optional(z.string()),
+  replayed: optional(z.boolean()),
+});
+
+const stateSchema = z.object({
+  type: z.literal('state'),
+  state: agentStateSchema,
+  sequence: optional(z.number().int()),
+  timestamp: optional(z.string()),
+  replayed: optional(z.boolean()),
+});
+
+const audioChunkSchema = z.object({
+  type: z.literal('audio_chunk'),
+  audio_base64: z.string(),
+  sequence: z.number().int().nonnegative(),
+  is_final: optional(z.boolean()),
+  format: optional(z.string()), // e.g. 'mp3' or 'pcm16'
+  sample_rate: optional(z.number()),
+});
+
+const transcriptWordSchema = z.object({
+  word: z.string(),
+  confidence: z.number().min(0).max(1),
+  start: optional(z.number()),
+  end: optional(z.number()),
+});
+
+const transcriptionSchema = z.object({
+  type: z.literal('transcription'),
+  text: z.string(),
+  speaker: optional(z.enum(['user', 'agent'])),
+  is_final: optional(z.boolean()),
+  words: optional(z.array(transcriptWordSchema)),
+  conversation_id: optional(z.string()),
+  sequence: optional(z.number().int()),
+  timestamp: optional(z.string()),
+  replayed: optional(z.boolean()),
+});
+
+const responseCompleteSchema = z.object({
+  type: z.literal('response_complete'),
+  conversation_id: optional(z.string()),
+  latency: optional(latencySchema),
+  sequence: optional(z.number().int()),
+});
+
+const errorSchema = z.object({
+  type: z.literal('error'),
+  error: z.string(),
+  code: optional(z.string()),
+  recoverable: optional(z.boolean()),
+  timestamp: optional(z.string()),
+});
+
+const sessionResumedSchema = z.object({
+  type: z.literal('session_resumed'),
+  conversation_id: z.string(),
+  lead_id: optional(z.string()),
+  history: z.array(z.object({
+    speaker: z.enum(['user', 'agent']),
+    text: z.string(),
+    sequence: z.number().int(),
+    timestamp: optional(z.string()),
+  })),
+  last_sequence: optional(z.number().int()),
+});
+
+const pongSchema = z.object({
+  type: z.literal('pong'),
+  timestamp: optional(z.number()),
+});
+
+export const serverMessageSchema = z.discriminatedUnion('type', [
+  helloAckSchema,
+  responseSchema,
+  stateSchema,
+  audioChunkSchema,
+  transcriptionSchema,
+  responseCompleteSchema,
+  errorSchema,
+  sessionResumedSchema,
+  pongSchema,
+]);
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+export type VoiceProtocolErrorCode =
+  | 'invalid_json' // frame is not JSON
+  | 'invalid_frame' // JSON that doesn't match any server message
+  | 'invalid_outgoing' // a client message failed validation before sending
+  | 'version_mismatch'; // server speaks an incompatible protocol version
+
+export class VoiceProtocolError extends Error {
+  readonly code: VoiceProtocolErrorCode;
+  readonly frame?: unknown;
+  readonly issues?: z.ZodIssue[];
+
+  constructor(
+    code: VoiceProtocolErrorCode,
+    message: string,
+    details: { frame?: unknown; issues?: z.ZodIssue[] } = {}
+  ) {
+    super(message);
+    this.name = 'VoiceProtocolError';
+    this.code = code;
+    this.frame = details.frame;
+    this.issues = details.issues;
+  }
+}
+
+// ============================================================================
+// Encoding / decoding
+// ============================================================================
+
+function describeIssues(issues: z.ZodIssue[]): string {
+  return issues
+    .map((issue) => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+}
+
+/**
+ * Parse and validate an incoming frame. Throws VoiceProtocolError when invalid.
+ */
+export function parseServerMessage(data: unknown): ServerMessage {
+  let json: unknown;
+
+  try {
+    json = typeof data === 'string' ? JSON.parse(data) : data;
+  } catch {
+    throw new VoiceProtocolError('invalid_json', 'Received a frame that is not valid JSON', { frame: data });
+  }
+
+  const result = serverMessageSchema.safeParse(json);
+  if (!result.success) {
+    const type = (json as { type?: unknown } | null)?.type;
+    throw new VoiceProtocolError(
+      'invalid_frame',
+      `Invalid ${typeof type === 'string' ? `'${type}'` : 'untyped'} frame: ${describeIssues(result.error.issues)}`,
+      { frame: json, issues: result.error.issues }
+    );
+  }
+
+  return result.data as ServerMessage;
+}
+
+/**
+ * Validate and serialize an outgoing message. Throws VoiceProtocolError when invalid.
+ */
+export function encodeClientMessage(message: ClientMessage): string {
+  const result = clientMessageSchema.safeParse(message);
+  if (!result.success) {
+    throw new VoiceProtocolError(
+      'invalid_outgoing',
+      `Invalid '${message.type}' message: ${describeIssues(result.error.issues)}`,
+      { frame: message, issues: result.error.issues }
+    );
+  }
+
+  return JSON.stringify(result.data);
+}
+
+/**
+ * The `hello` frame sent as soon as the socket opens; `locale` (BCP 47, e.g. "pt-BR") tells
+ * the server which language to transcribe and answer in
+ */
+export function createHello(locale?: string): HelloMessage {
+  return {
+    type: 'hello',
+    protocol_version: PROTOCOL_VERSION,
+    client: PROTOCOL_CLIENT,
+    ...(locale && { locale }),
+  };
+}
+
+/**
+ * Check a `hello_ack`; returns an error when the server can't talk to this client
+ */
+export function checkHelloAck(ack: HelloAckMessage): VoiceProtocolError | null {
+  const minVersion = ack.min_protocol_version ?? ack.protocol_version;
+
+  if (PROTOCOL_VERSION < minVersion || PROTOCOL_VERSION > ack.protocol_version) {
+    return new VoiceProtocolError(
+      'version_mismatch',
+      `Server supports protocol ${minVersion === ack.protocol_version ? `v${minVersion}` : `v${minVersion}-v${ack.protocol_version}`}, client speaks v${PROTOCOL_VERSION}`,
+      { frame: ack }
+    );
+  }
+
+  return null;
+}
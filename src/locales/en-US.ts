@@ -0,0 +1,391 @@
+/**
+ * English (US) messages
+ */
+import type { MessageKey } from './pt-BR';
+
+export const enUS: Record<MessageKey, string> = {
+  // Common
+  'common.you': 'You',
+  'common.agent': 'RENUS',
+  'common.loading': 'Loading...',
+  'common.processing': 'Processing...',
+  'common.back': 'Back',
+  'common.clear': 'Clear',
+  'common.connected': 'Connected',
+  'common.disconnected': 'Disconnected',
+
+  // Navigation
+  'nav.overview': 'Overview',
+  'nav.voice': 'Voice Agent',
+  'nav.leads': 'Leads',
+  'nav.responses': 'Responses',
+  'nav.functionalities': 'Functionalities',
+  'nav.insights': 'Insights',
+  'nav.feedbacks': 'Feedback',
+  'nav.technicalDocument': 'Technical Document',
+  'nav.settings': 'Settings',
+
+  // Settings
+  'config.title': 'RENUS System Settings',
+  'config.system': 'System',
+  'config.language': 'Language',
+  'config.languagePlaceholder': 'Select a language',
+  'config.maxSession': 'Maximum Session Time (min)',
+  'config.themeColor': 'Main Theme Color',
+  'config.coreSaved': 'RENUS Core settings updated successfully!',
+  'config.coreSaveFailed': 'Failed to save settings',
+
+  // Error handler
+  'errors.network': 'Connection error. Check your internet connection and try again.',
+  'errors.timeout': 'The request took too long. Please try again.',
+  'errors.cancelled': 'The request was cancelled.',
+  'errors.rateLimited': 'Too many requests. Wait a moment and try again.',
+  'errors.unauthorized': 'Session expired. Please log in again.',
+  'errors.forbidden': 'You do not have permission to perform this action.',
+  'errors.notFound': 'Resource not found.',
+  'errors.validation': 'Invalid data. Check the fields and try again.',
+  'errors.server': 'Server error. Please try again later.',
+  'errors.unknown': 'An unexpected error occurred.',
+  'errors.title.network': 'Connection Error',
+  'errors.title.unauthorized': 'Unauthorized',
+  'errors.title.forbidden': 'Access Denied',
+  'errors.title.notFound': 'Not Found',
+  'errors.title.validation': 'Invalid Data',
+  'errors.title.server': 'Server Error',
+  'errors.title.timeout': 'Timed Out',
+  'errors.title.rateLimited': 'Too Many Requests',
+  'errors.title.unknown': 'Error',
+  'errors.validationGeneric': 'Validation error',
+  'errors.field': 'field',
+  'errors.op.login': 'Login failed. Check your credentials.',
+  'errors.op.logout': 'Failed to log out.',
+  'errors.op.fetch': 'Failed to load data.',
+  'errors.op.create': 'Failed to create record.',
+  'errors.op.update': 'Failed to update record.',
+  'errors.op.delete': 'Failed to delete record.',
+  'errors.op.upload': 'Failed to upload the file.',
+  'errors.op.download': 'Failed to download the file.',
+  'errors.op.websocket': 'WebSocket connection failed.',
+  'errors.load.dashboard': 'Failed to load dashboard',
+  'errors.load.leads': 'Failed to load leads',
+  'errors.load.responses': 'Failed to load responses',
+  'errors.load.functionalities': 'Failed to load functionalities',
+  'errors.load.agentConfig': 'Failed to load agent settings',
+  'errors.load.insights': 'Failed to load insights',
+  'errors.load.feedbacks': 'Failed to load feedback',
+  'errors.save.agentConfig': 'Failed to update agent settings',
+  'errors.save.lead': 'Failed to create lead',
+  'errors.clipboard': 'Copy failed. Check the browser permissions.',
+  'clipboard.copied': 'Copied to clipboard!',
+
+  // Error boundary / 404
+  'errorBoundary.title': 'Something went wrong',
+  'errorBoundary.description': 'Sorry, an unexpected error occurred. Please try again.',
+  'errorBoundary.retry': 'Try Again',
+  'errorBoundary.reload': 'Reload Page',
+  'errorBoundary.home': 'Back to the home page',
+  'notFound.message': 'Oops! Page not found.',
+  'notFound.home': 'Return Home (RENUS Core)',
+
+  // Browser speech (home page)
+  'speech.greeting': "Hi, I'm the RENUS assistant. I'm here to talk with you about ideas and possibilities. Shall we begin?",
+  'speech.listening': 'Listening...',
+  'speech.echo': 'You said: {transcript}. Processing your request...',
+  'speech.recognitionError': 'Speech recognition error. Please try again.',
+
+  // Voice page
+  'voice.pageLabel': 'RENUS voice interaction page',
+  'voice.title': 'RENUS Voice Agent',
+  'voice.subtitle': 'Talk to the agent by voice',
+  'voice.navControls': 'Navigation controls',
+  'voice.voiceMode': 'Voice mode',
+  'voice.textMode': 'Text mode',
+  'voice.switchToVoice': 'Switch to voice mode',
+  'voice.switchToText': 'Switch to text mode',
+  'voice.reconnect': 'Reconnect to the server',
+  'voice.showHistory': 'Show history',
+  'voice.hideHistory': 'Hide history',
+  'voice.showHistoryLabel': 'Show conversation history',
+  'voice.hideHistoryLabel': 'Hide conversation history',
+  'voice.recordingControls': 'Recording controls',
+  'voice.stopRecordingLabel': 'Stop voice recording',
+  'voice.interruptLabel': 'Interrupt the agent and speak',
+  'voice.startRecordingLabel': 'Start voice recording',
+  'voice.stop': 'Stop',
+  'voice.talk': 'Talk',
+  'voice.connection.connecting': 'connecting',
+  'voice.connection.connected': 'connected',
+  'voice.connection.reconnecting': 'reconnecting (attempt {attempt})',
+  'voice.connection.disconnected': 'disconnected',
+  'voice.connection.error': 'error',
+  'voice.conversationLabel': 'Conversation ID: {id}',
+  'voice.conversationShort': 'Conversation: {id}...',
+  'voice.recording': 'Recording',
+  'voice.playing': 'Playing',
+  'voice.shortcutsLabel': 'Keyboard shortcuts',
+  'voice.shortcuts': 'Shortcuts: Space (record/interrupt), Esc (stop), Ctrl+H (history)',
+  'voice.toast.sessionRestored': 'Session Restored',
+  'voice.toast.sessionRestoredDescription': 'The previous conversation context was restored',
+  'voice.toast.error': 'Error',
+  'voice.toast.errorDescription': 'An error occurred',
+  'voice.toast.connectionError': 'Connection Error',
+  'voice.toast.connectionErrorDescription': 'Failed to connect to the server',
+  'voice.toast.micError': 'Microphone Error',
+  'voice.toast.micErrorDescription': 'Could not access the microphone. Check the permissions.',
+  'voice.toast.reconnecting': 'Reconnecting',
+  'voice.toast.reconnectingDescription': 'Trying to reconnect to the server...',
+  'voice.toast.historyCleared': 'History Cleared',
+  'voice.toast.historyClearedDescription': 'The conversation history was cleared',
+  'voice.toast.offline': 'Offline Mode',
+  'voice.toast.offlineDescription': 'Server unavailable. The conversation continues with the browser voice.',
+
+  // Sphere
+  'sphere.idle': 'Click to talk',
+  'sphere.listening': 'Listening...',
+  'sphere.speaking': 'Speaking...',
+  'sphere.speakingInterruptible': 'Speaking... (tap to interrupt)',
+
+  // Text mode
+  'textChat.title': 'Text Mode',
+  'textChat.subtitle': 'Chat with the agent by text',
+  'textChat.muteReplies': 'Mute replies',
+  'textChat.speakReplies': 'Hear replies',
+  'textChat.muteRepliesLabel': 'Mute the reply audio',
+  'textChat.speakRepliesLabel': 'Hear the reply audio',
+  'textChat.empty': 'No messages yet. Type something to start.',
+  'textChat.placeholder': 'Type your message...',
+  'textChat.waiting': 'Waiting for connection...',
+  'textChat.inputLabel': 'Message field',
+  'textChat.send': 'Send message',
+  'textChat.reconnecting': 'Disconnected. Trying to reconnect...',
+
+  // Conversation history
+  'history.title': 'History',
+  'history.current': 'Current',
+  'history.past': 'Previous',
+  'history.empty': 'No conversation yet',
+  'history.functionalities': 'Identified Functionalities',
+  'history.unsupported': 'This browser cannot save conversations locally',
+  'history.searchPlaceholder': 'Search conversations...',
+  'history.searchLabel': 'Search saved conversations',
+  'history.noResults': 'No results',
+  'history.noSaved': 'No saved conversations',
+  'history.messageCount': '{count} messages',
+  'history.currentTag': 'current',
+  'history.delete': 'Delete conversation',
+  'history.deleteLabel': 'Delete conversation from local history',
+  'history.playAudio': 'Play audio',
+  'history.stopAudio': 'Stop audio',
+
+  // Transcript export
+  'export.button': 'Export',
+  'export.label': 'Export conversation',
+  'export.document': 'Document',
+  'export.subtitles': 'Subtitles',
+  'export.pdf': 'PDF (print)',
+  'export.failed': 'Failed to export the conversation',
+  'export.heading': 'RENUS Conversation',
+  'export.conversation': 'Conversation',
+  'export.lead': 'Lead',
+  'export.exportedAt': 'Exported at',
+  'export.transcript': 'Transcript',
+  'export.dateFormat': 'MM/dd/yyyy h:mm a',
+
+  // Latency panel
+  'latency.title': 'Latency',
+  'latency.stage': 'Stage',
+  'latency.server': 'Server · {stage}',
+  'latency.mark.first_transcription': 'Transcription',
+  'latency.mark.response': 'Response',
+  'latency.mark.first_audio': '1st audio',
+  'latency.mark.playback_start': 'Playback',
+  'latency.stage.stt': 'STT',
+  'latency.stage.agent': 'Agent',
+  'latency.stage.tts': 'TTS',
+  'latency.stage.total': 'Total',
+  'latency.turn': 'Turn #{id} · {input}',
+  'latency.input.voice': 'voice',
+  'latency.input.text': 'text',
+  'latency.clientMarksLabel': 'Client marks, turn {id}',
+  'latency.serverStagesLabel': 'Server stages, turn {id}',
+  'latency.empty': 'No turns measured yet',
+
+  // Offline interviewer (browser speech, server unreachable)
+  'offline.badge': 'Offline mode',
+  'offline.pending': '{count} answers waiting to be sent',
+  'offline.synced': '{count} answers sent to the server',
+  'offline.recognitionUnsupported': 'This browser cannot recognize speech. Answer in text mode.',
+  'offline.intro': "I can't reach the server, but we can keep going here. Your answers will be sent as soon as the connection is back.",
+  'offline.askNiche': 'To start: what field do you work in? For example, multi-level marketing, health care, real estate or as an independent professional.',
+  'offline.nicheAck': 'Got it, {niche}.',
+  'offline.niche.mmn': 'MLM',
+  'offline.niche.saude': 'Health',
+  'offline.niche.imobiliaria': 'Real Estate',
+  'offline.niche.profissional_liberal': 'Independent Professional',
+  'offline.niche.outros': 'Other',
+  'offline.question.mmn.1': 'How do you keep track of your distributor network today?',
+  'offline.question.mmn.2': 'Which daily task takes up most of your time?',
+  'offline.question.mmn.3': 'What kind of automation would help most with following up on customers?',
+  'offline.question.saude.1': 'How do patients book appointments today?',
+  'offline.question.saude.2': 'What are the biggest difficulties in serving your patients?',
+  'offline.question.saude.3': 'Which tasks would you like an assistant to automate?',
+  'offline.question.imobiliaria.1': 'How do you find and qualify people interested in your properties?',
+  'offline.question.imobiliaria.2': 'Which stage of a sale or rental takes most of your time?',
+  'offline.question.imobiliaria.3': 'What information would you like to receive from clients automatically?',
+  'offline.question.profissional_liberal.1': 'How do clients find you today?',
+  'offline.question.profissional_liberal.2': 'Which administrative tasks get in the way of your routine the most?',
+  'offline.question.profissional_liberal.3': 'What could a virtual assistant take care of for you?',
+  'offline.question.outros.1': 'Tell me a bit about your business and your audience.',
+  'offline.question.outros.2': 'What is the biggest challenge in your work routine today?',
+  'offline.question.outros.3': 'Which feature would make the most difference for you?',
+  'offline.question.final': 'Is there anything else you would like to add?',
+  'offline.closing': "Thanks for your answers! I'll send them as soon as the connection is back.",
+  'offline.done': 'The interview is over. When the connection is back, you can continue the conversation with RENUS.',
+
+  // Audio settings drawer
+  'audioSettings.title': 'Audio settings',
+  'audioSettings.openLabel': 'Open audio settings',
+  'audioSettings.description': 'Choose the microphone and speaker. Changes apply from the next recording.',
+  'audioSettings.unsupported': 'This browser does not allow choosing audio devices.',
+  'audioSettings.input': 'Microphone',
+  'audioSettings.output': 'Speaker',
+  'audioSettings.systemDefault': 'System default',
+  'audioSettings.unnamedInput': 'Microphone {index}',
+  'audioSettings.unnamedOutput': 'Speaker {index}',
+  'audioSettings.outputUnsupported': 'This browser always uses the default output.',
+  'audioSettings.processing': 'Processing',
+  'audioSettings.echoCancellation': 'Echo cancellation',
+  'audioSettings.noiseSuppression': 'Noise suppression',
+  'audioSettings.autoGainControl': 'Automatic gain',
+  'audioSettings.inputLevel': 'Input level',
+  'audioSettings.startTest': 'Test microphone',
+  'audioSettings.stopTest': 'Stop test',
+  'audioSettings.testHint': 'Use headphones: the test plays your voice on the chosen speaker.',
+  'audioSettings.testFailed': 'Could not test the microphone',
+  'audioSettings.inputDisconnected': 'Microphone disconnected. Using the system default.',
+  'audioSettings.outputDisconnected': 'Speaker disconnected. Using the system default.',
+
+  // Hands-free mode
+  'handsFree.enable': 'Turn on hands-free',
+  'handsFree.disable': 'Turn off hands-free',
+  'handsFree.enableLabel': 'Turn on hands-free mode (the mic reopens after each reply)',
+  'handsFree.disableLabel': 'Turn off hands-free mode',
+  'handsFree.status.awake': 'Hands-free',
+  'handsFree.status.sleeping': 'Hands-free (asleep)',
+  'handsFree.wakeWordUnavailable': 'Could not listen for the wake word. Check the microphone permission.',
+  'sphere.handsFree.awake': 'Speak whenever you like',
+  'sphere.handsFree.sleeping': 'Asleep. Click to continue',
+  'sphere.handsFree.sleepingWakeWord': 'Say "RENUS" to start',
+  'audioSettings.handsFree': 'Hands-free',
+  'audioSettings.wakeWord': 'Wake word "RENUS"',
+  'audioSettings.wakeWordHint': 'While asleep, the agent only listens again after "RENUS".',
+  'audioSettings.wakeWordUnsupported': 'This browser cannot recognize the wake word.',
+  'audioSettings.wakeWordCloud': 'Use online recognition for the wake word',
+  'audioSettings.wakeWordCloudHint': 'This browser cannot recognize speech on the device. When allowed, everything the mic hears while asleep is sent to the browser\'s speech service; otherwise a click wakes hands-free mode.',
+  'audioSettings.sleepAfter': 'Go to sleep after',
+  'audioSettings.seconds': '{count} s',
+  'audioSettings.minutes': '{count} min',
+
+  // Conversation recorder
+  'recorder.start': 'Record conversation',
+  'recorder.stop': 'Stop recording',
+  'recorder.unsupported': 'This browser cannot record the conversation',
+  'recorder.consentTitle': 'Record this conversation?',
+  'recorder.consentDescription': 'Your voice and RENUS\'s replies will be recorded together for quality review. The recording stays in this browser until you download it, and you can stop it at any time.',
+  'recorder.consentConfirm': 'I agree, record',
+  'recorder.cancel': 'Cancel',
+  'recorder.indicator': 'REC {time}',
+  'recorder.indicatorLabel': 'Recording the conversation',
+  'recorder.reviewTitle': 'Conversation recording',
+  'recorder.reviewMeta': 'Duration {duration} · consent at {consentAt}',
+  'recorder.chapters': 'Chapters',
+  'recorder.noChapters': 'No turns were captured during the recording.',
+  'recorder.downloadWebm': 'WebM + chapters',
+  'recorder.downloadWav': 'WAV',
+  'recorder.downloadFailed': 'Could not create the recording file',
+  'recorder.discard': 'Discard recording',
+  'recorder.toast.startFailed': 'Could not start recording',
+  'recorder.toast.ready': 'Recording finished',
+  'recorder.toast.readyDescription': 'Review or download it below the conversation.',
+
+  // Transcript corrections and confidence
+  'transcript.lowConfidence': '{percent}% confidence',
+  'transcript.corrected': 'corrected',
+  'transcript.originalText': 'Heard as: "{text}"',
+  'transcript.correct': 'Correct transcript',
+  'transcript.correctLabel': 'Corrected transcript',
+  'transcript.saveCorrection': 'Save correction',
+  'transcript.cancelCorrection': 'Cancel correction',
+
+  // Accessibility
+  'a11y.title': 'Accessibility',
+  'a11y.openLabel': 'Open accessibility options',
+  'a11y.captions': 'Captions of agent speech',
+  'a11y.captionSize': 'Caption size',
+  'a11y.captionSize.large': 'Large',
+  'a11y.captionSize.xLarge': 'Extra large',
+  'a11y.reducedMotion': 'Reduce motion',
+  'a11y.motion.system': 'Follow the system',
+  'a11y.motion.on': 'Always',
+  'a11y.motion.off': 'Never',
+  'a11y.playbackRate': 'Agent speech speed',
+  'a11y.playbackRateHint': 'For streamed replies, changing the speed also shifts the pitch slightly.',
+  'a11y.transcriptLabel': 'Conversation transcript',
+
+  // Authentication
+  'auth.field.name': 'Name (optional)',
+  'auth.field.email': 'Email',
+  'auth.field.password': 'Password',
+  'auth.field.newPassword': 'New password',
+  'auth.field.confirmPassword': 'Confirm password',
+  'auth.field.passwordHint': 'At least {min} characters.',
+  'auth.validation.emailRequired': 'Enter your email',
+  'auth.validation.emailInvalid': 'Invalid email',
+  'auth.validation.passwordRequired': 'Enter your password',
+  'auth.validation.passwordMin': 'The password must be at least {min} characters',
+  'auth.validation.passwordMismatch': "Passwords don't match",
+  'auth.backToLogin': 'Back to sign in',
+  'auth.login.title': 'Sign in',
+  'auth.login.description': 'Access the dashboard with your account.',
+  'auth.login.submit': 'Sign in',
+  'auth.login.failed': 'Incorrect email or password',
+  'auth.login.forgotLink': 'Forgot your password?',
+  'auth.login.noAccount': "Don't have an account?",
+  'auth.login.registerLink': 'Create account',
+  'auth.register.title': 'Create account',
+  'auth.register.description': 'Sign up to access the dashboard.',
+  'auth.register.submit': 'Create account',
+  'auth.register.success': 'Account created. Welcome!',
+  'auth.register.failed': "Couldn't create the account",
+  'auth.register.haveAccount': 'Already have an account?',
+  'auth.register.loginLink': 'Sign in',
+  'auth.forgot.title': 'Reset password',
+  'auth.forgot.description': "We'll send you a link to set a new password.",
+  'auth.forgot.submit': 'Send link',
+  'auth.forgot.failed': "Couldn't send the link",
+  'auth.forgot.sentTitle': 'Check your email',
+  'auth.forgot.sent': "If there's an account for {email}, you'll get a password reset link in a few minutes.",
+  'auth.reset.title': 'Set a new password',
+  'auth.reset.description': 'Choose the new password for your account.',
+  'auth.reset.submit': 'Save new password',
+  'auth.reset.success': 'Password changed. Sign in with the new password.',
+  'auth.reset.failed': "Couldn't reset the password. The link may have expired.",
+  'auth.reset.requestNew': 'Request a new link',
+  'auth.menu.open': 'Open account menu',
+  'auth.menu.account': 'My account',
+  'auth.menu.logout': 'Sign out',
+
+  // Roles and permissions
+  'rbac.role.admin': 'Administrator',
+  'rbac.role.analyst': 'Analyst',
+  'rbac.role.viewer': 'Viewer',
+  'rbac.denied.title': 'Restricted access',
+  'rbac.denied.message': "Your role doesn't allow opening this page. Ask an administrator if you need access.",
+  'rbac.denied.back': 'Back to overview',
+  'rbac.readOnly': 'Read-only: only administrators can change these settings.',
+
+  // Voice in several tabs
+  'voiceTab.title': 'Conversation continued in another tab',
+  'voiceTab.description': 'Only one tab at a time can talk to RENUS. The conversation goes on in the other tab; you can bring it here.',
+  'voiceTab.takeOver': 'Continue in this tab',
+};
@@ -0,0 +1,392 @@
+/**
+ * Portuguese (Brazil) messages - the reference catalog
+ * Placeholders use {name} and are filled by `t(key, params)`.
+ */
+export const ptBR = {
+  // Common
+  'common.you': 'Você',
+  'common.agent': 'RENUS',
+  'common.loading': 'Carregando...',
+  'common.processing': 'Processando...',
+  'common.back': 'Voltar',
+  'common.clear': 'Limpar',
+  'common.connected': 'Conectado',
+  'common.disconnected': 'Desconectado',
+
+  // Navigation
+  'nav.overview': 'Visão Geral',
+  'nav.voice': 'Voice Agent',
+  'nav.leads': 'Leads',
+  'nav.responses': 'Respostas',
+  'nav.functionalities': 'Funcionalidades',
+  'nav.insights': 'Insights',
+  'nav.feedbacks': 'Feedbacks',
+  'nav.technicalDocument': 'Documento Técnico',
+  'nav.settings': 'Configurações',
+
+  // Settings
+  'config.title': 'Configurações do Sistema RENUS',
+  'config.system': 'Sistema',
+  'config.language': 'Idioma',
+  'config.languagePlaceholder': 'Selecione o Idioma',
+  'config.maxSession': 'Tempo Máximo de Sessão (min)',
+  'config.themeColor': 'Cor Tema Principal',
+  'config.coreSaved': 'Configurações do RENUS Core atualizadas com sucesso!',
+  'config.coreSaveFailed': 'Falha ao salvar configurações',
+
+  // Error handler
+  'errors.network': 'Erro de conexão. Verifique sua internet e tente novamente.',
+  'errors.timeout': 'A requisição demorou muito. Tente novamente.',
+  'errors.cancelled': 'A requisição foi cancelada.',
+  'errors.rateLimited': 'Muitas requisições. Aguarde um momento e tente novamente.',
+  'errors.unauthorized': 'Sessão expirada. Faça login novamente.',
+  'errors.forbidden': 'Você não tem permissão para realizar esta ação.',
+  'errors.notFound': 'Recurso não encontrado.',
+  'errors.validation': 'Dados inválidos. Verifique os campos e tente novamente.',
+  'errors.server': 'Erro no servidor. Tente novamente mais tarde.',
+  'errors.unknown': 'Ocorreu um erro inesperado.',
+  'errors.title.network': 'Erro de Conexão',
+  'errors.title.unauthorized': 'Não Autorizado',
+  'errors.title.forbidden': 'Acesso Negado',
+  'errors.title.notFound': 'Não Encontrado',
+  'errors.title.validation': 'Dados Inválidos',
+  'errors.title.server': 'Erro no Servidor',
+  'errors.title.timeout': 'Tempo Esgotado',
+  'errors.title.rateLimited': 'Muitas Requisições',
+  'errors.title.unknown': 'Erro',
+  'errors.validationGeneric': 'Erro de validação',
+  'errors.field': 'campo',
+  'errors.op.login': 'Falha no login. Verifique suas credenciais.',
+  'errors.op.logout': 'Falha ao fazer logout.',
+  'errors.op.fetch': 'Falha ao carregar dados.',
+  'errors.op.create': 'Falha ao criar registro.',
+  'errors.op.update': 'Falha ao atualizar registro.',
+  'errors.op.delete': 'Falha ao excluir registro.',
+  'errors.op.upload': 'Falha ao fazer upload do arquivo.',
+  'errors.op.download': 'Falha ao fazer download do arquivo.',
+  'errors.op.websocket': 'Falha na conexão WebSocket.',
+  'errors.load.dashboard': 'Falha ao carregar dashboard',
+  'errors.load.leads': 'Falha ao carregar leads',
+  'errors.load.responses': 'Falha ao carregar respostas',
+  'errors.load.functionalities': 'Falha ao carregar funcionalidades',
+  'errors.load.agentConfig': 'Falha ao carregar configuração do agente',
+  'errors.load.insights': 'Falha ao carregar insights',
+  'errors.load.feedbacks': 'Falha ao carregar feedbacks',
+  'errors.save.agentConfig': 'Falha ao atualizar configuração do agente',
+  'errors.save.lead': 'Falha ao criar lead',
+  'errors.clipboard': 'Falha ao copiar. Verifique as permissões do navegador.',
+  'clipboard.copied': 'Copiado para a área de transferência!',
+
+  // Error boundary / 404
+  'errorBoundary.title': 'Algo deu errado',
+  'errorBoundary.description': 'Desculpe, ocorreu um erro inesperado. Por favor, tente novamente.',
+  'errorBoundary.retry': 'Tentar Novamente',
+  'errorBoundary.reload': 'Recarregar Página',
+  'errorBoundary.home': 'Voltar para a página inicial',
+  'notFound.message': 'Oops! Página não encontrada.',
+  'notFound.home': 'Retornar à Home (RENUS Core)',
+
+  // Browser speech (home page)
+  'speech.greeting': 'Olá, eu sou o assistente RENUS. Estou aqui para conversar com você sobre ideias e possibilidades. Vamos começar?',
+  'speech.listening': 'Ouvindo...',
+  'speech.echo': 'Você disse: {transcript}. Processando sua solicitação...',
+  'speech.recognitionError': 'Erro no reconhecimento de voz. Tente novamente.',
+
+  // Voice page
+  'voice.pageLabel': 'Página de interação por voz com RENUS',
+  'voice.title': 'RENUS Voice Agent',
+  'voice.subtitle': 'Converse com o agente por voz',
+  'voice.navControls': 'Controles de navegação',
+  'voice.voiceMode': 'Modo de voz',
+  'voice.textMode': 'Modo de texto',
+  'voice.switchToVoice': 'Alternar para modo de voz',
+  'voice.switchToText': 'Alternar para modo de texto',
+  'voice.reconnect': 'Reconectar ao servidor',
+  'voice.showHistory': 'Mostrar histórico',
+  'voice.hideHistory': 'Ocultar histórico',
+  'voice.showHistoryLabel': 'Mostrar histórico de conversação',
+  'voice.hideHistoryLabel': 'Ocultar histórico de conversação',
+  'voice.recordingControls': 'Controles de gravação',
+  'voice.stopRecordingLabel': 'Parar gravação de voz',
+  'voice.interruptLabel': 'Interromper o agente e falar',
+  'voice.startRecordingLabel': 'Iniciar gravação de voz',
+  'voice.stop': 'Parar',
+  'voice.talk': 'Falar',
+  'voice.connection.connecting': 'conectando',
+  'voice.connection.connected': 'conectado',
+  'voice.connection.reconnecting': 'reconectando (tentativa {attempt})',
+  'voice.connection.disconnected': 'desconectado',
+  'voice.connection.error': 'erro',
+  'voice.conversationLabel': 'ID da conversa: {id}',
+  'voice.conversationShort': 'Conversa: {id}...',
+  'voice.recording': 'Gravando',
+  'voice.playing': 'Reproduzindo',
+  'voice.shortcutsLabel': 'Atalhos de teclado',
+  'voice.shortcuts': 'Atalhos: Espaço (gravar/interromper), Esc (parar), Ctrl+H (histórico)',
+  'voice.toast.sessionRestored': 'Sessão Restaurada',
+  'voice.toast.sessionRestoredDescription': 'Contexto da conversa anterior foi restaurado',
+  'voice.toast.error': 'Erro',
+  'voice.toast.errorDescription': 'Ocorreu um erro',
+  'voice.toast.connectionError': 'Erro de Conexão',
+  'voice.toast.connectionErrorDescription': 'Falha na conexão com o servidor',
+  'voice.toast.micError': 'Erro no Microfone',
+  'voice.toast.micErrorDescription': 'Não foi possível acessar o microfone. Verifique as permissões.',
+  'voice.toast.reconnecting': 'Reconectando',
+  'voice.toast.reconnectingDescription': 'Tentando reconectar ao servidor...',
+  'voice.toast.historyCleared': 'Histórico Limpo',
+  'voice.toast.historyClearedDescription': 'O histórico de conversação foi limpo',
+  'voice.toast.offline': 'Modo Offline',
+  'voice.toast.offlineDescription': 'Servidor indisponível. A conversa continua com a voz do navegador.',
+
+  // Sphere
+  'sphere.idle': 'Clique para falar',
+  'sphere.listening': 'Ouvindo...',
+  'sphere.speaking': 'Falando...',
+  'sphere.speakingInterruptible': 'Falando... (toque para interromper)',
+
+  // Text mode
+  'textChat.title': 'Modo Texto',
+  'textChat.subtitle': 'Converse com o agente por texto',
+  'textChat.muteReplies': 'Silenciar respostas',
+  'textChat.speakReplies': 'Ouvir respostas',
+  'textChat.muteRepliesLabel': 'Silenciar o áudio das respostas',
+  'textChat.speakRepliesLabel': 'Ouvir o áudio das respostas',
+  'textChat.empty': 'Nenhuma mensagem ainda. Digite algo para começar.',
+  'textChat.placeholder': 'Digite sua mensagem...',
+  'textChat.waiting': 'Aguardando conexão...',
+  'textChat.inputLabel': 'Campo de mensagem',
+  'textChat.send': 'Enviar mensagem',
+  'textChat.reconnecting': 'Desconectado. Tentando reconectar...',
+
+  // Conversation history
+  'history.title': 'Histórico',
+  'history.current': 'Atual',
+  'history.past': 'Anteriores',
+  'history.empty': 'Nenhuma conversa ainda',
+  'history.functionalities': 'Funcionalidades Identificadas',
+  'history.unsupported': 'Este navegador não permite salvar conversas localmente',
+  'history.searchPlaceholder': 'Buscar nas conversas...',
+  'history.searchLabel': 'Buscar nas conversas salvas',
+  'history.noResults': 'Nenhum resultado',
+  'history.noSaved': 'Nenhuma conversa salva',
+  'history.messageCount': '{count} mensagens',
+  'history.currentTag': 'atual',
+  'history.delete': 'Excluir conversa',
+  'history.deleteLabel': 'Excluir conversa do histórico local',
+  'history.playAudio': 'Ouvir áudio',
+  'history.stopAudio': 'Parar áudio',
+
+  // Transcript export
+  'export.button': 'Exportar',
+  'export.label': 'Exportar conversa',
+  'export.document': 'Documento',
+  'export.subtitles': 'Legendas',
+  'export.pdf': 'PDF (imprimir)',
+  'export.failed': 'Falha ao exportar a conversa',
+  'export.heading': 'Conversa RENUS',
+  'export.conversation': 'Conversa',
+  'export.lead': 'Lead',
+  'export.exportedAt': 'Exportado em',
+  'export.transcript': 'Transcrição',
+  'export.dateFormat': 'dd/MM/yyyy HH:mm',
+
+  // Latency panel
+  'latency.title': 'Latência',
+  'latency.stage': 'Etapa',
+  'latency.server': 'Servidor · {stage}',
+  'latency.mark.first_transcription': 'Transcrição',
+  'latency.mark.response': 'Resposta',
+  'latency.mark.first_audio': '1º áudio',
+  'latency.mark.playback_start': 'Reprodução',
+  'latency.stage.stt': 'STT',
+  'latency.stage.agent': 'Agente',
+  'latency.stage.tts': 'TTS',
+  'latency.stage.total': 'Total',
+  'latency.turn': 'Turno #{id} · {input}',
+  'latency.input.voice': 'voz',
+  'latency.input.text': 'texto',
+  'latency.clientMarksLabel': 'Marcas do cliente, turno {id}',
+  'latency.serverStagesLabel': 'Etapas do servidor, turno {id}',
+  'latency.empty': 'Nenhum turno medido ainda',
+
+  // Offline interviewer (browser speech, server unreachable)
+  'offline.badge': 'Modo offline',
+  'offline.pending': '{count} respostas aguardando envio',
+  'offline.synced': '{count} respostas enviadas ao servidor',
+  'offline.recognitionUnsupported': 'Este navegador não reconhece voz. Responda pelo modo de texto.',
+  'offline.intro': 'Estou sem conexão com o servidor, mas podemos continuar por aqui. Suas respostas serão enviadas assim que a conexão voltar.',
+  'offline.askNiche': 'Para começar: em qual área você atua? Por exemplo, marketing multinível, saúde, imobiliária ou profissional liberal.',
+  'offline.nicheAck': 'Certo, {niche}.',
+  'offline.niche.mmn': 'MMN',
+  'offline.niche.saude': 'Saúde',
+  'offline.niche.imobiliaria': 'Imobiliária',
+  'offline.niche.profissional_liberal': 'Profissional Liberal',
+  'offline.niche.outros': 'Outros',
+  'offline.question.mmn.1': 'Como você acompanha hoje a sua rede de distribuidores?',
+  'offline.question.mmn.2': 'Qual tarefa do dia a dia mais consome o seu tempo?',
+  'offline.question.mmn.3': 'Que tipo de automação mais ajudaria no seu follow-up com clientes?',
+  'offline.question.saude.1': 'Como os pacientes agendam consultas hoje?',
+  'offline.question.saude.2': 'Quais são as maiores dificuldades no atendimento aos pacientes?',
+  'offline.question.saude.3': 'Que tarefas você gostaria que um assistente automatizasse?',
+  'offline.question.imobiliaria.1': 'Como você capta e qualifica os interessados nos imóveis?',
+  'offline.question.imobiliaria.2': 'Qual etapa da venda ou locação mais toma o seu tempo?',
+  'offline.question.imobiliaria.3': 'Que informações você gostaria de receber automaticamente dos clientes?',
+  'offline.question.profissional_liberal.1': 'Como os clientes chegam até você hoje?',
+  'offline.question.profissional_liberal.2': 'Quais tarefas administrativas mais atrapalham a sua rotina?',
+  'offline.question.profissional_liberal.3': 'O que um assistente virtual poderia resolver por você?',
+  'offline.question.outros.1': 'Conte um pouco sobre o seu negócio e o seu público.',
+  'offline.question.outros.2': 'Qual é hoje o maior desafio na sua rotina de trabalho?',
+  'offline.question.outros.3': 'Que funcionalidade faria mais diferença para você?',
+  'offline.question.final': 'Tem mais alguma coisa que você gostaria de acrescentar?',
+  'offline.closing': 'Obrigado pelas respostas! Vou enviá-las assim que a conexão voltar.',
+  'offline.done': 'A entrevista terminou. Quando a conexão voltar, você pode continuar a conversa com o RENUS.',
+
+  // Audio settings drawer
+  'audioSettings.title': 'Configurações de áudio',
+  'audioSettings.openLabel': 'Abrir configurações de áudio',
+  'audioSettings.description': 'Escolha o microfone e o alto-falante. As alterações valem a partir da próxima gravação.',
+  'audioSettings.unsupported': 'Este navegador não permite escolher dispositivos de áudio.',
+  'audioSettings.input': 'Microfone',
+  'audioSettings.output': 'Alto-falante',
+  'audioSettings.systemDefault': 'Padrão do sistema',
+  'audioSettings.unnamedInput': 'Microfone {index}',
+  'audioSettings.unnamedOutput': 'Alto-falante {index}',
+  'audioSettings.outputUnsupported': 'Este navegador sempre usa a saída padrão.',
+  'audioSettings.processing': 'Processamento',
+  'audioSettings.echoCancellation': 'Cancelamento de eco',
+  'audioSettings.noiseSuppression': 'Supressão de ruído',
+  'audioSettings.autoGainControl': 'Ganho automático',
+  'audioSettings.inputLevel': 'Nível de entrada',
+  'audioSettings.startTest': 'Testar microfone',
+  'audioSettings.stopTest': 'Parar teste',
+  'audioSettings.testHint': 'Use fones de ouvido: o teste reproduz sua voz no alto-falante escolhido.',
+  'audioSettings.testFailed': 'Não foi possível testar o microfone',
+  'audioSettings.inputDisconnected': 'Microfone desconectado. Usando o padrão do sistema.',
+  'audioSettings.outputDisconnected': 'Alto-falante desconectado. Usando o padrão do sistema.',
+
+  // Hands-free mode
+  'handsFree.enable': 'Ativar mãos livres',
+  'handsFree.disable': 'Desativar mãos livres',
+  'handsFree.enableLabel': 'Ativar o modo mãos livres (microfone reabre após cada resposta)',
+  'handsFree.disableLabel': 'Desativar o modo mãos livres',
+  'handsFree.status.awake': 'Mãos livres',
+  'handsFree.status.sleeping': 'Mãos livres (em espera)',
+  'handsFree.wakeWordUnavailable': 'Não foi possível ouvir a palavra de ativação. Verifique a permissão do microfone.',
+  'sphere.handsFree.awake': 'Pode falar quando quiser',
+  'sphere.handsFree.sleeping': 'Em espera. Clique para continuar',
+  'sphere.handsFree.sleepingWakeWord': 'Diga "RENUS" para começar',
+  'audioSettings.handsFree': 'Mãos livres',
+  'audioSettings.wakeWord': 'Palavra de ativação "RENUS"',
+  'audioSettings.wakeWordHint': 'Em espera, o agente só volta a ouvir depois de "RENUS".',
+  'audioSettings.wakeWordUnsupported': 'Este navegador não reconhece a palavra de ativação.',
+  'audioSettings.wakeWordCloud': 'Usar reconhecimento online para a palavra de ativação',
+  'audioSettings.wakeWordCloudHint': 'Este navegador não reconhece fala no próprio dispositivo. Se permitido, tudo o que o microfone ouvir em espera é enviado ao serviço de voz do navegador; caso contrário, um clique ativa o modo mãos livres.',
+  'audioSettings.sleepAfter': 'Entrar em espera após',
+  'audioSettings.seconds': '{count} s',
+  'audioSettings.minutes': '{count} min',
+
+  // Conversation recorder
+  'recorder.start': 'Gravar conversa',
+  'recorder.stop': 'Parar gravação',
+  'recorder.unsupported': 'Este navegador não consegue gravar a conversa',
+  'recorder.consentTitle': 'Gravar esta conversa?',
+  'recorder.consentDescription': 'Sua voz e as respostas do RENUS serão gravadas juntas para revisão de qualidade. A gravação fica só neste navegador até você baixá-la, e você pode pará-la a qualquer momento.',
+  'recorder.consentConfirm': 'Concordo e gravar',
+  'recorder.cancel': 'Cancelar',
+  'recorder.indicator': 'REC {time}',
+  'recorder.indicatorLabel': 'Gravando a conversa',
+  'recorder.reviewTitle': 'Gravação da conversa',
+  'recorder.reviewMeta': 'Duração {duration} · consentimento às {consentAt}',
+  'recorder.chapters': 'Capítulos',
+  'recorder.noChapters': 'Nenhuma fala foi registrada durante a gravação.',
+  'recorder.downloadWebm': 'WebM + capítulos',
+  'recorder.downloadWav': 'WAV',
+  'recorder.downloadFailed': 'Não foi possível gerar o arquivo da gravação',
+  'recorder.discard': 'Descartar gravação',
+  'recorder.toast.startFailed': 'Não foi possível iniciar a gravação',
+  'recorder.toast.ready': 'Gravação concluída',
+  'recorder.toast.readyDescription': 'Revise ou baixe a gravação abaixo da conversa.',
+
+  // Transcript corrections and confidence
+  'transcript.lowConfidence': 'Confiança de {percent}%',
+  'transcript.corrected': 'corrigido',
+  'transcript.originalText': 'Entendido como: "{text}"',
+  'transcript.correct': 'Corrigir transcrição',
+  'transcript.correctLabel': 'Transcrição corrigida',
+  'transcript.saveCorrection': 'Salvar correção',
+  'transcript.cancelCorrection': 'Cancelar correção',
+
+  // Accessibility
+  'a11y.title': 'Acessibilidade',
+  'a11y.openLabel': 'Abrir opções de acessibilidade',
+  'a11y.captions': 'Legendas da fala do agente',
+  'a11y.captionSize': 'Tamanho das legendas',
+  'a11y.captionSize.large': 'Grande',
+  'a11y.captionSize.xLarge': 'Muito grande',
+  'a11y.reducedMotion': 'Reduzir animações',
+  'a11y.motion.system': 'Seguir o sistema',
+  'a11y.motion.on': 'Sempre',
+  'a11y.motion.off': 'Nunca',
+  'a11y.playbackRate': 'Velocidade da fala do agente',
+  'a11y.playbackRateHint': 'Nas respostas em streaming, mudar a velocidade também altera um pouco o tom da voz.',
+  'a11y.transcriptLabel': 'Transcrição da conversa',
+
+  // Authentication
+  'auth.field.name': 'Nome (opcional)',
+  'auth.field.email': 'E-mail',
+  'auth.field.password': 'Senha',
+  'auth.field.newPassword': 'Nova senha',
+  'auth.field.confirmPassword': 'Confirmar senha',
+  'auth.field.passwordHint': 'Pelo menos {min} caracteres.',
+  'auth.validation.emailRequired': 'Informe seu e-mail',
+  'auth.validation.emailInvalid': 'E-mail inválido',
+  'auth.validation.passwordRequired': 'Informe sua senha',
+  'auth.validation.passwordMin': 'A senha precisa ter pelo menos {min} caracteres',
+  'auth.validation.passwordMismatch': 'As senhas não conferem',
+  'auth.backToLogin': 'Voltar para o login',
+  'auth.login.title': 'Entrar',
+  'auth.login.description': 'Acesse o painel com sua conta.',
+  'auth.login.submit': 'Entrar',
+  'auth.login.failed': 'E-mail ou senha incorretos',
+  'auth.login.forgotLink': 'Esqueceu a senha?',
+  'auth.login.noAccount': 'Ainda não tem conta?',
+  'auth.login.registerLink': 'Criar conta',
+  'auth.register.title': 'Criar conta',
+  'auth.register.description': 'Cadastre-se para acessar o painel.',
+  'auth.register.submit': 'Criar conta',
+  'auth.register.success': 'Conta criada. Bem-vindo!',
+  'auth.register.failed': 'Não foi possível criar a conta',
+  'auth.register.haveAccount': 'Já tem conta?',
+  'auth.register.loginLink': 'Entrar',
+  'auth.forgot.title': 'Recuperar senha',
+  'auth.forgot.description': 'Enviaremos um link para você definir uma nova senha.',
+  'auth.forgot.submit': 'Enviar link',
+  'auth.forgot.failed': 'Não foi possível enviar o link',
+  'auth.forgot.sentTitle': 'Verifique seu e-mail',
+  'auth.forgot.sent': 'Se houver uma conta para {email}, você receberá um link para redefinir a senha em alguns minutos.',
+  'auth.reset.title': 'Definir nova senha',
+  'auth.reset.description': 'Escolha a nova senha da sua conta.',
+  'auth.reset.submit': 'Salvar nova senha',
+  'auth.reset.success': 'Senha alterada. Entre com a nova senha.',
+  'auth.reset.failed': 'Não foi possível redefinir a senha. O link pode ter expirado.',
+  'auth.reset.requestNew': 'Pedir um novo link',
+  'auth.menu.open': 'Abrir menu da conta',
+  'auth.menu.account': 'Minha conta',
+  'auth.menu.logout': 'Sair',
+
+  // Roles and permissions
+  'rbac.role.admin': 'Administrador',
+  'rbac.role.analyst': 'Analista',
+  'rbac.role.viewer': 'Leitor',
+  'rbac.denied.title': 'Acesso restrito',
+  'rbac.denied.message': 'Seu perfil não tem permissão para abrir esta página. Fale com um administrador se precisar de acesso.',
+  'rbac.denied.back': 'Voltar para a visão geral',
+  'rbac.readOnly': 'Somente leitura: apenas administradores podem alterar estas configurações.',
+
+  // Voice in several tabs
+  'voiceTab.title': 'Conversa continuada em outra aba',
+  'voiceTab.description': 'Só uma aba por vez pode falar com o RENUS. A conversa segue na outra aba; você pode trazê-la para cá.',
+  'voiceTab.takeOver': 'Continuar nesta aba',
+} as const;
+
+export type MessageKey = keyof typeof ptBR;
@@ -1,6 +1,8 @@
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
 import ErrorBoundary from "./components/ErrorBoundary.tsx";
+// Registers its API client interceptor before the first request
+import "./services/analytics";
 import "./globals.css";
 
 createRoot(document.getElementById("root")!).render(
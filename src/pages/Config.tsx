@@ -7,13 +7,26 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Separator } from "@/components/ui/separator";
-import { Plus, Save } from "lucide-react";
+import { Lock, Plus, Save } from "lucide-react";
 import RenusCoreConfig from "@/components/config/RenusCoreConfig";
+import { useLocale } from "@/hooks/useLocale";
+import { usePermission } from "@/hooks/usePermission";
+import { LOCALE_LABELS, SUPPORTED_LOCALES, type Locale } from "@/lib/i18n";
 
 const ConfigPage: React.FC = () => {
+  const { locale, setLocale, t } = useLocale();
+  const canEdit = usePermission("config:edit");
+
   return (
     <div className="space-y-8">
-      <h1 className="text-3xl font-bold text-foreground">Configurações do Sistema RENUS</h1>
+      <h1 className="text-3xl font-bold text-foreground">{t("config.title")}</h1>
+
+      {!canEdit && (
+        <p className="flex items-center text-sm text-muted-foreground">
+          <Lock className="mr-2 h-4 w-4" />
+          {t("rbac.readOnly")}
+        </p>
+      )}
 
       {/* Bloco 1: Agente Principal (RENUS Core) */}
       <RenusCoreConfig />
@@ -25,43 +38,46 @@ const ConfigPage: React.FC = () => {
         <CardHeader>
           <CardTitle>Sub-Agentes (Nichos)</CardTitle>
         </CardHeader>
-        <CardContent className="space-y-6">
-          <div className="grid grid-cols-1 gap-4">
-            {/* Nome do Nicho */}
-            <div className="space-y-2">
-              <Label htmlFor="niche-name">Nome do Nicho</Label>
-              <Input id="niche-name" placeholder="Ex: MMN" className="bg-card" />
-            </div>
+        <CardContent>
+          {/* Read-only for roles that can't edit: disables every control inside */}
+          <fieldset disabled={!canEdit} className="min-w-0 space-y-6">
+            <div className="grid grid-cols-1 gap-4">
+              {/* Nome do Nicho */}
+              <div className="space-y-2">
+                <Label htmlFor="niche-name">Nome do Nicho</Label>
+                <Input id="niche-name" placeholder="Ex: MMN" className="bg-card" />
+              </div>
             
-            {/* Descrição */}
-            <div className="space-y-2">
-              <Label htmlFor="niche-description">Descrição</Label>
-              <Textarea id="niche-description" placeholder="Breve descrição do público alvo..." className="bg-card min-h-[80px]" />
-            </div>
+              {/* Descrição */}
+              <div className="space-y-2">
+                <Label htmlFor="niche-description">Descrição</Label>
+                <Textarea id="niche-description" placeholder="Breve descrição do público alvo..." className="bg-card min-h-[80px]" />
+              </div>
 
-            {/* Prompt Base */}
-            <div className="space-y-2">
-              <Label htmlFor="base-prompt">Prompt Base</Label>
-              <Textarea id="base-prompt" placeholder="Instruções iniciais para o agente conversacional..." className="bg-card min-h-[150px]" />
-            </div>
+              {/* Prompt Base */}
+              <div className="space-y-2">
+                <Label htmlFor="base-prompt">Prompt Base</Label>
+                <Textarea id="base-prompt" placeholder="Instruções iniciais para o agente conversacional..." className="bg-card min-h-[150px]" />
+              </div>
 
-            {/* Ativo Toggle */}
-            <div className="flex items-center justify-between p-3 border border-border rounded-lg bg-background/50">
-                <Label htmlFor="active-toggle" className="font-medium">Ativo</Label>
-                <Switch id="active-toggle" />
+              {/* Ativo Toggle */}
+              <div className="flex items-center justify-between p-3 border border-border rounded-lg bg-background/50">
+                  <Label htmlFor="active-toggle" className="font-medium">Ativo</Label>
+                  <Switch id="active-toggle" />
+              </div>
             </div>
-          </div>
 
-          <div className="flex justify-end space-x-2 pt-4">
-            <Button variant="outline" className="border-primary text-primary hover:bg-primary/10">
-                <Plus className="mr-2 h-4 w-4" />
-                Adicionar Nicho
-            </Button>
-            <Button className="bg-primary hover:bg-primary/80 text-primary-foreground">
-                <Save className="mr-2 h-4 w-4" />
-                Salvar Configurações
-            </Button>
-          </div>
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button variant="outline" className="border-primary text-primary hover:bg-primary/10">
+                  <Plus className="mr-2 h-4 w-4" />
+                  Adicionar Nicho
+              </Button>
+              <Button className="bg-primary hover:bg-primary/80 text-primary-foreground">
+                  <Save className="mr-2 h-4 w-4" />
+                  Salvar Configurações
+              </Button>
+            </div>
+          </fieldset>
         </CardContent>
       </Card>
 
@@ -70,34 +86,35 @@ const ConfigPage: React.FC = () => {
       {/* Bloco 3: Sistema Section */}
       <Card className="bg-secondary/30 border-primary/20">
         <CardHeader>
-          <CardTitle>Sistema</CardTitle>
+          <CardTitle>{t("config.system")}</CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             {/* Idioma */}
             <div className="space-y-2">
-              <Label htmlFor="language">Idioma</Label>
-              <Select defaultValue="pt-BR">
+              <Label htmlFor="language">{t("config.language")}</Label>
+              <Select value={locale} onValueChange={(value) => setLocale(value as Locale)}>
                 <SelectTrigger id="language" className="bg-card">
-                  <SelectValue placeholder="Selecione o Idioma" />
+                  <SelectValue placeholder={t("config.languagePlaceholder")} />
                 </SelectTrigger>
                 <SelectContent className="bg-card">
-                  <SelectItem value="pt-BR">Português (pt-BR)</SelectItem>
-                  <SelectItem value="en-US">English (en-US)</SelectItem>
+                  {SUPPORTED_LOCALES.map((option) => (
+                    <SelectItem key={option} value={option}>{LOCALE_LABELS[option]}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
             
             {/* Tempo Máximo de Sessão */}
             <div className="space-y-2">
-              <Label htmlFor="max-session">Tempo Máximo de Sessão (min)</Label>
-              <Input id="max-session" type="number" defaultValue={60} className="bg-card" />
+              <Label htmlFor="max-session">{t("config.maxSession")}</Label>
+              <Input id="max-session" type="number" defaultValue={60} className="bg-card" disabled={!canEdit} />
             </div>
 
             {/* Cor Tema Principal (Color Picker Placeholder) */}
             <div className="space-y-2">
-              <Label htmlFor="theme-color">Cor Tema Principal</Label>
-              <Input id="theme-color" type="color" defaultValue="#00d8ff" className="h-10 w-full p-1 bg-card border-border rounded-md" />
+              <Label htmlFor="theme-color">{t("config.themeColor")}</Label>
+              <Input id="theme-color" type="color" defaultValue="#00d8ff" className="h-10 w-full p-1 bg-card border-border rounded-md" disabled={!canEdit} />
             </div>
           </div>
         </CardContent>
@@ -9,6 +9,7 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Calendar, Send, Loader2 } from "lucide-react";
+import Can from "@/components/auth/Can";
 import { useFeedbacks } from "@/hooks/useFeedbacks";
 
 const FeedbacksPage: React.FC = () => {
@@ -60,67 +61,69 @@ const FeedbacksPage: React.FC = () => {
         </CardContent>
       </Card>
 
-      {/* Create New Feedback Form */}
-      <Card className="bg-secondary/30 border-primary/20">
-        <CardHeader>
-          <CardTitle>Criar Novo Feedback</CardTitle>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {/* Nicho */}
-            <div className="space-y-2">
-              <Label htmlFor="nicho">Nicho</Label>
-              <Select>
-                <SelectTrigger id="nicho" className="bg-card">
-                  <SelectValue placeholder="Selecione o Nicho" />
-                </SelectTrigger>
-                <SelectContent className="bg-card">
-                  {["MMN", "Saúde", "Imobiliária", "Profissional Liberal"].map(n => (
-                    <SelectItem key={n} value={n.toLowerCase()}>{n}</SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
+      {/* Create New Feedback Form (hidden for roles that can't send) */}
+      <Can permission="feedback:send">
+        <Card className="bg-secondary/30 border-primary/20">
+          <CardHeader>
+            <CardTitle>Criar Novo Feedback</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {/* Nicho */}
+              <div className="space-y-2">
+                <Label htmlFor="nicho">Nicho</Label>
+                <Select>
+                  <SelectTrigger id="nicho" className="bg-card">
+                    <SelectValue placeholder="Selecione o Nicho" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-card">
+                    {["MMN", "Saúde", "Imobiliária", "Profissional Liberal"].map(n => (
+                      <SelectItem key={n} value={n.toLowerCase()}>{n}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             
-            {/* Agendar Envio (DateTime) */}
-            <div className="space-y-2">
-              <Label htmlFor="schedule">Agendar Envio</Label>
-              <Input id="schedule" type="datetime-local" className="bg-card" />
+              {/* Agendar Envio (DateTime) */}
+              <div className="space-y-2">
+                <Label htmlFor="schedule">Agendar Envio</Label>
+                <Input id="schedule" type="datetime-local" className="bg-card" />
+              </div>
             </div>
-          </div>
 
-          {/* Mensagem */}
-          <div className="space-y-2">
-            <Label htmlFor="message">Mensagem</Label>
-            <Textarea id="message" placeholder="Descreva o feedback..." className="bg-card min-h-[100px]" />
-          </div>
+            {/* Mensagem */}
+            <div className="space-y-2">
+              <Label htmlFor="message">Mensagem</Label>
+              <Textarea id="message" placeholder="Descreva o feedback..." className="bg-card min-h-[100px]" />
+            </div>
 
-          {/* Canal (Radio) */}
-          <div className="space-y-2">
-            <Label>Canal</Label>
-            <RadioGroup defaultValue="email" className="flex space-x-4">
-              <div className="flex items-center space-x-2">
-                <RadioGroupItem value="email" id="r1" />
-                <Label htmlFor="r1">E-mail</Label>
-              </div>
-              <div className="flex items-center space-x-2">
-                <RadioGroupItem value="whatsapp" id="r2" />
-                <Label htmlFor="r2">WhatsApp</Label>
-              </div>
-            </RadioGroup>
-          </div>
+            {/* Canal (Radio) */}
+            <div className="space-y-2">
+              <Label>Canal</Label>
+              <RadioGroup defaultValue="email" className="flex space-x-4">
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="email" id="r1" />
+                  <Label htmlFor="r1">E-mail</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="whatsapp" id="r2" />
+                  <Label htmlFor="r2">WhatsApp</Label>
+                </div>
+              </RadioGroup>
+            </div>
 
-          <div className="flex justify-end space-x-2 pt-4">
-            <Button variant="outline" className="border-primary text-primary hover:bg-primary/10">
-                Salvar Rascunho
-            </Button>
-            <Button className="bg-primary hover:bg-primary/80 text-primary-foreground">
-                <Send className="mr-2 h-4 w-4" />
-                Enviar Feedback
-            </Button>
-          </div>
-        </CardContent>
-      </Card>
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button variant="outline" className="border-primary text-primary hover:bg-primary/10">
+                  Salvar Rascunho
+              </Button>
+              <Button className="bg-primary hover:bg-primary/80 text-primary-foreground">
+                  <Send className="mr-2 h-4 w-4" />
+                  Enviar Feedback
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </Can>
     </div>
   );
 };
@@ -0,0 +1,83 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2, MailCheck } from "lucide-react";
+import AuthLayout from "@/components/auth/AuthLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useLocale } from "@/hooks/useLocale";
+import { createForgotPasswordSchema, type ForgotPasswordFormValues } from "@/lib/auth-schemas";
+import { handleError } from "@/lib/error-handler";
+import { applyApiFieldErrors } from "@/lib/form-errors";
+import { authService } from "@/services/auth.service";
+
+const ForgotPassword = () => {
+  const { t, locale } = useLocale();
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  // eslint-disable-next-line react-hooks/exhaustive-deps -- rebuilt so messages follow the locale
+  const schema = useMemo(() => createForgotPasswordSchema(), [locale]);
+  const form = useForm<ForgotPasswordFormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: { email: "" },
+  });
+
+  const onSubmit = async (values: ForgotPasswordFormValues) => {
+    try {
+      await authService.requestPasswordReset(values.email);
+      setSentTo(values.email);
+    } catch (error) {
+      if (!applyApiFieldErrors(error, form.setError, { email: "email" })) {
+        handleError(error, t("auth.forgot.failed"));
+      }
+    }
+  };
+
+  const backToLogin = (
+    <Link to="/login" className="text-primary hover:underline font-medium">
+      {t("auth.backToLogin")}
+    </Link>
+  );
+
+  if (sentTo) {
+    return (
+      <AuthLayout title={t("auth.forgot.sentTitle")} footer={backToLogin}>
+        <div className="flex items-start gap-3" role="status">
+          <MailCheck className="h-5 w-5 text-primary shrink-0 mt-0.5" />
+          {/* Same wording whether or not the address exists, so accounts can't be probed */}
+          <p className="text-sm text-muted-foreground">{t("auth.forgot.sent", { email: sentTo })}</p>
+        </div>
+      </AuthLayout>
+    );
+  }
+
+  return (
+    <AuthLayout title={t("auth.forgot.title")} description={t("auth.forgot.description")} footer={backToLogin}>
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4" noValidate>
+          <FormField
+            control={form.control}
+            name="email"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t("auth.field.email")}</FormLabel>
+                <FormControl>
+                  <Input type="email" autoComplete="email" autoFocus {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+            {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t("auth.forgot.submit")}
+          </Button>
+        </form>
+      </Form>
+    </AuthLayout>
+  );
+};
+
+export default ForgotPassword;
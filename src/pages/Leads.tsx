@@ -8,6 +8,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { CalendarIcon, FileText, Loader2 } from "lucide-react";
 import { apiClient } from "@/lib/api-client";
 import { handleError } from "@/lib/error-handler";
+import { t } from "@/lib/i18n";
 
 interface Lead {
   id: string;
@@ -22,11 +23,11 @@ const LeadsPage: React.FC = () => {
   // Fetch leads from API
   const { data: leads, isLoading, error } = useQuery<Lead[]>({
     queryKey: ['leads'],
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       try {
-        return await apiClient.get<Lead[]>('/api/v1/leads');
+        return await apiClient.get<Lead[]>('/api/v1/leads', { signal });
       } catch (err) {
-        handleError(err, 'Falha ao carregar leads');
+        handleError(err, t('errors.load.leads'));
         throw err;
       }
     },
@@ -0,0 +1,102 @@
+import { useMemo } from "react";
+import { Link, Navigate, useNavigate, useSearchParams } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2 } from "lucide-react";
+import AuthLayout from "@/components/auth/AuthLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useAuth } from "@/hooks/useAuth";
+import { useLocale } from "@/hooks/useLocale";
+import { createLoginSchema, type LoginFormValues } from "@/lib/auth-schemas";
+import { REDIRECT_PARAM, resolveRedirect } from "@/lib/auth-redirect";
+import { handleError } from "@/lib/error-handler";
+import { applyApiFieldErrors } from "@/lib/form-errors";
+
+const Login = () => {
+  const { t, locale } = useLocale();
+  const { isAuthenticated, login } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const redirectTo = resolveRedirect(searchParams.get(REDIRECT_PARAM));
+
+  // eslint-disable-next-line react-hooks/exhaustive-deps -- rebuilt so messages follow the locale
+  const schema = useMemo(() => createLoginSchema(), [locale]);
+  const form = useForm<LoginFormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: { email: "", password: "" },
+  });
+
+  if (isAuthenticated && !form.formState.isSubmitting) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
+  const onSubmit = async (values: LoginFormValues) => {
+    try {
+      await login({ email: values.email, password: values.password });
+      navigate(redirectTo, { replace: true });
+    } catch (error) {
+      if (!applyApiFieldErrors(error, form.setError, { email: "email", password: "password" })) {
+        handleError(error, t("auth.login.failed"));
+      }
+    }
+  };
+
+  return (
+    <AuthLayout
+      title={t("auth.login.title")}
+      description={t("auth.login.description")}
+      footer={
+        <p>
+          {t("auth.login.noAccount")}{" "}
+          <Link to="/register" className="text-primary hover:underline font-medium">
+            {t("auth.login.registerLink")}
+          </Link>
+        </p>
+      }
+    >
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4" noValidate>
+          <FormField
+            control={form.control}
+            name="email"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t("auth.field.email")}</FormLabel>
+                <FormControl>
+                  <Input type="email" autoComplete="email" autoFocus {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="password"
+            render={({ field }) => (
+              <FormItem>
+                <div className="flex items-center justify-between">
+                  <FormLabel>{t("auth.field.password")}</FormLabel>
+                  <Link to="/forgot-password" className="text-xs text-primary hover:underline">
+                    {t("auth.login.forgotLink")}
+                  </Link>
+                </div>
+                <FormControl>
+                  <Input type="password" autoComplete="current-password" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+            {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t("auth.login.submit")}
+          </Button>
+        </form>
+      </Form>
+    </AuthLayout>
+  );
+};
+
+export default Login;
@@ -1,8 +1,10 @@
 import { useLocation } from "react-router-dom";
 import { useEffect } from "react";
+import { useLocale } from "@/hooks/useLocale";
 
 const NotFound = () => {
   const location = useLocation();
+  const { t } = useLocale();
 
   useEffect(() => {
     console.error(
@@ -15,9 +17,9 @@ const NotFound = () => {
     <div className="min-h-screen flex items-center justify-center bg-background text-foreground">
       <div className="text-center">
         <h1 className="text-6xl font-extrabold mb-4 text-primary">404</h1>
-        <p className="text-xl text-muted-foreground mb-8">Oops! Página não encontrada.</p>
+        <p className="text-xl text-muted-foreground mb-8">{t("notFound.message")}</p>
         <a href="/" className="text-primary hover:text-primary/80 underline font-medium transition-colors">
-          Retornar à Home (RENUS Core)
+          {t("notFound.home")}
         </a>
       </div>
     </div>
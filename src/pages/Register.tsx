@@ -0,0 +1,128 @@
+import { useMemo } from "react";
+import { Link, Navigate, useNavigate } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2 } from "lucide-react";
+import AuthLayout from "@/components/auth/AuthLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useAuth } from "@/hooks/useAuth";
+import { useLocale } from "@/hooks/useLocale";
+import { createRegisterSchema, PASSWORD_MIN_LENGTH, type RegisterFormValues } from "@/lib/auth-schemas";
+import { DEFAULT_AFTER_LOGIN } from "@/lib/auth-redirect";
+import { handleError } from "@/lib/error-handler";
+import { applyApiFieldErrors } from "@/lib/form-errors";
+import { showSuccess } from "@/utils/toast";
+
+const Register = () => {
+  const { t, locale } = useLocale();
+  const { isAuthenticated, register } = useAuth();
+  const navigate = useNavigate();
+
+  // eslint-disable-next-line react-hooks/exhaustive-deps -- rebuilt so messages follow the locale
+  const schema = useMemo(() => createRegisterSchema(), [locale]);
+  const form = useForm<RegisterFormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: { name: "", email: "", password: "", confirmPassword: "" },
+  });
+
+  if (isAuthenticated && !form.formState.isSubmitting) {
+    return <Navigate to={DEFAULT_AFTER_LOGIN} replace />;
+  }
+
+  const onSubmit = async (values: RegisterFormValues) => {
+    try {
+      await register({
+        email: values.email,
+        password: values.password,
+        name: values.name || undefined,
+      });
+      showSuccess(t("auth.register.success"));
+      navigate(DEFAULT_AFTER_LOGIN, { replace: true });
+    } catch (error) {
+      if (!applyApiFieldErrors(error, form.setError, { name: "name", email: "email", password: "password" })) {
+        handleError(error, t("auth.register.failed"));
+      }
+    }
+  };
+
+  return (
+    <AuthLayout
+      title={t("auth.register.title")}
+      description={t("auth.register.description")}
+      footer={
+        <p>
+          {t("auth.register.haveAccount")}{" "}
+          <Link to="/login" className="text-primary hover:underline font-medium">
+            {t("auth.register.loginLink")}
+          </Link>
+        </p>
+      }
+    >
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4" noValidate>
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t("auth.field.name")}</FormLabel>
+                <FormControl>
+                  <Input autoComplete="name" autoFocus {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="email"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t("auth.field.email")}</FormLabel>
+                <FormControl>
+                  <Input type="email" autoComplete="email" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="password"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t("auth.field.password")}</FormLabel>
+                <FormControl>
+                  <Input type="password" autoComplete="new-password" {...field} />
+                </FormControl>
+                <FormDescription>{t("auth.field.passwordHint", { min: PASSWORD_MIN_LENGTH })}</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="confirmPassword"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t("auth.field.confirmPassword")}</FormLabel>
+                <FormControl>
+                  <Input type="password" autoComplete="new-password" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+            {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t("auth.register.submit")}
+          </Button>
+        </form>
+      </Form>
+    </AuthLayout>
+  );
+};
+
+export default Register;
@@ -0,0 +1,95 @@
+import { useMemo } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2 } from "lucide-react";
+import AuthLayout from "@/components/auth/AuthLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useLocale } from "@/hooks/useLocale";
+import { createResetPasswordSchema, PASSWORD_MIN_LENGTH, type ResetPasswordFormValues } from "@/lib/auth-schemas";
+import { handleError } from "@/lib/error-handler";
+import { applyApiFieldErrors } from "@/lib/form-errors";
+import { authService } from "@/services/auth.service";
+import { showSuccess } from "@/utils/toast";
+
+const ResetPassword = () => {
+  const { t, locale } = useLocale();
+  const { token = "" } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+
+  // eslint-disable-next-line react-hooks/exhaustive-deps -- rebuilt so messages follow the locale
+  const schema = useMemo(() => createResetPasswordSchema(), [locale]);
+  const form = useForm<ResetPasswordFormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: { password: "", confirmPassword: "" },
+  });
+
+  const onSubmit = async (values: ResetPasswordFormValues) => {
+    try {
+      await authService.resetPassword({ token, new_password: values.password });
+      showSuccess(t("auth.reset.success"));
+      navigate("/login", { replace: true });
+    } catch (error) {
+      if (!applyApiFieldErrors(error, form.setError, { new_password: "password" })) {
+        handleError(error, t("auth.reset.failed"));
+      }
+    }
+  };
+
+  return (
+    <AuthLayout
+      title={t("auth.reset.title")}
+      description={t("auth.reset.description")}
+      footer={
+        <>
+          <Link to="/forgot-password" className="text-primary hover:underline font-medium">
+            {t("auth.reset.requestNew")}
+          </Link>
+          <Link to="/login" className="hover:underline">
+            {t("auth.backToLogin")}
+          </Link>
+        </>
+      }
+    >
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4" noValidate>
+          <FormField
+            control={form.control}
+            name="password"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t("auth.field.newPassword")}</FormLabel>
+                <FormControl>
+                  <Input type="password" autoComplete="new-password" autoFocus {...field} />
+                </FormControl>
+                <FormDescription>{t("auth.field.passwordHint", { min: PASSWORD_MIN_LENGTH })}</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="confirmPassword"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t("auth.field.confirmPassword")}</FormLabel>
+                <FormControl>
+                  <Input type="password" autoComplete="new-password" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+            {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t("auth.reset.submit")}
+          </Button>
+        </form>
+      </Form>
+    </AuthLayout>
+  );
+};
+
+export default ResetPassword;
@@ -5,29 +5,133 @@ import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react'
 import { VoiceChromeSphere } from '@/components/voice/VoiceChromeSphere';
 import { ConversationHistory } from '@/components/voice/ConversationHistory';
 import { TextChatFallback } from '@/components/voice/TextChatFallback';
+import { LatencyPanel } from '@/components/voice/LatencyPanel';
+import { AudioSettingsDrawer } from '@/components/voice/AudioSettingsDrawer';
+import { AccessibilityMenu } from '@/components/voice/AccessibilityMenu';
+import { AgentCaptions } from '@/components/voice/AgentCaptions';
+import { TranscriptLiveRegion } from '@/components/voice/TranscriptLiveRegion';
+import { ConversationRecorderButton } from '@/components/voice/ConversationRecorderButton';
+import { RecordingReviewPanel } from '@/components/voice/RecordingReviewPanel';
+import { ContinuedInAnotherTab } from '@/components/voice/ContinuedInAnotherTab';
 import { useVoiceWebSocket } from '@/hooks/useVoiceWebSocket';
 import { useAudioManager } from '@/hooks/useAudioManager';
 import { useSessionPersistence } from '@/hooks/useSessionPersistence';
+import { useLatencyTracker } from '@/hooks/useLatencyTracker';
+import { useTranscriptPersistence } from '@/hooks/useTranscripts';
+import { useOfflineAgent } from '@/hooks/useOfflineAgent';
+import { useHandsFree } from '@/hooks/useHandsFree';
+import { useConversationRecorder } from '@/hooks/useConversationRecorder';
 import { useToast } from '@/hooks/use-toast';
+import { useLocale } from '@/hooks/useLocale';
+import { useAccessibility } from '@/hooks/useAccessibility';
+import { useActiveVoiceTab } from '@/hooks/useActiveVoiceTab';
+import { t } from '@/lib/i18n';
 import { analytics } from '@/services/analytics';
-import type { AgentState, VoiceInteractionState, ConversationEntry } from '@/types/voice';
+import { audioMimeType, base64ToArrayBuffer } from '@/lib/audio-codec';
+import { formatRecordingTime } from '@/lib/recording-export';
+import type {
+  AgentState,
+  VoiceInteractionState,
+  ConversationEntry,
+  SessionHistoryEntry,
+  TranscriptionMessage,
+} from '@/types/voice';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Mic, MicOff, RefreshCw, MessageSquare, MessageCircle } from 'lucide-react';
+import { Mic, MicOff, RefreshCw, MessageSquare, MessageCircle, Ear } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 
+// Socket retries before falling back to the browser-only agent (about a minute with backoff)
+const VOICE_RECONNECT_ATTEMPTS = 6;
+// How often the offline fallback checks whether the server is back
+const OFFLINE_RECONNECT_INTERVAL = 60000;
+
+/**
+ * Turn the history replayed after session_resume into conversation entries
+ */
+function historyToEntries(history: SessionHistoryEntry[]): ConversationEntry[] {
+  return history.map((item) => ({
+    id: `${item.sequence}-${item.speaker}`,
+    timestamp: item.timestamp ? new Date(item.timestamp) : new Date(),
+    speaker: item.speaker,
+    text: item.text,
+    state: 'idle',
+    sequence: item.sequence,
+  }));
+}
+
+/**
+ * The server history is authoritative; keep only local entries it doesn't already cover.
+ * Covered entries keep their local id and audio, so the archived copy stays the same entry.
+ */
+function mergeHistory(history: ConversationEntry[], current: ConversationEntry[]): ConversationEntry[] {
+  const covers = (item: ConversationEntry, entry: ConversationEntry) =>
+    entry.sequence !== undefined
+      ? item.sequence === entry.sequence
+      : `${item.speaker}:${item.text}` === `${entry.speaker}:${entry.text}`;
+
+  const merged = history.map((item) => {
+    const local = current.find((entry) => covers(item, entry));
+    return local ? { ...item, id: local.id, audioUrl: local.audioUrl, recordingOffset: local.recordingOffset } : item;
+  });
+  const localOnly = current.filter((entry) => !history.some((item) => covers(item, entry)));
+
+  return [...merged, ...localOnly];
+}
+
+/**
+ * Put a final user transcript in place of its utterance's placeholder entry. Without a
+ * placeholder (a replay after resume, or the server ended the utterance on its own) it
+ * becomes a new entry, unless that sequence is already there.
+ */
+function applyFinalTranscript(
+  entries: ConversationEntry[],
+  placeholderId: string | null,
+  message: TranscriptionMessage
+): ConversationEntry[] {
+  if (placeholderId && entries.some((entry) => entry.id === placeholderId)) {
+    return entries.map((entry) =>
+      entry.id === placeholderId
+        ? { ...entry, text: message.text, words: message.words, sequence: message.sequence ?? entry.sequence, pending: false }
+        : entry
+    );
+  }
+
+  if (message.sequence !== undefined && entries.some((entry) => entry.sequence === message.sequence)) {
+    return entries;
+  }
+
+  return [
+    ...entries,
+    {
+      id: `${message.sequence ?? Date.now()}-user`,
+      timestamp: message.timestamp ? new Date(message.timestamp) : new Date(),
+      speaker: 'user',
+      text: message.text,
+      state: 'listening',
+      sequence: message.sequence,
+      words: message.words,
+    },
+  ];
+}
+
 export default function VoiceInteraction() {
   const { toast } = useToast();
+  const { locale } = useLocale();
+  const { settings: accessibility } = useAccessibility();
   const sessionIdRef = useRef<string>(`session_${Date.now()}`);
+  // Only the elected tab connects; the others show where the conversation went
+  const voiceTab = useActiveVoiceTab();
   
   // Session persistence
   const {
     conversationId: savedConversationId,
     leadId: savedLeadId,
+    lastSequence,
     saveSession,
+    updateLastSequence,
     clearSession,
     refreshSession,
     cleanupOldSessions,
-    isSessionValid,
   } = useSessionPersistence({
     sessionTimeout: 30 * 60 * 1000, // 30 minutes
   });
@@ -44,8 +148,42 @@ export default function VoiceInteraction() {
   });
 
   const [currentTranscription, setCurrentTranscription] = useState<string>('');
+  // Interim text is a guess the next frame may change; a final one is what the server heard
+  const [isTranscriptionFinal, setIsTranscriptionFinal] = useState(false);
   const [showHistory, setShowHistory] = useState(false);
   const [useTextMode, setUseTextMode] = useState(false);
+  const [speakTextReplies, setSpeakTextReplies] = useState(false);
+  // Agent reply being streamed as text (transcription frames with speaker 'agent')
+  const [partialReply, setPartialReply] = useState('');
+  // Server unreachable after all retries: the browser agent carries the conversation
+  const [offlineMode, setOfflineMode] = useState(false);
+  // Hands-free: the mic reopens after every agent turn
+  const [handsFree, setHandsFree] = useState(false);
+
+  // In text mode the agent's audio only plays when the user asked for it
+  const muteReplies = useTextMode && !speakTextReplies;
+
+  // Local archive of this conversation, so a reload doesn't lose the dialogue
+  const { saveEntries, saveAudio, loadConversation } = useTranscriptPersistence();
+
+  // Per-turn latency: client marks merged with the server's breakdown
+  const {
+    turns: latencyTurns,
+    stats: latencyStats,
+    startTurn: startLatencyTurn,
+    mark: markLatency,
+    setServerMetrics: setServerLatency,
+  } = useLatencyTracker({
+    onTurnComplete: (turn) =>
+      analytics.trackLatency(turn, sessionIdRef.current, interactionState.conversationId || undefined),
+  });
+
+  // Whether the current answer arrives as an audio_chunk stream (its full-clip audio is then skipped)
+  const streamedResponseRef = useRef(false);
+  // Set on barge-in: chunks still in flight for the interrupted answer must not play
+  const discardAudioRef = useRef(false);
+  // Placeholder entry of the last utterance, until its final transcript replaces the text
+  const pendingTranscriptIdRef = useRef<string | null>(null);
 
   // Start analytics session on mount
   useEffect(() => {
@@ -57,70 +195,197 @@ export default function VoiceInteraction() {
     };
   }, [cleanupOldSessions]);
 
+  // Sent on every (re)connection so the server can replay what this client missed
+  const resumeSession = useMemo(
+    () => (savedConversationId ? { conversationId: savedConversationId, lastSequence } : null),
+    [savedConversationId, lastSequence]
+  );
+
   // WebSocket connection
   const {
     isConnected,
     connectionState,
+    reconnectAttempt,
     sendAudio,
+    startUtterance,
+    endUtterance,
+    sendText,
+    sendInterrupt,
+    sendTranscriptCorrection,
     lastMessage,
     error: wsError,
     reconnect,
   } = useVoiceWebSocket({
-    autoConnect: true,
+    autoConnect: voiceTab.isActive,
+    reconnectAttempts: VOICE_RECONNECT_ATTEMPTS,
+    resumeSession,
+    locale,
     onStateChange: (state: AgentState) => {
       console.log('[VoiceInteraction] State changed:', state);
       setInteractionState(prev => ({ ...prev, agentState: state }));
+
+      // The server started working on a new turn
+      if (state === 'thinking') {
+        streamedResponseRef.current = false;
+        discardAudioRef.current = false;
+      }
+
       analytics.trackStateChange(state, sessionIdRef.current, interactionState.conversationId || undefined);
     },
     onMessage: (message) => {
       console.log('[VoiceInteraction] Message received:', message.type);
-      
+
+      // Remember how far we got, for session_resume (audio_chunk sequences number chunks, not messages)
+      if (message.type !== 'audio_chunk' && 'sequence' in message && typeof message.sequence === 'number') {
+        updateLastSequence(message.sequence);
+      }
+
+      if (message.type === 'session_resumed') {
+        const history = historyToEntries(message.history);
+
+        setInteractionState(prev => ({
+          ...prev,
+          transcriptions: mergeHistory(history, prev.transcriptions),
+          conversationId: message.conversation_id,
+          leadId: message.lead_id || prev.leadId,
+        }));
+        saveSession(message.conversation_id, message.lead_id || interactionState.leadId, message.last_sequence);
+
+        if (history.length > 0) {
+          toast({
+            title: t('voice.toast.sessionRestored'),
+            description: t('voice.toast.sessionRestoredDescription'),
+          });
+        }
+      }
+
       // Handle different message types
+      if (message.type === 'response' && !message.replayed) {
+        markLatency('response');
+        if (message.latency) {
+          setServerLatency(message.latency);
+        }
+        if (message.audio_base64) {
+          markLatency('first_audio');
+        }
+      }
+
+      // The server answered without a final transcript: the last interim text stands in for it
+      if (message.type === 'response' && !message.replayed && pendingTranscriptIdRef.current) {
+        const placeholderId = pendingTranscriptIdRef.current;
+        const heard = currentTranscription;
+        pendingTranscriptIdRef.current = null;
+        setInteractionState(prev => ({
+          ...prev,
+          transcriptions: prev.transcriptions.map(entry =>
+            entry.id === placeholderId ? { ...entry, text: heard || entry.text, pending: false } : entry
+          ),
+        }));
+      }
+
       if (message.type === 'response' && message.text) {
         // Add agent response to history
         const entry: ConversationEntry = {
-          id: `${Date.now()}-agent`,
+          id: `${message.sequence ?? Date.now()}-agent`,
           timestamp: new Date(),
           speaker: 'agent',
           text: message.text,
           state: message.state || 'speaking',
+          sequence: message.sequence,
         };
-        
-        const newConversationId = message.conversation_id || prev.conversationId;
-        const newLeadId = message.lead_id || prev.leadId;
+
+        const newConversationId = message.conversation_id || interactionState.conversationId;
+        const newLeadId = message.lead_id || interactionState.leadId;
+
+        // Keep the spoken answer for replay from the history
+        if (message.audio_base64 && !message.replayed) {
+          entry.audioUrl = saveAudio(
+            newConversationId,
+            entry.id,
+            new Blob([base64ToArrayBuffer(message.audio_base64)], { type: audioMimeType(message.format) })
+          );
+        }
         
         setInteractionState(prev => ({
           ...prev,
-          transcriptions: [...prev.transcriptions, entry],
+          // A replayed response may already be part of the rehydrated history
+          transcriptions: entry.sequence !== undefined && prev.transcriptions.some(e => e.sequence === entry.sequence)
+            ? prev.transcriptions
+            : [...prev.transcriptions, entry],
           conversationId: newConversationId,
           leadId: newLeadId,
           functionalities: message.functionalities || prev.functionalities,
         }));
 
-        // Save session to localStorage
+        // Save session to localStorage. On the first response of a new conversation there
+        // was no session for updateLastSequence to record its sequence in, so pass it here.
         if (newConversationId) {
-          saveSession(newConversationId, newLeadId);
+          saveSession(newConversationId, newLeadId, message.sequence);
         }
 
         // Track response received
         analytics.responseReceived(sessionIdRef.current, newConversationId || undefined);
 
-        // Play audio response
-        if (message.audio_base64) {
-          playAudio(message.audio_base64);
+        // Play audio response, unless it is already being streamed as chunks, is a stale replay or is muted
+        if (message.audio_base64 && !message.replayed && !muteReplies && !streamedResponseRef.current && !discardAudioRef.current) {
+          playAudio(message.audio_base64, message.format);
         }
 
         setCurrentTranscription('');
+        setIsTranscriptionFinal(false);
+        setPartialReply('');
       }
 
-      if (message.type === 'transcription' && message.text) {
-        setCurrentTranscription(message.text);
+      if (message.type === 'audio_chunk' && message.audio_base64 && message.sequence !== undefined) {
+        markLatency('first_audio');
+        if (!discardAudioRef.current && !muteReplies) {
+          streamedResponseRef.current = true;
+          playAudioChunk({
+            sequence: message.sequence,
+            data: message.audio_base64,
+            isFinal: message.is_final,
+            format: message.format,
+            sampleRate: message.sample_rate,
+          });
+        }
+      }
+
+      if (message.type === 'response_complete') {
+        finishAudioStream();
+        if (message.latency) {
+          setServerLatency(message.latency);
+        }
+      }
+
+      // Replayed transcriptions are already in the resumed history; they aren't being heard now
+      if (message.type === 'transcription' && message.text && !message.replayed) {
+        if (message.speaker === 'agent') {
+          setPartialReply(message.text);
+        } else {
+          markLatency('first_transcription');
+          setCurrentTranscription(message.text);
+          setIsTranscriptionFinal(Boolean(message.is_final));
+
+          if (message.is_final) {
+            const placeholderId = pendingTranscriptIdRef.current;
+            pendingTranscriptIdRef.current = null;
+            setInteractionState(prev => ({
+              ...prev,
+              transcriptions: applyFinalTranscript(prev.transcriptions, placeholderId, message),
+            }));
+          }
+        }
       }
 
-      if (message.type === 'error') {
+      if (message.type === 'error' && message.code === 'session_not_found') {
+        // The server no longer knows the saved conversation: start a fresh one
+        console.log('[VoiceInteraction] Saved session could not be resumed');
+        clearSession();
+        setInteractionState(prev => ({ ...prev, conversationId: null, leadId: null }));
+      } else if (message.type === 'error') {
         toast({
-          title: 'Erro',
-          description: message.error || 'Ocorreu um erro',
+          title: t('voice.toast.error'),
+          description: message.error || t('voice.toast.errorDescription'),
           variant: 'destructive',
         });
         setInteractionState(prev => ({ ...prev, error: message.error || null }));
@@ -130,14 +395,35 @@ export default function VoiceInteraction() {
     onError: (error) => {
       console.error('[VoiceInteraction] WebSocket error:', error);
       toast({
-        title: 'Erro de Conexão',
-        description: 'Falha na conexão com o servidor',
+        title: t('voice.toast.connectionError'),
+        description: t('voice.toast.connectionErrorDescription'),
         variant: 'destructive',
       });
       analytics.trackError(error, sessionIdRef.current, interactionState.conversationId || undefined);
     },
+    onProtocolError: (error) => {
+      // Malformed frames are dropped; record them without interrupting the user
+      analytics.trackError(error, sessionIdRef.current, interactionState.conversationId || undefined);
+    },
   });
 
+  // Opt-in recording of the whole conversation
+  const {
+    status: recorderStatus,
+    isSupported: isRecorderSupported,
+    tap: recorderTap,
+    recording: conversationRecording,
+    elapsedMs: recordingElapsedMs,
+    start: startConversationRecording,
+    stop: stopConversationRecording,
+    discard: discardConversationRecording,
+    offsetOf: recordingOffsetOf,
+  } = useConversationRecorder();
+  // When the current utterance started, so its entry links to the start of the speech
+  const utteranceStartedAtRef = useRef<Date | null>(null);
+  // Entry of the utterance whose recording is still being finalized
+  const utteranceEntryIdRef = useRef<string | null>(null);
+
   // Audio management
   const {
     isRecording,
@@ -146,33 +432,200 @@ export default function VoiceInteraction() {
     startRecording,
     stopRecording,
     playAudio,
+    playAudioChunk,
+    finishAudioStream,
+    stopPlayback,
+    isTestingMic,
+    startMicTest,
+    stopMicTest,
     error: audioError,
   } = useAudioManager({
-    onAudioChunk: (audioData) => {
-      // Send audio chunks to backend
+    // No mic monitoring while typing
+    bargeIn: !useTextMode,
+    playbackTap: recorderTap,
+    onBargeIn: (playbackOffset) => handleBargeIn(playbackOffset),
+    onPlaybackStart: () => markLatency('playback_start'),
+    onSpeechStart: () => noteHandsFreeActivity(),
+    onUtteranceStart: (streamFormat) => {
+      utteranceStartedAtRef.current = new Date();
       if (isConnected) {
-        sendAudio(audioData, 'webm');
+        startUtterance(streamFormat);
       }
     },
-    onRecordingComplete: (audioData) => {
-      console.log('[VoiceInteraction] Recording complete');
-      
-      // Add user transcription to history (will be updated when we get actual transcription)
+    onAudioChunk: (chunk, format) => {
+      // Stream audio chunks to backend as they are captured
+      if (isConnected) {
+        sendAudio(chunk.data, format, chunk);
+      }
+    },
+    onUtteranceEnd: (totalChunks) => {
+      noteHandsFreeUtteranceEnd();
+
+      // Placeholder for the utterance until the server's final transcript arrives
+      const id = `${Date.now()}-user`;
       const entry: ConversationEntry = {
-        id: `${Date.now()}-user`,
+        id,
         timestamp: new Date(),
         speaker: 'user',
-        text: currentTranscription || 'Processando...',
+        text: currentTranscription || t('common.processing'),
         state: 'listening',
+        pending: true,
+        recordingOffset: recordingOffsetOf(utteranceStartedAtRef.current ?? new Date()),
       };
-      
+      pendingTranscriptIdRef.current = id;
+      utteranceEntryIdRef.current = id;
+      utteranceStartedAtRef.current = null;
       setInteractionState(prev => ({
         ...prev,
         transcriptions: [...prev.transcriptions, entry],
       }));
+
+      if (isConnected) {
+        startLatencyTurn('voice');
+        endUtterance(totalChunks);
+      }
+    },
+    onRecordingComplete: (audioData, recording) => {
+      console.log('[VoiceInteraction] Recording complete');
+
+      // Attach the audio to the utterance's entry for replay
+      const id = utteranceEntryIdRef.current;
+      if (!id) return;
+      utteranceEntryIdRef.current = null;
+      const audioUrl = saveAudio(interactionState.conversationId, id, recording);
+      setInteractionState(prev => ({
+        ...prev,
+        transcriptions: prev.transcriptions.map(entry => (entry.id === id ? { ...entry, audioUrl } : entry)),
+      }));
     },
   });
 
+  // Browser-only interviewer, used while the server is unreachable
+  const {
+    agentState: offlineAgentState,
+    interimTranscript: offlineTranscript,
+    pendingAnswers,
+    isRecognitionSupported,
+    listen: offlineListen,
+    stopListening: offlineStopListening,
+    interrupt: offlineInterrupt,
+    sendText: offlineSendText,
+    syncAnswers,
+  } = useOfflineAgent({
+    active: offlineMode,
+    conversationId: interactionState.conversationId,
+    leadId: interactionState.leadId,
+    speakReplies: !muteReplies,
+    onEntry: (entry) => setInteractionState(prev => ({ ...prev, transcriptions: [...prev.transcriptions, entry] })),
+  });
+
+  // Fall back once the socket gives up; the server coming back ends the fallback
+  useEffect(() => {
+    if (connectionState === 'error') {
+      // The microphone stream has nowhere to go; the browser agent opens its own
+      stopRecording();
+      setOfflineMode(true);
+    } else if (connectionState === 'connected') {
+      setOfflineMode(false);
+    }
+  }, [connectionState, stopRecording]);
+
+  useEffect(() => {
+    if (!offlineMode) return;
+    if (!isRecognitionSupported) {
+      setUseTextMode(true);
+    }
+    toast({
+      title: t('voice.toast.offline'),
+      description: isRecognitionSupported ? t('voice.toast.offlineDescription') : t('offline.recognitionUnsupported'),
+    });
+  }, [offlineMode, isRecognitionSupported, toast]);
+
+  // While offline, try the server again when the network returns and every minute
+  const connectionStateRef = useRef(connectionState);
+  connectionStateRef.current = connectionState;
+  useEffect(() => {
+    if (!offlineMode) return;
+
+    const retry = () => {
+      if (connectionStateRef.current === 'error') {
+        reconnect();
+      }
+    };
+    window.addEventListener('online', retry);
+    const interval = setInterval(retry, OFFLINE_RECONNECT_INTERVAL);
+
+    return () => {
+      window.removeEventListener('online', retry);
+      clearInterval(interval);
+    };
+  }, [offlineMode, reconnect]);
+
+  // Answers collected offline go out as soon as the server is reachable again
+  useEffect(() => {
+    if (isConnected) {
+      syncAnswers();
+    }
+  }, [isConnected, syncAnswers]);
+
+  // Restore the archived transcript after a reload. If session_resumed already rebuilt it
+  // from the server, that copy wins.
+  useEffect(() => {
+    if (!savedConversationId) return;
+
+    let cancelled = false;
+    loadConversation(savedConversationId).then((entries) => {
+      if (cancelled || entries.length === 0) return;
+      setInteractionState(prev =>
+        prev.transcriptions.length > 0
+          ? prev
+          : {
+              ...prev,
+              transcriptions: entries,
+              conversationId: prev.conversationId ?? savedConversationId,
+              leadId: prev.leadId ?? savedLeadId,
+            }
+      );
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [savedConversationId, savedLeadId, loadConversation]);
+
+  // Archive the conversation as it grows
+  useEffect(() => {
+    if (interactionState.conversationId && interactionState.transcriptions.length > 0) {
+      saveEntries(interactionState.conversationId, interactionState.transcriptions, interactionState.leadId);
+    }
+  }, [interactionState.conversationId, interactionState.leadId, interactionState.transcriptions, saveEntries]);
+
+  // Link entries added while recording (agent replies, typed messages) to their place in the recording
+  useEffect(() => {
+    if (recorderStatus !== 'recording') return;
+
+    setInteractionState(prev => {
+      let changed = false;
+      const transcriptions = prev.transcriptions.map((entry) => {
+        if (entry.recordingOffset !== undefined) return entry;
+        const recordingOffset = recordingOffsetOf(entry.timestamp);
+        if (recordingOffset === undefined) return entry;
+        changed = true;
+        return { ...entry, recordingOffset };
+      });
+      return changed ? { ...prev, transcriptions } : prev;
+    });
+  }, [recorderStatus, interactionState.transcriptions, recordingOffsetOf]);
+
+  // Another tab took the conversation: go quiet here (the socket closes with autoConnect)
+  useEffect(() => {
+    if (!voiceTab.isDisplaced) return;
+    stopRecording();
+    stopPlayback();
+    setHandsFree(false);
+    setOfflineMode(false);
+  }, [voiceTab.isDisplaced, stopRecording, stopPlayback]);
+
   // Update connection state
   useEffect(() => {
     setInteractionState(prev => ({ ...prev, isConnected }));
@@ -188,8 +641,8 @@ export default function VoiceInteraction() {
     } catch (error) {
       console.error('[VoiceInteraction] Failed to start recording:', error);
       toast({
-        title: 'Erro no Microfone',
-        description: 'Não foi possível acessar o microfone. Verifique as permissões.',
+        title: t('voice.toast.micError'),
+        description: t('voice.toast.micErrorDescription'),
         variant: 'destructive',
       });
       analytics.trackError(error as Error, sessionIdRef.current, interactionState.conversationId || undefined);
@@ -204,59 +657,164 @@ export default function VoiceInteraction() {
     analytics.stopRecording(sessionIdRef.current);
   }, [stopRecording]);
 
+  // Hands-free turn: open the mic and let voice activity start the utterance
+  const handleHandsFreeListen = useCallback(async () => {
+    try {
+      await startRecording({ waitForSpeech: true });
+      setInteractionState(prev => ({ ...prev, isActive: true }));
+      analytics.startRecording(sessionIdRef.current);
+    } catch (error) {
+      console.error('[VoiceInteraction] Failed to open the mic for hands-free mode:', error);
+      setHandsFree(false);
+      toast({
+        title: t('voice.toast.micError'),
+        description: t('voice.toast.micErrorDescription'),
+        variant: 'destructive',
+      });
+    }
+  }, [startRecording, toast]);
+
+  const {
+    state: handsFreeState,
+    usesWakeWord,
+    wake: wakeHandsFree,
+    sleep: sleepHandsFree,
+    noteActivity: noteHandsFreeActivity,
+    noteUtteranceEnd: noteHandsFreeUtteranceEnd,
+  } = useHandsFree({
+    enabled: handsFree,
+    canListen: isConnected && !useTextMode,
+    agentState: interactionState.agentState,
+    isRecording,
+    isPlaying,
+    onListen: handleHandsFreeListen,
+    onSleep: () => {
+      if (isRecording) {
+        handleDeactivate();
+      }
+    },
+  });
+
+  // Hands-free needs the server and the mic: typing or the offline fallback turns it off
+  useEffect(() => {
+    if (useTextMode || offlineMode) {
+      setHandsFree(false);
+    }
+  }, [useTextMode, offlineMode]);
+
+  // Handle barge-in: the user talked over the agent, so hand the turn back to them
+  const handleBargeIn = useCallback((playbackOffset: number) => {
+    console.log(`[VoiceInteraction] Barge-in at ${playbackOffset}ms`);
+    discardAudioRef.current = true;
+    sendInterrupt(interactionState.conversationId, playbackOffset);
+    setInteractionState(prev => ({ ...prev, agentState: 'listening' }));
+    analytics.trackInterrupt(playbackOffset, sessionIdRef.current, interactionState.conversationId || undefined);
+    handleActivate();
+  }, [sendInterrupt, interactionState.conversationId, handleActivate]);
+
+  // Manual barge-in from the button, the sphere or the Space bar
+  const handleInterrupt = useCallback(() => {
+    handleBargeIn(stopPlayback());
+  }, [handleBargeIn, stopPlayback]);
+
   // Handle reconnection
   const handleReconnect = useCallback(() => {
     console.log('[VoiceInteraction] Manual reconnect');
     reconnect();
     analytics.trackReconnect(sessionIdRef.current);
     toast({
-      title: 'Reconectando',
-      description: 'Tentando reconectar ao servidor...',
+      title: t('voice.toast.reconnecting'),
+      description: t('voice.toast.reconnectingDescription'),
     });
   }, [reconnect, toast]);
 
-  // Handle text message send
-  const handleSendTextMessage = useCallback(async (text: string) => {
+  // Recording starts only from the consent dialog, which hands over when the user agreed
+  const handleStartConversationRecording = useCallback(async (consentAt: Date) => {
     try {
-      console.log('[VoiceInteraction] Sending text message:', text);
-      
-      // Add user message to history
-      const userEntry: ConversationEntry = {
-        id: `${Date.now()}-user`,
-        timestamp: new Date(),
-        speaker: 'user',
-        text,
-        state: 'listening',
-      };
-      
-      setInteractionState(prev => ({
-        ...prev,
-        transcriptions: [...prev.transcriptions, userEntry],
-      }));
-
-      // Send as text via WebSocket (backend should handle text input)
-      // For now, we'll simulate by sending empty audio with text metadata
-      // In production, backend should have a text-only endpoint
-      const textMessage = {
-        type: 'text',
-        text,
-        conversation_id: interactionState.conversationId,
-      };
-      
-      // This would need backend support for text messages
-      // sendAudio would need to be extended or we need a sendText method
-      console.log('[VoiceInteraction] Text message prepared:', textMessage);
-      
+      await startConversationRecording(consentAt);
+      analytics.trackConversationRecording('start', { consentAt }, sessionIdRef.current, interactionState.conversationId || undefined);
+    } catch (error) {
+      console.error('[VoiceInteraction] Failed to start conversation recording:', error);
       toast({
-        title: 'Modo Texto',
-        description: 'Funcionalidade em desenvolvimento. Use o modo de voz.',
-        variant: 'default',
+        title: t('recorder.toast.startFailed'),
+        description: t('voice.toast.micErrorDescription'),
+        variant: 'destructive',
       });
-    } catch (error) {
-      console.error('[VoiceInteraction] Failed to send text message:', error);
-      analytics.trackError(error as Error, sessionIdRef.current, interactionState.conversationId || undefined);
     }
-  }, [interactionState.conversationId, toast]);
+  }, [startConversationRecording, toast, interactionState.conversationId]);
+
+  const handleStopConversationRecording = useCallback(async () => {
+    const recording = await stopConversationRecording();
+    if (!recording) return;
+
+    analytics.trackConversationRecording(
+      'stop',
+      { consentAt: recording.consentAt, durationMs: recording.durationMs },
+      sessionIdRef.current,
+      interactionState.conversationId || undefined
+    );
+    toast({
+      title: t('recorder.toast.ready'),
+      description: t('recorder.toast.readyDescription'),
+    });
+  }, [stopConversationRecording, toast, interactionState.conversationId]);
+
+  // Handle text message send
+  const handleSendTextMessage = useCallback((text: string) => {
+    if (offlineMode) {
+      offlineSendText(text);
+      return;
+    }
+
+    console.log('[VoiceInteraction] Sending text message:', text);
+
+    // Add user message to history
+    const userEntry: ConversationEntry = {
+      id: `${Date.now()}-user`,
+      timestamp: new Date(),
+      speaker: 'user',
+      text,
+      state: 'listening',
+    };
+
+    setInteractionState(prev => ({
+      ...prev,
+      transcriptions: [...prev.transcriptions, userEntry],
+    }));
+
+    // Same conversation as the voice turns, so switching modes keeps the context
+    startLatencyTurn('text');
+    sendText(text, interactionState.conversationId);
+    analytics.trackTextMessage(sessionIdRef.current, interactionState.conversationId || undefined);
+  }, [offlineMode, offlineSendText, sendText, interactionState.conversationId, startLatencyTurn]);
+
+  // The user fixed a misheard transcript: show the fix and tell the server what was really said
+  const handleCorrectTranscript = useCallback((entryId: string, text: string) => {
+    const entry = interactionState.transcriptions.find(item => item.id === entryId);
+    if (!entry || entry.text === text) return;
+
+    setInteractionState(prev => ({
+      ...prev,
+      transcriptions: prev.transcriptions.map(item =>
+        item.id === entryId
+          ? { ...item, text, words: undefined, correctedFrom: item.correctedFrom ?? item.text }
+          : item
+      ),
+    }));
+    sendTranscriptCorrection(interactionState.conversationId, {
+      sequence: entry.sequence,
+      originalText: entry.text,
+      correctedText: text,
+    });
+  }, [interactionState.transcriptions, interactionState.conversationId, sendTranscriptCorrection]);
+
+  // Switch between voice and text without losing the conversation
+  const handleToggleTextMode = useCallback(() => {
+    if (!useTextMode && isRecording) {
+      handleDeactivate();
+    }
+    setUseTextMode(prev => !prev);
+  }, [useTextMode, isRecording, handleDeactivate]);
 
   // Clear history
   const handleClearHistory = useCallback(() => {
@@ -269,11 +827,18 @@ export default function VoiceInteraction() {
     }));
     clearSession();
     toast({
-      title: 'Histórico Limpo',
-      description: 'O histórico de conversação foi limpo',
+      title: t('voice.toast.historyCleared'),
+      description: t('voice.toast.historyClearedDescription'),
     });
   }, [clearSession, toast]);
 
+  // Muting replies also silences whatever is already playing
+  useEffect(() => {
+    if (muteReplies) {
+      stopPlayback();
+    }
+  }, [muteReplies, stopPlayback]);
+
   // Refresh session on activity
   useEffect(() => {
     if (isRecording || isPlaying) {
@@ -281,16 +846,19 @@ export default function VoiceInteraction() {
     }
   }, [isRecording, isPlaying, refreshSession]);
 
-  // Restore session context on reconnect
-  useEffect(() => {
-    if (isConnected && savedConversationId && isSessionValid()) {
-      console.log('[VoiceInteraction] Restoring session context:', savedConversationId);
-      toast({
-        title: 'Sessão Restaurada',
-        description: 'Contexto da conversa anterior foi restaurado',
-      });
-    }
-  }, [isConnected, savedConversationId, isSessionValid, toast]);
+  // In offline mode the browser agent takes over the voice controls
+  const canTalk = isConnected || offlineMode;
+  const voiceState = offlineMode ? offlineAgentState : interactionState.agentState;
+  const isListening = offlineMode ? offlineAgentState === 'listening' : isRecording;
+  const isSpeaking = offlineMode ? offlineAgentState === 'speaking' : isPlaying;
+  // Hands-free: talking wakes a sleeping mode, and stopping the mic puts it back to sleep
+  const activateVoice = offlineMode
+    ? offlineListen
+    : handsFreeState === 'sleeping' ? wakeHandsFree : handleActivate;
+  const deactivateVoice = offlineMode
+    ? offlineStopListening
+    : handsFreeState === 'off' ? handleDeactivate : sleepHandsFree;
+  const interruptVoice = offlineMode ? offlineInterrupt : handleInterrupt;
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -298,18 +866,20 @@ export default function VoiceInteraction() {
       // Space bar to toggle recording (when not typing in input)
       if (event.code === 'Space' && event.target === document.body) {
         event.preventDefault();
-        if (isConnected && !isPlaying) {
-          if (isRecording) {
-            handleDeactivate();
+        if (canTalk) {
+          if (isListening) {
+            deactivateVoice();
+          } else if (isSpeaking) {
+            interruptVoice();
           } else {
-            handleActivate();
+            activateVoice();
           }
         }
       }
 
       // Escape to stop recording
-      if (event.code === 'Escape' && isRecording) {
-        handleDeactivate();
+      if (event.code === 'Escape' && isListening) {
+        deactivateVoice();
       }
 
       // H to toggle history
@@ -321,28 +891,37 @@ export default function VoiceInteraction() {
 
     window.addEventListener('keydown', handleKeyPress);
     return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [isConnected, isPlaying, isRecording, handleActivate, handleDeactivate]);
+  }, [canTalk, isSpeaking, isListening, activateVoice, deactivateVoice, interruptVoice]);
+
+  // Captions: the reply as it streams in, otherwise the agent's last reply
+  const captionText = useMemo(() => {
+    if (partialReply) return partialReply;
+    const lastAgentEntry = [...interactionState.transcriptions].reverse().find(entry => entry.speaker === 'agent');
+    return lastAgentEntry?.text ?? '';
+  }, [partialReply, interactionState.transcriptions]);
 
   return (
     <div 
-      className="min-h-screen bg-gradient-to-b from-gray-900 via-blue-900 to-gray-900 flex flex-col items-center justify-center p-8"
+      className={`min-h-screen bg-gradient-to-b from-gray-900 via-blue-900 to-gray-900 flex flex-col items-center justify-center p-8 ${
+        accessibility.captions ? 'pb-48' : ''
+      }`}
       role="main"
-      aria-label="Página de interação por voz com RENUS"
+      aria-label={t('voice.pageLabel')}
     >
       {/* Header */}
       <header className="w-full max-w-6xl mb-8 flex items-center justify-between">
         <div>
-          <h1 className="text-4xl font-bold text-white mb-2">RENUS Voice Agent</h1>
-          <p className="text-white/60">Converse com o agente por voz</p>
+          <h1 className="text-4xl font-bold text-white mb-2">{t('voice.title')}</h1>
+          <p className="text-white/60">{t('voice.subtitle')}</p>
         </div>
         
-        <div className="flex gap-2" role="toolbar" aria-label="Controles de navegação">
+        <div className="flex gap-2" role="toolbar" aria-label={t('voice.navControls')}>
           <Button
             variant="outline"
             size="icon"
-            onClick={() => setUseTextMode(!useTextMode)}
-            title={useTextMode ? "Modo de voz" : "Modo de texto"}
-            aria-label={useTextMode ? "Alternar para modo de voz" : "Alternar para modo de texto"}
+            onClick={handleToggleTextMode}
+            title={useTextMode ? t('voice.voiceMode') : t('voice.textMode')}
+            aria-label={useTextMode ? t('voice.switchToVoice') : t('voice.switchToText')}
           >
             <MessageCircle className="w-4 h-4" aria-hidden="true" />
           </Button>
@@ -352,19 +931,48 @@ export default function VoiceInteraction() {
             size="icon"
             onClick={handleReconnect}
             disabled={isConnected}
-            title="Reconectar ao servidor"
-            aria-label="Reconectar ao servidor"
+            title={t('voice.reconnect')}
+            aria-label={t('voice.reconnect')}
             aria-disabled={isConnected}
           >
             <RefreshCw className="w-4 h-4" aria-hidden="true" />
           </Button>
+
+          <Button
+            variant={handsFree ? 'default' : 'outline'}
+            size="icon"
+            onClick={() => setHandsFree(prev => !prev)}
+            disabled={useTextMode || !isConnected}
+            title={handsFree ? t('handsFree.disable') : t('handsFree.enable')}
+            aria-label={handsFree ? t('handsFree.disableLabel') : t('handsFree.enableLabel')}
+            aria-pressed={handsFree}
+          >
+            <Ear className="w-4 h-4" aria-hidden="true" />
+          </Button>
+
+          <AudioSettingsDrawer
+            audioLevel={audioLevel}
+            isTestingMic={isTestingMic}
+            onStartMicTest={startMicTest}
+            onStopMicTest={stopMicTest}
+          />
+
+          <AccessibilityMenu />
+
+          <ConversationRecorderButton
+            status={recorderStatus}
+            isSupported={isRecorderSupported}
+            disabled={offlineMode}
+            onStart={handleStartConversationRecording}
+            onStop={handleStopConversationRecording}
+          />
           
           <Button
             variant="outline"
             size="icon"
             onClick={() => setShowHistory(!showHistory)}
-            title={showHistory ? "Ocultar histórico" : "Mostrar histórico"}
-            aria-label={showHistory ? "Ocultar histórico de conversação" : "Mostrar histórico de conversação"}
+            title={showHistory ? t('voice.hideHistory') : t('voice.showHistory')}
+            aria-label={showHistory ? t('voice.hideHistoryLabel') : t('voice.showHistoryLabel')}
             aria-expanded={showHistory}
           >
             <MessageSquare className="w-4 h-4" aria-hidden="true" />
@@ -376,21 +984,37 @@ export default function VoiceInteraction() {
       <div className="w-full max-w-6xl flex gap-8">
         {/* Voice or Text Mode */}
         <div className="flex-1 flex items-center justify-center">
-          {useTextMode ? (
+          {voiceTab.isDisplaced ? (
+            <ContinuedInAnotherTab onTakeOver={voiceTab.takeOver} />
+          ) : useTextMode ? (
             <TextChatFallback
               transcriptions={interactionState.transcriptions}
+              partial={
+                partialReply
+                  ? { speaker: 'agent', text: partialReply }
+                  : currentTranscription
+                    ? { speaker: 'user', text: currentTranscription }
+                    : null
+              }
               onSendMessage={handleSendTextMessage}
-              isConnected={isConnected}
-              isProcessing={interactionState.agentState === 'thinking'}
+              isConnected={canTalk}
+              isProcessing={voiceState === 'thinking'}
+              speakReplies={speakTextReplies}
+              onSpeakRepliesChange={setSpeakTextReplies}
             />
           ) : (
             <VoiceChromeSphere
-              state={interactionState.agentState}
-              audioLevel={audioLevel}
-              transcription={currentTranscription}
+              state={voiceState}
+              audioLevel={offlineMode ? 0 : audioLevel}
+              transcription={offlineMode ? offlineTranscript : currentTranscription}
+              transcriptionInterim={offlineMode || !isTranscriptionFinal}
               isConnected={isConnected}
-              onActivate={handleActivate}
-              onDeactivate={handleDeactivate}
+              isOffline={offlineMode}
+              handsFree={handsFreeState}
+              wakeWord={usesWakeWord}
+              onActivate={activateVoice}
+              onDeactivate={deactivateVoice}
+              onInterrupt={interruptVoice}
               showTranscription={true}
               showConnectionStatus={true}
             />
@@ -407,9 +1031,12 @@ export default function VoiceInteraction() {
               className="w-96"
             >
               <ConversationHistory
+                conversationId={interactionState.conversationId}
+                leadId={interactionState.leadId}
                 transcriptions={interactionState.transcriptions}
                 functionalities={interactionState.functionalities}
                 onClear={handleClearHistory}
+                onCorrectEntry={handleCorrectTranscript}
               />
             </motion.div>
           )}
@@ -417,26 +1044,32 @@ export default function VoiceInteraction() {
       </div>
 
       {/* Controls */}
-      <div className="mt-8 flex gap-4" role="group" aria-label="Controles de gravação">
+      <div className="mt-8 flex gap-4" role="group" aria-label={t('voice.recordingControls')}>
         <Button
           size="lg"
-          variant={isRecording ? 'destructive' : 'default'}
-          onClick={isRecording ? handleDeactivate : handleActivate}
-          disabled={!isConnected || isPlaying}
+          variant={isListening ? 'destructive' : 'default'}
+          onClick={isListening ? deactivateVoice : isSpeaking ? interruptVoice : activateVoice}
+          disabled={!canTalk}
           className="gap-2"
-          aria-label={isRecording ? "Parar gravação de voz" : "Iniciar gravação de voz"}
-          aria-pressed={isRecording}
-          aria-disabled={!isConnected || isPlaying}
+          aria-label={
+            isListening
+              ? t('voice.stopRecordingLabel')
+              : isSpeaking
+                ? t('voice.interruptLabel')
+                : t('voice.startRecordingLabel')
+          }
+          aria-pressed={isListening}
+          aria-disabled={!canTalk}
         >
-          {isRecording ? (
+          {isListening ? (
             <>
               <MicOff className="w-5 h-5" aria-hidden="true" />
-              Parar
+              {t('voice.stop')}
             </>
           ) : (
             <>
               <Mic className="w-5 h-5" aria-hidden="true" />
-              Falar
+              {t('voice.talk')}
             </>
           )}
         </Button>
@@ -447,39 +1080,84 @@ export default function VoiceInteraction() {
         <div className="flex items-center gap-2">
           <div
             className={`w-2 h-2 rounded-full ${
-              isConnected ? 'bg-green-500' : 'bg-red-500'
+              isConnected ? 'bg-green-500' : connectionState === 'reconnecting' || offlineMode ? 'bg-yellow-500' : 'bg-red-500'
             }`}
             role="status"
-            aria-label={isConnected ? "Conectado" : "Desconectado"}
+            aria-label={isConnected ? t('common.connected') : t('common.disconnected')}
           />
-          <span>{connectionState}</span>
+          <span>
+            {connectionState === 'reconnecting'
+              ? t('voice.connection.reconnecting', { attempt: reconnectAttempt })
+              : offlineMode && connectionState === 'error'
+                ? t('offline.badge')
+                : t(`voice.connection.${connectionState}`)}
+          </span>
         </div>
+
+        {pendingAnswers > 0 && (
+          <div>{t('offline.pending', { count: pendingAnswers })}</div>
+        )}
         
         {interactionState.conversationId && (
-          <div aria-label={`ID da conversa: ${interactionState.conversationId}`}>
-            Conversa: {interactionState.conversationId.slice(0, 8)}...
+          <div aria-label={t('voice.conversationLabel', { id: interactionState.conversationId })}>
+            {t('voice.conversationShort', { id: interactionState.conversationId.slice(0, 8) })}
           </div>
         )}
         
+        {handsFreeState !== 'off' && (
+          <div className="flex items-center gap-2">
+            <div
+              className={`w-2 h-2 rounded-full ${handsFreeState === 'awake' ? 'bg-emerald-400' : 'bg-white/30'}`}
+              aria-hidden="true"
+            />
+            <span>{t(`handsFree.status.${handsFreeState}`)}</span>
+          </div>
+        )}
+
+        {recorderStatus === 'recording' && (
+          <div className="flex items-center gap-2" aria-label={t('recorder.indicatorLabel')}>
+            <div className="w-2 h-2 rounded-full bg-red-600" aria-hidden="true" />
+            <span className="font-mono">{t('recorder.indicator', { time: formatRecordingTime(recordingElapsedMs) })}</span>
+          </div>
+        )}
+
         {isRecording && (
           <div className="flex items-center gap-2" role="status">
             <div className="w-2 h-2 rounded-full bg-red-500 animate-pulse" aria-hidden="true" />
-            <span>Gravando</span>
+            <span>{t('voice.recording')}</span>
           </div>
         )}
         
         {isPlaying && (
           <div className="flex items-center gap-2" role="status">
             <div className="w-2 h-2 rounded-full bg-blue-500 animate-pulse" aria-hidden="true" />
-            <span>Reproduzindo</span>
+            <span>{t('voice.playing')}</span>
           </div>
         )}
 
-        <div className="ml-auto text-xs text-white/40" aria-label="Atalhos de teclado">
-          Atalhos: Espaço (gravar), Esc (parar), Ctrl+H (histórico)
+        <div className="ml-auto text-xs text-white/40" aria-label={t('voice.shortcutsLabel')}>
+          {t('voice.shortcuts')}
         </div>
       </div>
 
+      {conversationRecording && (
+        <div className="mt-8 w-full flex justify-center">
+          <RecordingReviewPanel
+            recording={conversationRecording}
+            entries={interactionState.transcriptions}
+            conversationId={interactionState.conversationId}
+            onDiscard={discardConversationRecording}
+          />
+        </div>
+      )}
+
+      {/* Latency breakdown, for tuning the pipeline in development */}
+      {import.meta.env.DEV && (
+        <div className="mt-8 w-full flex justify-center">
+          <LatencyPanel turns={latencyTurns} stats={latencyStats} />
+        </div>
+      )}
+
       {/* Error Display */}
       {(wsError || audioError || interactionState.error) && (
         <motion.div
@@ -494,6 +1172,11 @@ export default function VoiceInteraction() {
           </p>
         </motion.div>
       )}
+
+      {/* Every new entry is read out, whether or not the history panel is open */}
+      <TranscriptLiveRegion entries={interactionState.transcriptions} />
+
+      {accessibility.captions && <AgentCaptions text={captionText} size={accessibility.captionSize} />}
     </div>
   );
 }
@@ -2,6 +2,10 @@
  * Analytics Service - Track voice interaction events and metrics
  */
 
+import type { TurnLatency } from '../types/voice';
+import { apiClient, type ApiRequest } from '../lib/api-client';
+import { ApiError } from '../lib/api-error';
+
 export type AnalyticsEventType =
   | 'voice_session_start'
   | 'voice_session_end'
@@ -10,7 +14,12 @@ export type AnalyticsEventType =
   | 'voice_response_received'
   | 'voice_error'
   | 'voice_reconnect'
-  | 'voice_state_change';
+  | 'voice_interrupt'
+  | 'voice_text_message'
+  | 'voice_latency'
+  | 'voice_state_change'
+  | 'voice_conversation_recording'
+  | 'api_error';
 
 export interface AnalyticsEvent {
   type: AnalyticsEventType;
@@ -155,6 +164,21 @@ class AnalyticsService {
     );
   }
 
+  /**
+   * Track a failed REST request (reported by the API client interceptor)
+   */
+  trackApiError(request: ApiRequest, error: unknown): void {
+    this.track('api_error', {
+      method: request.method,
+      endpoint: request.endpoint,
+      correlationId: request.correlationId,
+      attempt: request.attempt,
+      duration: Date.now() - request.startedAt,
+      error: error instanceof Error ? error.message : String(error),
+      ...(error instanceof ApiError && { status: error.status, requestId: error.requestId }),
+    });
+  }
+
   /**
    * Track reconnection
    */
@@ -163,6 +187,53 @@ class AnalyticsService {
     this.track('voice_reconnect', {}, sessionId);
   }
 
+  /**
+   * Track user interrupting the agent mid-answer (barge-in)
+   */
+  trackInterrupt(
+    playbackOffset: number,
+    sessionId: string,
+    conversationId?: string
+  ): void {
+    this.track('voice_interrupt', { playbackOffset }, sessionId, conversationId);
+  }
+
+  /**
+   * Track a message typed in text mode
+   */
+  trackTextMessage(sessionId: string, conversationId?: string): void {
+    this.track('voice_text_message', {}, sessionId, conversationId);
+  }
+
+  /**
+   * Track the latency breakdown of a finished turn (client marks + server stages)
+   */
+  trackLatency(turn: TurnLatency, sessionId: string, conversationId?: string): void {
+    this.track(
+      'voice_latency',
+      { input: turn.input, marks: turn.marks, server: turn.server },
+      sessionId,
+      conversationId
+    );
+  }
+
+  /**
+   * Track the conversation recorder; the consent time is kept as the audit trail
+   */
+  trackConversationRecording(
+    action: 'start' | 'stop',
+    details: { consentAt: Date; durationMs?: number },
+    sessionId: string,
+    conversationId?: string
+  ): void {
+    this.track(
+      'voice_conversation_recording',
+      { action, consentAt: details.consentAt.toISOString(), durationMs: details.durationMs },
+      sessionId,
+      conversationId
+    );
+  }
+
   /**
    * Track state change
    */
@@ -256,3 +327,11 @@ class AnalyticsService {
 
 // Export singleton instance
 export const analytics = new AnalyticsService();
+
+// Failed API calls; cancellations (the caller went away) aren't failures
+apiClient.use({
+  onError: (error, request) => {
+    if (error instanceof DOMException && error.name === 'AbortError') return;
+    analytics.trackApiError(request, error);
+  },
+});
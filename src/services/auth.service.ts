@@ -4,10 +4,17 @@
  */
 
 import { apiClient } from '../lib/api-client';
+import { publishTabMessage, subscribeTabMessages } from '../lib/tab-sync';
 
 const TOKEN_KEY = 'auth_token';
 const USER_KEY = 'auth_user';
 const TOKEN_EXPIRY_KEY = 'auth_token_expiry';
+// Renew this long before the token expires
+const REFRESH_LEEWAY_SECONDS = 60;
+// setTimeout fires immediately above this (~24.8 days)
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+// Web Lock held while refreshing, so tabs whose timers fire together don't all refresh
+const REFRESH_LOCK = 'renus_auth_refresh';
 
 export interface LoginCredentials {
   email: string;
@@ -28,7 +35,107 @@ export interface User {
   role?: string;
 }
 
+/**
+ * What the UI needs to know about the session; replaced (never mutated) on every change
+ */
+export interface AuthSnapshot {
+  token: string | null;
+  user: User | null;
+}
+
 class AuthService {
+  private listeners = new Set<() => void>();
+  private snapshot: AuthSnapshot = this.readSnapshot();
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private refreshInFlight: Promise<void> | null = null;
+
+  constructor() {
+    this.scheduleRefresh();
+
+    // Another tab logged in, out or refreshed: adopt what it stored
+    subscribeTabMessages((message) => {
+      if (message.type === 'auth') {
+        this.syncFromStorage();
+      }
+    });
+  }
+
+  /**
+   * Subscribe to login, logout and profile changes
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Current session, stable between changes (suitable for useSyncExternalStore)
+   */
+  getSnapshot(): AuthSnapshot {
+    return this.snapshot;
+  }
+
+  private readSnapshot(): AuthSnapshot {
+    return { token: this.getToken(), user: this.getUser() };
+  }
+
+  private notify(): void {
+    this.snapshot = this.readSnapshot();
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private syncFromStorage(): void {
+    this.notify();
+    this.scheduleRefresh();
+  }
+
+  /**
+   * Persist token, expiry and user from a login/register/refresh response
+   */
+  private storeSession(response: LoginResponse, event: 'login' | 'refresh'): void {
+    localStorage.setItem(TOKEN_KEY, response.access_token);
+
+    if (response.user) {
+      localStorage.setItem(USER_KEY, JSON.stringify(response.user));
+    } else if (event === 'login') {
+      // A new sign-in may be another account: don't keep showing the previous profile
+      localStorage.removeItem(USER_KEY);
+    }
+
+    if (response.expires_in) {
+      const expiryTime = Date.now() + response.expires_in * 1000;
+      localStorage.setItem(TOKEN_EXPIRY_KEY, expiryTime.toString());
+    } else {
+      localStorage.removeItem(TOKEN_EXPIRY_KEY);
+    }
+
+    this.syncFromStorage();
+    publishTabMessage({ type: 'auth', event });
+  }
+
+  /**
+   * Renew the token shortly before `auth_token_expiry`. Tokens without an expiry aren't
+   * renewed ahead of time; a 401 still triggers a refresh through the API client.
+   */
+  private scheduleRefresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+
+    const timeLeft = this.getToken() ? this.getTimeUntilExpiry() : null;
+    if (timeLeft === null) return;
+
+    const delay = Math.min(Math.max(0, timeLeft - REFRESH_LEEWAY_SECONDS) * 1000, MAX_TIMER_DELAY_MS);
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      // Failure already ends the session; nothing else to do here
+      this.refreshToken().catch(() => undefined);
+    }, delay);
+  }
+
   /**
    * Login user with credentials
    */
@@ -39,18 +146,11 @@ class AuthService {
         credentials
       );
 
-      // Store token
-      this.setToken(response.access_token);
-
-      // Store user if provided
-      if (response.user) {
-        this.setUser(response.user);
-      }
+      this.storeSession(response, 'login');
 
-      // Store expiry time if provided
-      if (response.expires_in) {
-        const expiryTime = Date.now() + response.expires_in * 1000;
-        localStorage.setItem(TOKEN_EXPIRY_KEY, expiryTime.toString());
+      // Backend didn't send the profile: fetch it so the sidebar can show who is signed in
+      if (!response.user) {
+        await this.getCurrentUser().catch(() => undefined);
       }
 
       return response;
@@ -61,15 +161,24 @@ class AuthService {
   }
 
   /**
-   * Logout user and clear session
+   * Clear the stored session without navigating (guards redirect on their own)
    */
-  logout(): void {
+  clearSession(): void {
     localStorage.removeItem(TOKEN_KEY);
     localStorage.removeItem(USER_KEY);
     localStorage.removeItem(TOKEN_EXPIRY_KEY);
-    
-    // Redirect to home
-    window.location.href = '/';
+    this.syncFromStorage();
+    publishTabMessage({ type: 'auth', event: 'logout' });
+  }
+
+  /**
+   * Logout user and clear session
+   */
+  logout(): void {
+    this.clearSession();
+
+    // Full reload to the login page so no cached data from this session survives
+    window.location.href = '/login';
   }
 
   /**
@@ -84,6 +193,7 @@ class AuthService {
    */
   setToken(token: string): void {
     localStorage.setItem(TOKEN_KEY, token);
+    this.notify();
   }
 
   /**
@@ -105,6 +215,8 @@ class AuthService {
    */
   setUser(user: User): void {
     localStorage.setItem(USER_KEY, JSON.stringify(user));
+    this.notify();
+    publishTabMessage({ type: 'auth', event: 'profile' });
   }
 
   /**
@@ -116,7 +228,7 @@ class AuthService {
 
     // Check if token is expired
     if (this.isTokenExpired()) {
-      this.logout();
+      this.clearSession();
       return false;
     }
 
@@ -147,23 +259,53 @@ class AuthService {
   }
 
   /**
-   * Refresh token (if backend supports it)
+   * Refresh token. Concurrent callers (scheduler, 401 retries) share one request.
+   * On failure the session is cleared and the route guard redirects to login,
+   * carrying the current route.
    */
-  async refreshToken(): Promise<void> {
-    try {
+  refreshToken(): Promise<void> {
+    if (!this.refreshInFlight) {
+      this.refreshInFlight = this.requestRefresh().finally(() => {
+        this.refreshInFlight = null;
+      });
+    }
+    return this.refreshInFlight;
+  }
+
+  /**
+   * Resolves once a refresh in progress (if any) has settled, whatever its outcome
+   */
+  async waitForRefresh(): Promise<void> {
+    await this.refreshInFlight?.catch(() => undefined);
+  }
+
+  private async requestRefresh(): Promise<void> {
+    const staleToken = this.getToken();
+
+    const refresh = async () => {
+      // Another tab renewed the token while this one waited for the lock
+      if (this.getToken() !== staleToken && !this.isTokenExpired()) {
+        return;
+      }
+
       const response = await apiClient.post<LoginResponse>(
-        '/api/v1/auth/refresh'
+        '/api/v1/auth/refresh',
+        undefined,
+        { skipAuthRefresh: true }
       );
 
-      this.setToken(response.access_token);
+      this.storeSession(response, 'refresh');
+    };
 
-      if (response.expires_in) {
-        const expiryTime = Date.now() + response.expires_in * 1000;
-        localStorage.setItem(TOKEN_EXPIRY_KEY, expiryTime.toString());
+    try {
+      if (navigator.locks) {
+        await navigator.locks.request(REFRESH_LOCK, refresh);
+      } else {
+        await refresh();
       }
     } catch (error) {
       console.error('[Auth] Token refresh failed:', error);
-      this.logout();
+      this.clearSession();
       throw error;
     }
   }
@@ -182,12 +324,10 @@ class AuthService {
         data
       );
 
-      // Store token
-      this.setToken(response.access_token);
+      this.storeSession(response, 'login');
 
-      // Store user if provided
-      if (response.user) {
-        this.setUser(response.user);
+      if (!response.user) {
+        await this.getCurrentUser().catch(() => undefined);
       }
 
       return response;
@@ -271,5 +411,44 @@ class AuthService {
 // Export singleton instance
 export const authService = new AuthService();
 
+// Renew instead of dropping the session when a request comes back 401
+apiClient.use({
+  // Requests issued during a refresh wait for it and go out with the new token
+  onRequest: async (request) => {
+    if (request.config.skipAuthRefresh) return;
+    await authService.waitForRefresh();
+    const token = authService.getToken();
+    if (token) {
+      request.headers.set('Authorization', `Bearer ${token}`);
+    }
+  },
+  // Requests already in flight when the token expired are replayed once after refreshing
+  onResponse: async (response, request): Promise<'retry' | void> => {
+    if (response.status !== 401 || request.config.skipAuthRefresh) return;
+
+    const sentToken = request.headers.get('Authorization')?.replace(/^Bearer /, '');
+    // No token sent: a rejected login/reset, not an expired session
+    if (!sentToken) return;
+
+    const currentToken = authService.getToken();
+    if (request.attempt === 0 && currentToken) {
+      // Another request (or tab) may have refreshed while this one was in flight
+      if (currentToken !== sentToken) return 'retry';
+      try {
+        await authService.refreshToken();
+        return 'retry';
+      } catch {
+        // refreshToken already cleared the session
+        return;
+      }
+    }
+
+    // Still rejected after refreshing: the route guard takes the user to login
+    if (currentToken) {
+      authService.clearSession();
+    }
+  },
+});
+
 // Export class for testing
 export default AuthService;
@@ -4,23 +4,195 @@
 
 export type AgentState = 'idle' | 'listening' | 'thinking' | 'speaking';
 
-export interface VoiceMessage {
-  type: 'response' | 'state' | 'error' | 'audio_chunk' | 'transcription' | 'response_complete';
-  state?: AgentState;
+// Hands-free mode: off, asleep (waiting for the wake word or a click) or awake (mic reopens after each turn)
+export type HandsFreeState = 'off' | 'sleeping' | 'awake';
+
+// ============================================================================
+// Voice socket protocol (runtime schemas in lib/voice-protocol)
+// ============================================================================
+
+// Client → server
+
+export interface HelloMessage {
+  type: 'hello';
+  protocol_version: number;
+  client: string;
+  locale?: string; // BCP 47 language tag, e.g. "pt-BR"
+}
+
+export interface AudioMessage {
+  type: 'audio';
+  audio: string; // base64
+  format: string;
+  sequence?: number;
+  timestamp?: number; // ms since utterance start
+}
+
+export interface AudioStartMessage {
+  type: 'audio_start';
+  format: string;
+  sample_rate?: number;
+  channels?: number;
+}
+
+export interface AudioEndMessage {
+  type: 'audio_end';
+  total_chunks: number;
+}
+
+export interface TextMessage {
+  type: 'text';
+  text: string;
+  conversation_id?: string | null;
+}
+
+export interface InterruptMessage {
+  type: 'interrupt';
+  conversation_id: string | null;
+  playback_offset_ms: number;
+}
+
+export interface PingMessage {
+  type: 'ping';
+  timestamp: number;
+}
+
+export interface SessionResumeMessage {
+  type: 'session_resume';
+  conversation_id: string;
+  last_sequence: number;
+}
+
+// The user fixed a misheard transcript; `sequence` is that of the final transcription frame
+export interface TranscriptCorrectionMessage {
+  type: 'transcript_correction';
+  conversation_id: string | null;
+  sequence?: number;
+  original_text: string;
+  corrected_text: string;
+}
+
+export type ClientMessage =
+  | HelloMessage
+  | AudioMessage
+  | AudioStartMessage
+  | AudioEndMessage
+  | TextMessage
+  | InterruptMessage
+  | PingMessage
+  | SessionResumeMessage
+  | TranscriptCorrectionMessage;
+
+// Server → client
+
+export interface HelloAckMessage {
+  type: 'hello_ack';
+  protocol_version: number;
+  min_protocol_version?: number;
+  session_id?: string;
+}
+
+export interface ResponseMessage {
+  type: 'response';
   text?: string;
+  state?: AgentState;
   audio_base64?: string;
+  format?: string; // audio format of audio_base64, e.g. 'mp3'
+  sample_rate?: number;
   conversation_id?: string;
-  functionalities?: string[];
   lead_id?: string;
+  functionalities?: string[];
   latency?: LatencyMetrics;
-  error?: string;
-  code?: string;
-  recoverable?: boolean;
+  sequence?: number;
   timestamp?: string;
+  replayed?: boolean; // re-sent after session_resume; its audio is stale
+}
+
+export interface StateMessage {
+  type: 'state';
+  state: AgentState;
   sequence?: number;
+  timestamp?: string;
+  replayed?: boolean; // re-sent after session_resume; the state is no longer current
+}
+
+export interface AudioChunkMessage {
+  type: 'audio_chunk';
+  audio_base64: string;
+  sequence: number;
   is_final?: boolean;
+  format?: string; // e.g. 'mp3' or 'pcm16'
+  sample_rate?: number;
+}
+
+export interface TranscriptWord {
+  word: string;
+  confidence: number; // 0-1, as reported by the STT engine
+  start?: number; // ms into the utterance
+  end?: number;
 }
 
+export interface TranscriptionMessage {
+  type: 'transcription';
+  text: string;
+  speaker?: 'user' | 'agent'; // 'agent' for a reply streamed as text; defaults to 'user'
+  is_final?: boolean; // interim frames are replaced by the next one; the final one is the transcript
+  words?: TranscriptWord[]; // final user transcripts only, when the STT engine reports confidence
+  conversation_id?: string;
+  sequence?: number;
+  timestamp?: string;
+  replayed?: boolean; // re-sent after session_resume; already part of the resumed history
+}
+
+export interface ResponseCompleteMessage {
+  type: 'response_complete';
+  conversation_id?: string;
+  latency?: LatencyMetrics;
+  sequence?: number;
+}
+
+export interface ErrorMessage {
+  type: 'error';
+  error: string;
+  code?: string;
+  recoverable?: boolean;
+  timestamp?: string;
+}
+
+export interface SessionHistoryEntry {
+  speaker: 'user' | 'agent';
+  text: string;
+  sequence: number;
+  timestamp?: string;
+}
+
+// Answer to session_resume: the conversation so far. Messages after `last_sequence` follow as replays.
+export interface SessionResumedMessage {
+  type: 'session_resumed';
+  conversation_id: string;
+  lead_id?: string;
+  history: SessionHistoryEntry[];
+  last_sequence?: number;
+}
+
+export interface PongMessage {
+  type: 'pong';
+  timestamp?: number;
+}
+
+export type ServerMessage =
+  | HelloAckMessage
+  | ResponseMessage
+  | StateMessage
+  | AudioChunkMessage
+  | TranscriptionMessage
+  | ResponseCompleteMessage
+  | ErrorMessage
+  | SessionResumedMessage
+  | PongMessage;
+
+export type VoiceMessage = ServerMessage;
+
 export interface LatencyMetrics {
   stt: number;
   agent: number;
@@ -28,10 +200,39 @@ export interface LatencyMetrics {
   total: number;
 }
 
+/**
+ * Client-side points in a turn, in the order they normally happen:
+ * - speech_end: the user's utterance (or typed message) left the client; the turn's zero
+ * - first_transcription: first transcription frame for the user's speech
+ * - response: the agent's response frame
+ * - first_audio: first audio of the answer (audio_chunk or the response's full clip)
+ * - playback_start: the answer became audible
+ */
+export type LatencyMark = 'speech_end' | 'first_transcription' | 'response' | 'first_audio' | 'playback_start';
+
+export interface TurnLatency {
+  id: number;
+  input: 'voice' | 'text';
+  startedAt: number; // epoch ms of speech_end
+  marks: Partial<Record<LatencyMark, number>>; // ms since speech_end
+  server?: LatencyMetrics; // as reported by the agent
+}
+
+export interface LatencyPercentiles {
+  p50: number;
+  p95: number;
+  count: number;
+}
+
+export interface LatencyStats {
+  client: Partial<Record<Exclude<LatencyMark, 'speech_end'>, LatencyPercentiles>>;
+  server: Partial<Record<keyof LatencyMetrics, LatencyPercentiles>>;
+}
+
 export interface AudioChunk {
   data: string; // base64
   sequence: number;
-  timestamp: number;
+  timestamp: number; // ms since utterance start
 }
 
 export interface ConversationEntry {
@@ -41,24 +242,50 @@ export interface ConversationEntry {
   text: string;
   audioUrl?: string;
   state: AgentState;
+  sequence?: number; // server message sequence, used to dedupe replayed history
+  recordingOffset?: number; // ms into the conversation recording where this entry starts
+  pending?: boolean; // user utterance still waiting for its final transcript
+  words?: TranscriptWord[]; // per-word confidence of the final transcript
+  correctedFrom?: string; // transcript as heard, before the user corrected it
+}
+
+/**
+ * How microphone audio is captured:
+ * - mediarecorder: browser-chosen codec in a webm container
+ * - pcm16: AudioWorklet capture, resampled to `sampleRate` mono PCM16 frames of `chunkSize` samples
+ */
+export type AudioCaptureMode = 'mediarecorder' | 'pcm16';
+
+export interface AudioStreamFormat {
+  format: string; // 'webm' | 'pcm16'
+  sampleRate?: number;
+  channels?: number;
 }
 
 export interface AudioConfig {
+  captureMode: AudioCaptureMode;
   sampleRate: number;
   channels: number;
   chunkSize: number;
   chunkInterval: number;
-  silenceThreshold: number;
-  silenceDuration: number;
+  silenceThreshold: number; // minimum RMS (0-1) the VAD accepts as speech
+  silenceDuration: number; // ms of trailing silence that ends an utterance
+  noSpeechTimeout: number; // ms to wait for speech before giving up on a recording
+  bargeInThreshold: number; // minimum RMS (0-1) that counts as the user talking over the agent
+  bargeInDuration: number; // ms of speech before playback is interrupted
 }
 
 export const DEFAULT_AUDIO_CONFIG: AudioConfig = {
+  captureMode: 'mediarecorder',
   sampleRate: 16000,
   channels: 1,
   chunkSize: 1600,
   chunkInterval: 100,
   silenceThreshold: 0.01,
   silenceDuration: 1500,
+  noSpeechTimeout: 5000,
+  bargeInThreshold: 0.05,
+  bargeInDuration: 250,
 };
 
 export interface VoiceInteractionState {
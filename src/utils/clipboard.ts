@@ -1,11 +1,12 @@
 import { showError, showSuccess } from "./toast";
+import { t } from "@/lib/i18n";
 
-export const copyToClipboard = async (text: string, successMessage: string = "Copiado para a área de transferência!") => {
+export const copyToClipboard = async (text: string, successMessage: string = t("clipboard.copied")) => {
   try {
     await navigator.clipboard.writeText(text);
     showSuccess(successMessage);
   } catch (err) {
     console.error('Failed to copy text: ', err);
-    showError("Falha ao copiar. Verifique as permissões do navegador.");
+    showError(t("errors.clipboard"));
   }
 };
\ No newline at end of file
@@ -0,0 +1,106 @@
+/**
+ * Mock RENUS voice-agent server
+ *
+ * Speaks the voice-stream protocol (see src/lib/voice-protocol.ts) and plays scripted
+ * scenarios, so the voice UI can be developed and tested without the real backend.
+ *
+ * Usage:
+ *   npm run mock-voice -- [--port 8000] [--scenario happy-path] [--latency 0] [--jitter 0]
+ *
+ * A client can also pick a scenario per connection: ws://localhost:8000/api/v1/agent/voice-stream?scenario=flaky-network
+ */
+
+import { createServer } from 'node:http';
+import { readdirSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { loadScenario, SCENARIOS_DIR, type Scenario } from './scenario';
+import { MockVoiceSession } from './session';
+import { acceptUpgrade } from './websocket';
+
+const VOICE_STREAM_PATH = '/api/v1/agent/voice-stream';
+
+const { values: args } = parseArgs({
+  options: {
+    port: { type: 'string', default: process.env.MOCK_VOICE_PORT || '8000' },
+    scenario: { type: 'string', default: process.env.MOCK_VOICE_SCENARIO || 'happy-path' },
+    latency: { type: 'string' },
+    jitter: { type: 'string' },
+  },
+});
+
+const port = Number(args.port);
+let connectionCount = 0;
+
+/**
+ * Resolve the scenario for a connection, applying CLI latency overrides
+ */
+async function resolveScenario(name: string): Promise<Scenario> {
+  const scenario = await loadScenario(name);
+  return {
+    ...scenario,
+    ...(args.latency !== undefined && { latencyMs: Number(args.latency) }),
+    ...(args.jitter !== undefined && { jitterMs: Number(args.jitter) }),
+  };
+}
+
+const server = createServer((req, res) => {
+  const { pathname } = new URL(req.url || '/', 'http://localhost');
+
+  // Enough of the REST API for the smoke tests' health checks
+  if (pathname === '/health') {
+    res.writeHead(200, {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': req.headers.origin || '*',
+    });
+    res.end(JSON.stringify({ status: 'ok', mock: true }));
+    return;
+  }
+
+  res.writeHead(404, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ detail: 'Not found (mock voice server)' }));
+});
+
+server.on('upgrade', async (req, socket) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+
+  if (url.pathname !== VOICE_STREAM_PATH) {
+    socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+    return;
+  }
+
+  let scenario: Scenario;
+  try {
+    scenario = await resolveScenario(url.searchParams.get('scenario') || args.scenario);
+  } catch (err) {
+    console.error('[MockVoice] Failed to load scenario:', err instanceof Error ? err.message : err);
+    socket.end('HTTP/1.1 500 Internal Server Error\r\n\r\n');
+    return;
+  }
+
+  const ws = acceptUpgrade(req, socket);
+  if (!ws) return;
+
+  const id = ++connectionCount;
+  const log = (message: string) => console.log(`[MockVoice #${id}] ${message}`);
+  log(`connected, scenario '${scenario.name}'`);
+
+  new MockVoiceSession(ws, scenario, log);
+});
+
+// Fail fast on a broken default scenario instead of on the first connection
+resolveScenario(args.scenario)
+  .then((scenario) => {
+    server.listen(port, () => {
+      const available = readdirSync(SCENARIOS_DIR)
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => file.replace(/\.json$/, ''));
+
+      console.log(`[MockVoice] Listening on ws://localhost:${port}${VOICE_STREAM_PATH}`);
+      console.log(`[MockVoice] Default scenario: ${scenario.name}`);
+      console.log(`[MockVoice] Available scenarios: ${available.join(', ')}`);
+    });
+  })
+  .catch((err) => {
+    console.error('[MockVoice] Failed to start:', err instanceof Error ? err.message : err);
+    process.exit(1);
+  });
@@ -0,0 +1,135 @@
+/**
+ * Scenario files for the mock voice server
+ *
+ * A scenario is a JSON script of what the "agent" does: frames to send, pauses, synthetic
+ * audio, and network faults. Each user turn (`audio_end` or `text`) plays the next entry
+ * of `turns`; the last entry repeats once the script runs out.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import path from 'node:path';
+
+export type ScenarioStep =
+  | { send: Record<string, unknown> } // JSON frame; strings may use {{text}} and {{conversation_id}}
+  | { raw: string } // sent verbatim, e.g. malformed frames
+  | { delay: number } // ms
+  | { audio: ScenarioAudio } // synthetic audio_chunk stream
+  | { disconnect: { code?: number; reason?: string } } // clean close
+  | { drop: true } // TCP reset without a close frame
+  | { hang: true }; // stop answering anything, including pings (half-open connection)
+
+export interface ScenarioAudio {
+  durationMs: number;
+  chunkMs?: number; // default 200
+  sampleRate?: number; // default 16000
+  frequency?: number; // tone in Hz, default 440
+  shuffle?: boolean; // send chunks out of order
+  skip?: number[]; // chunk sequences that are never sent
+}
+
+export interface ScenarioTurn {
+  on?: 'audio' | 'text' | 'any'; // which user input plays this turn (default 'any')
+  transcript?: string; // what the user "said" on audio turns, available as {{text}}
+  steps: ScenarioStep[];
+}
+
+export interface Scenario {
+  name: string;
+  description?: string;
+  latencyMs?: number; // added before every frame
+  jitterMs?: number; // random extra latency, 0..jitterMs
+  onConnect?: ScenarioStep[]; // after hello_ack
+  turns: ScenarioTurn[];
+  onInterrupt?: ScenarioStep[]; // replaces the rest of the current turn
+}
+
+export interface TemplateContext {
+  text: string;
+  conversation_id: string;
+}
+
+export const SCENARIOS_DIR = fileURLToPath(new URL('./scenarios/', import.meta.url));
+
+/**
+ * Load a scenario by name from scenarios/. Names come from connection URLs too, so
+ * anything that could point outside that directory is rejected.
+ */
+export async function loadScenario(name: string): Promise<Scenario> {
+  if (!name || /[/\\]|\.\./.test(name)) {
+    throw new Error(`Invalid scenario name '${name}': use the name of a file in scenarios/`);
+  }
+
+  const file = path.join(SCENARIOS_DIR, `${name.replace(/\.json$/, '')}.json`);
+  if (!existsSync(file)) {
+    throw new Error(`Unknown scenario '${name}'`);
+  }
+
+  const scenario = JSON.parse(await readFile(file, 'utf8')) as Scenario;
+  if (!Array.isArray(scenario.turns) || scenario.turns.length === 0) {
+    throw new Error(`Scenario ${file} has no turns`);
+  }
+
+  return { ...scenario, name: scenario.name || path.basename(file, '.json') };
+}
+
+/**
+ * Replace {{placeholders}} in every string of a frame
+ */
+export function fillTemplate<T>(value: T, context: TemplateContext): T {
+  if (typeof value === 'string') {
+    return value.replace(/\{\{(\w+)\}\}/g, (match, key: string) =>
+      key in context ? context[key as keyof TemplateContext] : match
+    ) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => fillTemplate(item, context)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, fillTemplate(item, context)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Build the audio_chunk frames for a synthetic tone, base64 mono PCM16
+ */
+export function createAudioChunks(audio: ScenarioAudio): Record<string, unknown>[] {
+  const { durationMs, chunkMs = 200, sampleRate = 16000, frequency = 440, shuffle = false, skip = [] } = audio;
+
+  const samplesPerChunk = Math.round((sampleRate * chunkMs) / 1000);
+  const totalSamples = Math.round((sampleRate * durationMs) / 1000);
+  const chunkCount = Math.max(1, Math.ceil(totalSamples / samplesPerChunk));
+
+  const chunks: Record<string, unknown>[] = [];
+  for (let sequence = 0; sequence < chunkCount; sequence++) {
+    const start = sequence * samplesPerChunk;
+    const length = Math.min(samplesPerChunk, totalSamples - start);
+    const samples = new Int16Array(length);
+
+    for (let i = 0; i < length; i++) {
+      samples[i] = Math.round(Math.sin((2 * Math.PI * frequency * (start + i)) / sampleRate) * 0.2 * 0x7fff);
+    }
+
+    chunks.push({
+      type: 'audio_chunk',
+      audio_base64: Buffer.from(samples.buffer).toString('base64'),
+      sequence,
+      is_final: sequence === chunkCount - 1,
+      format: 'pcm16',
+      sample_rate: sampleRate,
+    });
+  }
+
+  const sent = chunks.filter((chunk) => !skip.includes(chunk.sequence as number));
+  if (shuffle) {
+    for (let i = sent.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [sent[i], sent[j]] = [sent[j], sent[i]];
+    }
+  }
+  return sent;
+}
@@ -0,0 +1,299 @@
+/**
+ * One mock voice-agent connection: protocol handshake, heartbeat, session resume
+ * and scenario playback
+ */
+
+import { randomUUID } from 'node:crypto';
+import { clientMessageSchema, PROTOCOL_VERSION, serverMessageSchema } from '../../src/lib/voice-protocol';
+import type { ClientMessage, SessionHistoryEntry } from '../../src/types/voice';
+import { createAudioChunks, fillTemplate, type Scenario, type ScenarioStep, type ScenarioTurn } from './scenario';
+import type { MockSocket } from './websocket';
+
+interface ConversationLog {
+  id: string;
+  leadId: string;
+  sequence: number;
+  frames: Array<{ sequence: number; frame: Record<string, unknown> }>;
+  history: SessionHistoryEntry[];
+}
+
+// Shared by every connection so a reconnecting client can resume its conversation
+const conversations = new Map<string, ConversationLog>();
+
+interface Playback {
+  cancelled: boolean;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export class MockVoiceSession {
+  private readonly sessionId = randomUUID();
+  private conversation: ConversationLog | null = null;
+  private turnIndex = 0;
+  private playback: Playback | null = null;
+  private hanging = false;
+  // The current audio turn's utterance, until a scripted final transcription takes it over
+  private pendingUtterance: SessionHistoryEntry | null = null;
+
+  constructor(
+    private socket: MockSocket,
+    private scenario: Scenario,
+    private log: (message: string) => void
+  ) {
+    socket.on('message', (text: string) => this.handleFrame(text));
+    socket.on('close', (code: number, reason: string) => {
+      this.log(`closed (${code}${reason ? ` ${reason}` : ''})`);
+      this.cancelPlayback();
+    });
+  }
+
+  private handleFrame(text: string): void {
+    if (this.hanging) return;
+
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      this.sendError('Frame is not valid JSON', 'invalid_frame');
+      return;
+    }
+
+    const result = clientMessageSchema.safeParse(json);
+    if (!result.success) {
+      this.sendError(`Invalid client message: ${result.error.issues[0]?.message}`, 'invalid_frame');
+      return;
+    }
+
+    const message = result.data as ClientMessage;
+    if (message.type !== 'audio' && message.type !== 'ping') {
+      this.log(`<- ${message.type}`);
+    }
+
+    switch (message.type) {
+      case 'hello':
+        if (message.locale) this.log(`locale ${message.locale}`);
+        this.sendNow({
+          type: 'hello_ack',
+          protocol_version: PROTOCOL_VERSION,
+          min_protocol_version: PROTOCOL_VERSION,
+          session_id: this.sessionId,
+        });
+        this.play(this.scenario.onConnect ?? [], '');
+        break;
+      case 'ping':
+        this.sendNow({ type: 'pong', timestamp: message.timestamp });
+        break;
+      case 'session_resume':
+        this.resume(message.conversation_id, message.last_sequence);
+        break;
+      case 'audio_end':
+        this.startTurn('audio', null);
+        break;
+      case 'text':
+        if (message.conversation_id) {
+          this.conversation = conversations.get(message.conversation_id) ?? this.conversation;
+        }
+        this.record({ speaker: 'user', text: message.text });
+        this.startTurn('text', message.text);
+        break;
+      case 'transcript_correction':
+        this.correct(message.sequence, message.original_text, message.corrected_text);
+        break;
+      case 'interrupt':
+        this.cancelPlayback();
+        this.play(this.scenario.onInterrupt ?? [{ send: { type: 'state', state: 'listening' } }], '');
+        break;
+      default:
+        // audio / audio_start: the mock doesn't transcribe
+        break;
+    }
+  }
+
+  private resume(conversationId: string, lastSequence: number): void {
+    const conversation = conversations.get(conversationId);
+    if (!conversation) {
+      this.sendError(`Conversation ${conversationId} not found`, 'session_not_found');
+      return;
+    }
+
+    this.conversation = conversation;
+    this.sendNow({
+      type: 'session_resumed',
+      conversation_id: conversation.id,
+      lead_id: conversation.leadId,
+      history: conversation.history,
+      last_sequence: conversation.sequence,
+    });
+
+    const missed = conversation.frames.filter((entry) => entry.sequence > lastSequence);
+    this.log(`resumed ${conversation.id}, replaying ${missed.length} frame(s)`);
+    missed.forEach(({ frame }) => this.sendNow({ ...frame, replayed: true }));
+  }
+
+  private startTurn(input: 'audio' | 'text', text: string | null): void {
+    const turns = this.scenario.turns;
+    const matches = (turn: ScenarioTurn) => !turn.on || turn.on === 'any' || turn.on === input;
+
+    let index = turns.findIndex((turn, i) => i >= this.turnIndex && matches(turn));
+    if (index === -1) {
+      // Script exhausted: repeat the last turn that fits this input
+      index = turns.map(matches).lastIndexOf(true);
+    }
+    if (index === -1) {
+      this.sendError(`Scenario has no turn for ${input} input`, 'scenario');
+      return;
+    }
+
+    const turn = turns[index];
+    this.turnIndex = index + 1;
+
+    const userText = text ?? turn.transcript ?? '';
+    this.pendingUtterance = input === 'audio' && userText
+      ? this.record({ speaker: 'user', text: userText })
+      : null;
+
+    this.cancelPlayback();
+    this.play(turn.steps, userText);
+  }
+
+  private async play(steps: ScenarioStep[], text: string): Promise<void> {
+    const playback: Playback = { cancelled: false };
+    this.playback = playback;
+
+    for (const step of steps) {
+      if (playback.cancelled || !this.socket.isOpen || this.hanging) return;
+
+      const context = { text, conversation_id: this.ensureConversation().id };
+
+      if ('delay' in step) {
+        await sleep(step.delay);
+      } else if ('send' in step) {
+        await this.sendScripted(fillTemplate(step.send, context), playback);
+      } else if ('raw' in step) {
+        await this.withLatency();
+        this.socket.send(step.raw);
+      } else if ('audio' in step) {
+        for (const chunk of createAudioChunks(step.audio)) {
+          if (playback.cancelled) return;
+          await this.sendScripted(chunk, playback);
+        }
+      } else if ('disconnect' in step) {
+        this.log('closing connection (scenario)');
+        this.socket.close(step.disconnect.code ?? 1011, step.disconnect.reason ?? 'Mock disconnect');
+      } else if ('drop' in step) {
+        this.log('dropping connection (scenario)');
+        this.socket.terminate();
+      } else if ('hang' in step) {
+        this.log('hanging: no more frames, pings unanswered (scenario)');
+        this.hanging = true;
+      }
+    }
+  }
+
+  private async sendScripted(frame: Record<string, unknown>, playback: Playback): Promise<void> {
+    await this.withLatency();
+    if (playback.cancelled) return;
+
+    const conversation = this.ensureConversation();
+    const outgoing = { ...frame };
+
+    if (outgoing.type === 'response' || outgoing.type === 'response_complete') {
+      outgoing.conversation_id ??= conversation.id;
+    }
+    if (outgoing.type === 'response') {
+      outgoing.lead_id ??= conversation.leadId;
+    }
+
+    // Message sequences are per conversation; audio_chunk sequences number chunks instead
+    if (outgoing.type !== 'audio_chunk') {
+      outgoing.sequence = ++conversation.sequence;
+      conversation.frames.push({ sequence: outgoing.sequence as number, frame: outgoing });
+    }
+
+    if (outgoing.type === 'response' && typeof outgoing.text === 'string') {
+      this.record({ speaker: 'agent', text: outgoing.text }, outgoing.sequence as number);
+    }
+    if (outgoing.type === 'transcription' && outgoing.is_final && outgoing.speaker !== 'agent') {
+      const text = String(outgoing.text);
+      const sequence = outgoing.sequence as number;
+      if (this.pendingUtterance) {
+        // Same utterance: take the frame's text and sequence rather than storing it twice
+        Object.assign(this.pendingUtterance, { text, sequence });
+        this.pendingUtterance = null;
+      } else {
+        this.record({ speaker: 'user', text }, sequence);
+      }
+    }
+
+    this.sendNow(outgoing);
+  }
+
+  private sendNow(frame: Record<string, unknown>): void {
+    if (this.hanging) return;
+
+    // Scenario typos should show up here, not as mysterious client-side protocol errors
+    const result = serverMessageSchema.safeParse(frame);
+    if (!result.success) {
+      this.log(`warning: scripted '${String(frame.type)}' frame is invalid: ${result.error.issues[0]?.message}`);
+    }
+
+    if (frame.type !== 'audio_chunk' && frame.type !== 'pong') {
+      this.log(`-> ${String(frame.type)}`);
+    }
+    this.socket.send(JSON.stringify(frame));
+  }
+
+  private sendError(error: string, code: string): void {
+    this.sendNow({ type: 'error', error, code, recoverable: true });
+  }
+
+  private async withLatency(): Promise<void> {
+    const { latencyMs = 0, jitterMs = 0 } = this.scenario;
+    const delay = latencyMs + Math.random() * jitterMs;
+    if (delay > 0) {
+      await sleep(delay);
+    }
+  }
+
+  private ensureConversation(): ConversationLog {
+    if (!this.conversation) {
+      const id = `mock-conv-${randomUUID().slice(0, 8)}`;
+      this.conversation = { id, leadId: `mock-lead-${id.slice(10)}`, sequence: 0, frames: [], history: [] };
+      conversations.set(id, this.conversation);
+    }
+    return this.conversation;
+  }
+
+  private record(entry: Omit<SessionHistoryEntry, 'sequence'>, sequence?: number): SessionHistoryEntry {
+    const conversation = this.ensureConversation();
+    const recorded: SessionHistoryEntry = {
+      ...entry,
+      // User turns have no frame of their own but still take a slot in the conversation
+      sequence: sequence ?? ++conversation.sequence,
+      timestamp: new Date().toISOString(),
+    };
+    conversation.history.push(recorded);
+    return recorded;
+  }
+
+  private correct(sequence: number | undefined, originalText: string, correctedText: string): void {
+    const history = this.conversation?.history ?? [];
+    const entry = history.find((item) =>
+      sequence !== undefined ? item.sequence === sequence : item.speaker === 'user' && item.text === originalText
+    );
+    if (!entry) {
+      this.log(`correction for unknown transcript "${originalText}"`);
+      return;
+    }
+
+    this.log(`corrected #${entry.sequence}: "${entry.text}" -> "${correctedText}"`);
+    entry.text = correctedText;
+  }
+
+  private cancelPlayback(): void {
+    if (this.playback) {
+      this.playback.cancelled = true;
+      this.playback = null;
+    }
+  }
+}
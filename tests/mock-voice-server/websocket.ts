@@ -0,0 +1,188 @@
+/**
+ * Minimal RFC 6455 WebSocket server connection for the mock voice server
+ *
+ * Handles exactly what the voice socket needs: text frames (fragmented or not), close,
+ * ping/pong. Kept dependency-free so the mock runs with nothing but Node.
+ */
+
+import { createHash } from 'node:crypto';
+import { EventEmitter } from 'node:events';
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+/**
+ * One accepted WebSocket connection.
+ * Events: 'message' (text: string), 'close' (code: number, reason: string)
+ */
+export class MockSocket extends EventEmitter {
+  private buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private closed = false;
+
+  constructor(private socket: Duplex) {
+    super();
+
+    socket.on('data', (data: Buffer) => this.receive(data));
+    socket.on('close', () => this.handleClosed(1006, 'Connection lost'));
+    socket.on('error', () => this.handleClosed(1006, 'Socket error'));
+  }
+
+  get isOpen(): boolean {
+    return !this.closed;
+  }
+
+  send(text: string): void {
+    this.writeFrame(OPCODE_TEXT, Buffer.from(text, 'utf8'));
+  }
+
+  /**
+   * Clean close handshake; without a code the close frame carries no status
+   */
+  close(code?: number, reason = ''): void {
+    if (this.closed) return;
+
+    let payload = Buffer.alloc(0);
+    if (code !== undefined) {
+      const reasonBytes = Buffer.from(reason, 'utf8');
+      payload = Buffer.alloc(2 + reasonBytes.length);
+      payload.writeUInt16BE(code, 0);
+      reasonBytes.copy(payload, 2);
+    }
+
+    this.writeFrame(OPCODE_CLOSE, payload);
+    this.socket.end();
+    this.handleClosed(code ?? 1005, reason);
+  }
+
+  /**
+   * Drop the TCP connection without a close frame, like a crashed proxy
+   */
+  terminate(): void {
+    this.socket.destroy();
+    this.handleClosed(1006, 'Terminated');
+  }
+
+  private writeFrame(opcode: number, payload: Buffer): void {
+    if (this.closed || this.socket.destroyed) return;
+
+    let header: Buffer;
+    if (payload.length < 126) {
+      header = Buffer.alloc(2);
+      header[1] = payload.length;
+    } else if (payload.length < 0x10000) {
+      header = Buffer.alloc(4);
+      header[1] = 126;
+      header.writeUInt16BE(payload.length, 2);
+    } else {
+      header = Buffer.alloc(10);
+      header[1] = 127;
+      header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+    header[0] = 0x80 | opcode; // FIN, server frames are never masked
+
+    this.socket.write(Buffer.concat([header, payload]));
+  }
+
+  private receive(data: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, data]);
+
+    while (this.buffer.length >= 2) {
+      const fin = (this.buffer[0] & 0x80) !== 0;
+      const opcode = this.buffer[0] & 0x0f;
+      const masked = (this.buffer[1] & 0x80) !== 0;
+      let length = this.buffer[1] & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (this.buffer.length < 4) return;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return;
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+
+      const maskOffset = offset;
+      if (masked) offset += 4;
+      if (this.buffer.length < offset + length) return;
+
+      const payload = Buffer.from(this.buffer.subarray(offset, offset + length));
+      if (masked) {
+        for (let i = 0; i < payload.length; i++) {
+          payload[i] ^= this.buffer[maskOffset + (i % 4)];
+        }
+      }
+
+      this.buffer = this.buffer.subarray(offset + length);
+      this.handleFrame(fin, opcode, payload);
+    }
+  }
+
+  private handleFrame(fin: boolean, opcode: number, payload: Buffer): void {
+    switch (opcode) {
+      case OPCODE_TEXT:
+      case OPCODE_CONTINUATION:
+        this.fragments.push(payload);
+        if (fin) {
+          const text = Buffer.concat(this.fragments).toString('utf8');
+          this.fragments = [];
+          this.emit('message', text);
+        }
+        break;
+      case OPCODE_BINARY:
+        // The voice protocol is JSON only
+        break;
+      case OPCODE_CLOSE: {
+        // Echo the client's status back, as the closing handshake requires
+        const code = payload.length >= 2 ? payload.readUInt16BE(0) : undefined;
+        this.close(code, payload.subarray(2).toString('utf8'));
+        break;
+      }
+      case OPCODE_PING:
+        this.writeFrame(OPCODE_PONG, payload);
+        break;
+      case OPCODE_PONG:
+        break;
+    }
+  }
+
+  private handleClosed(code: number, reason: string): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.emit('close', code, reason);
+  }
+}
+
+/**
+ * Complete the HTTP upgrade handshake. Returns null (and rejects) for non-WebSocket requests.
+ */
+export function acceptUpgrade(req: IncomingMessage, socket: Duplex): MockSocket | null {
+  const key = req.headers['sec-websocket-key'];
+
+  if (typeof key !== 'string' || req.headers.upgrade?.toLowerCase() !== 'websocket') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return null;
+  }
+
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    '',
+  ].join('\r\n'));
+
+  return new MockSocket(socket);
+}
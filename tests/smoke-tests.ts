@@ -3,7 +3,8 @@
  * Basic end-to-end tests to validate critical functionality
  */
 
-const API_BASE_URL = process.env.VITE_API_BASE_URL || 'http://72.60.151.78:8080';
+// Defaults to a local backend, or the mock voice server (`npm run mock-voice`)
+const API_BASE_URL = process.env.VITE_API_BASE_URL || 'http://localhost:8000';
 const FRONTEND_URL = process.env.FRONTEND_URL || 'https://renus-frontend.vercel.app';
 
 interface TestResult {
@@ -205,10 +206,18 @@ async function testWebSocketConnection(): Promise<TestResult> {
             reject(new Error('Connection timeout'));
           }, 5000);
 
+          // Connected means the server also completed the protocol version handshake
           ws.onopen = () => {
-            clearTimeout(timeout);
-            ws.close();
-            resolve(true);
+            ws.send(JSON.stringify({ type: 'hello', protocol_version: 1, client: 'smoke-tests' }));
+          };
+
+          ws.onmessage = (event) => {
+            const message = JSON.parse(String(event.data));
+            if (message.type === 'hello_ack') {
+              clearTimeout(timeout);
+              ws.close();
+              resolve(true);
+            }
           };
 
           ws.onerror = (error) => {
@@ -0,0 +1,309 @@
+/**
+ * Voice Activity Detector Tests
+ * Drives the default detector with synthetic PCM frames (seeded noise and a pure tone)
+ */
+
+import {
+  computeRms,
+  createVoiceActivityDetector,
+  DEFAULT_VAD_OPTIONS,
+  type VadEvent,
+  type VoiceActivityDetector,
+} from '../src/lib/voice-activity-detector';
+
+const SAMPLE_RATE = 16000;
+const FRAME_MS = 20;
+const FRAME_SIZE = (SAMPLE_RATE * FRAME_MS) / 1000;
+
+// Quiet room: well under minEnergy, and far too many zero crossings to pass as voice
+const NOISE_RMS = 0.005;
+// Voiced speech stand-in: loud and low-pitched (few zero crossings)
+const TONE_HZ = 200;
+const TONE_AMPLITUDE = 0.3;
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+
+/**
+ * Assert helper
+ */
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+/**
+ * Deterministic uniform noise with the given RMS (LCG, so every run sees the same frames)
+ */
+function createNoise(rms: number, seed = 1): () => Float32Array {
+  let state = seed;
+  // Uniform on [-a, a] has RMS a / sqrt(3)
+  const amplitude = rms * Math.sqrt(3);
+
+  return () => {
+    const frame = new Float32Array(FRAME_SIZE);
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      state = (state * 1664525 + 1013904223) >>> 0;
+      frame[i] = (state / 0xffffffff) * 2 * amplitude - amplitude;
+    }
+    return frame;
+  };
+}
+
+/**
+ * Continuous sine, phase carried across frames
+ */
+function createTone(frequency: number, amplitude: number): () => Float32Array {
+  let sampleIndex = 0;
+
+  return () => {
+    const frame = new Float32Array(FRAME_SIZE);
+    for (let i = 0; i < FRAME_SIZE; i++, sampleIndex++) {
+      frame[i] = amplitude * Math.sin((2 * Math.PI * frequency * sampleIndex) / SAMPLE_RATE);
+    }
+    return frame;
+  };
+}
+
+/**
+ * Feed `count` frames; returns the events they produced with the index of the frame
+ */
+function feed(
+  detector: VoiceActivityDetector,
+  next: () => Float32Array,
+  count: number
+): Array<{ frame: number; event: VadEvent }> {
+  const events: Array<{ frame: number; event: VadEvent }> = [];
+  for (let frame = 0; frame < count; frame++) {
+    const { event } = detector.process(next());
+    if (event) events.push({ frame, event });
+  }
+  return events;
+}
+
+/**
+ * Calibrated detector: `calibrationMs` of room noise already processed
+ */
+function calibratedDetector(noise = createNoise(NOISE_RMS)): VoiceActivityDetector {
+  const detector = createVoiceActivityDetector({ sampleRate: SAMPLE_RATE });
+  feed(detector, noise, DEFAULT_VAD_OPTIONS.calibrationMs / FRAME_MS);
+  return detector;
+}
+
+function runTest(name: string, fn: () => void): void {
+  try {
+    fn();
+    results.push({ name, passed: true });
+  } catch (error) {
+    results.push({ name, passed: false, error: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+/**
+ * Test 1: Calibration estimates the noise floor from the first calibrationMs
+ */
+function testNoiseFloorCalibration(): void {
+  const detector = calibratedDetector();
+
+  assert(!detector.speaking, 'Noise alone should not count as speech');
+  assert(
+    Math.abs(detector.noiseFloor - NOISE_RMS) < NOISE_RMS * 0.2,
+    `Expected noise floor near ${NOISE_RMS}, got ${detector.noiseFloor.toFixed(5)}`
+  );
+
+  // A loud word during calibration doesn't drag the floor up (low percentile is used)
+  const tone = createTone(TONE_HZ, TONE_AMPLITUDE);
+  const noise = createNoise(NOISE_RMS, 7);
+  const interrupted = createVoiceActivityDetector({ sampleRate: SAMPLE_RATE });
+  const calibrationFrames = DEFAULT_VAD_OPTIONS.calibrationMs / FRAME_MS;
+  for (let i = 0; i < calibrationFrames; i++) {
+    interrupted.process(i < 5 ? tone() : noise());
+  }
+  assert(
+    interrupted.noiseFloor < NOISE_RMS * 1.5,
+    `Expected early speech to be ignored by calibration, floor ${interrupted.noiseFloor.toFixed(5)}`
+  );
+}
+
+/**
+ * Test 2: speech_start fires once minSpeechMs of speech has accumulated, not before
+ */
+function testSpeechOnset(): void {
+  const detector = calibratedDetector();
+  const tone = createTone(TONE_HZ, TONE_AMPLITUDE);
+  const onsetFrames = Math.ceil(DEFAULT_VAD_OPTIONS.minSpeechMs / FRAME_MS);
+
+  const events = feed(detector, tone, onsetFrames + 5);
+
+  assert(events.length === 1, `Expected one event, got ${events.length}`);
+  assert(events[0].event.type === 'speech_start', `Expected speech_start, got ${events[0].event.type}`);
+  assert(
+    events[0].frame === onsetFrames - 1,
+    `Expected speech_start on tone frame ${onsetFrames - 1}, got ${events[0].frame}`
+  );
+  assert(
+    Math.abs(events[0].event.timestamp - DEFAULT_VAD_OPTIONS.calibrationMs) < 1,
+    `Expected the start timestamp at the first tone frame, got ${events[0].event.timestamp}`
+  );
+
+  // A blip shorter than minSpeechMs is ignored
+  const blipped = calibratedDetector();
+  const noise = createNoise(NOISE_RMS, 3);
+  const blipEvents = [...feed(blipped, tone, onsetFrames - 1), ...feed(blipped, noise, 10)];
+  assert(blipEvents.length === 0, `Expected a ${(onsetFrames - 1) * FRAME_MS}ms blip to be ignored`);
+}
+
+/**
+ * Test 3: speech_end waits for hangoverMs of silence, and a short pause doesn't end speech
+ */
+function testHangover(): void {
+  const detector = calibratedDetector();
+  const tone = createTone(TONE_HZ, TONE_AMPLITUDE);
+  const noise = createNoise(NOISE_RMS, 5);
+  const hangoverFrames = DEFAULT_VAD_OPTIONS.hangoverMs / FRAME_MS;
+
+  feed(detector, tone, 25);
+  assert(detector.speaking, 'Expected to be speaking after 500ms of tone');
+
+  // A pause shorter than the hangover keeps the utterance open
+  const pauseEvents = feed(detector, noise, hangoverFrames - 1);
+  assert(pauseEvents.length === 0, 'Expected no event during a pause shorter than hangoverMs');
+  assert(detector.speaking, 'Expected still speaking before hangoverMs of silence');
+
+  feed(detector, tone, 10);
+  const endEvents = feed(detector, noise, hangoverFrames + 5);
+
+  assert(endEvents.length === 1, `Expected one event, got ${endEvents.length}`);
+  const [{ frame, event }] = endEvents;
+  assert(event.type === 'speech_end', `Expected speech_end, got ${event.type}`);
+  assert(frame === hangoverFrames - 1, `Expected speech_end on silent frame ${hangoverFrames - 1}, got ${frame}`);
+  assert(!detector.speaking, 'Expected not speaking after speech_end');
+
+  if (event.type === 'speech_end') {
+    // 25 + (hangover - 1) + 10 frames between start and the last tone frame
+    const expectedDuration = (25 + hangoverFrames - 1 + 10) * FRAME_MS;
+    assert(
+      Math.abs(event.duration - expectedDuration) < 1,
+      `Expected duration ${expectedDuration}ms (up to the trailing silence), got ${event.duration}`
+    );
+  }
+}
+
+/**
+ * Test 4: speech_start carries preRollMs of audio, ending with the onset frames
+ */
+function testPreRoll(): void {
+  const detector = calibratedDetector();
+  const tone = createTone(TONE_HZ, TONE_AMPLITUDE);
+  const onsetFrames = Math.ceil(DEFAULT_VAD_OPTIONS.minSpeechMs / FRAME_MS);
+
+  const [first] = feed(detector, tone, onsetFrames);
+  assert(first?.event.type === 'speech_start', 'Expected speech_start');
+
+  if (first.event.type === 'speech_start') {
+    const { preRoll } = first.event;
+    const preRollSamples = preRoll.reduce((sum, frame) => sum + frame.length, 0);
+    const preRollMs = (preRollSamples / SAMPLE_RATE) * 1000;
+
+    assert(
+      preRollMs >= DEFAULT_VAD_OPTIONS.preRollMs && preRollMs < DEFAULT_VAD_OPTIONS.preRollMs + FRAME_MS,
+      `Expected ${DEFAULT_VAD_OPTIONS.preRollMs}ms of pre-roll, got ${preRollMs}ms`
+    );
+
+    // Oldest first: the tone frames that led up to the start come last, noise before them
+    const toneFrames = onsetFrames - 1;
+    const tail = preRoll.slice(-toneFrames);
+    assert(
+      tail.every((frame) => computeRms(frame) > TONE_AMPLITUDE / 2),
+      'Expected the pre-roll to end with the onset tone frames'
+    );
+    assert(computeRms(preRoll[0]) < NOISE_RMS * 2, 'Expected the pre-roll to start with room noise');
+  }
+
+  // The pre-roll is handed over once: after speech_end it refills from scratch
+  feed(detector, createNoise(NOISE_RMS, 9), DEFAULT_VAD_OPTIONS.hangoverMs / FRAME_MS + 5);
+  const [second] = feed(detector, tone, onsetFrames);
+  assert(second?.event.type === 'speech_start', 'Expected a second speech_start');
+  if (second.event.type === 'speech_start') {
+    const samples = second.event.preRoll.reduce((sum, frame) => sum + frame.length, 0);
+    assert(
+      (samples / SAMPLE_RATE) * 1000 < DEFAULT_VAD_OPTIONS.preRollMs + FRAME_MS,
+      'Expected the second pre-roll to stay within preRollMs'
+    );
+  }
+}
+
+/**
+ * Test 5: frames standing for more time than they hold (late reads) count their real duration
+ */
+function testFrameDuration(): void {
+  const detector = calibratedDetector();
+  const tone = createTone(TONE_HZ, TONE_AMPLITUDE);
+  const noise = createNoise(NOISE_RMS, 11);
+  const lateFrameMs = FRAME_MS * 3;
+
+  feed(detector, tone, 25);
+  assert(detector.speaking, 'Expected to be speaking after 500ms of tone');
+
+  const hangoverFrames = DEFAULT_VAD_OPTIONS.hangoverMs / lateFrameMs;
+  let endFrame = -1;
+  for (let frame = 0; frame < hangoverFrames + 5 && endFrame < 0; frame++) {
+    if (detector.process(noise(), lateFrameMs).event?.type === 'speech_end') {
+      endFrame = frame;
+    }
+  }
+
+  assert(
+    endFrame === hangoverFrames - 1,
+    `Expected speech_end after ${DEFAULT_VAD_OPTIONS.hangoverMs}ms of ${lateFrameMs}ms reads (frame ${hangoverFrames - 1}), got ${endFrame}`
+  );
+}
+
+/**
+ * Run all tests
+ */
+function runVadTests(): void {
+  console.log('========================================');
+  console.log('RENUS Voice Activity Detector Tests');
+  console.log('========================================');
+  console.log('');
+
+  runTest('Noise floor calibration', testNoiseFloorCalibration);
+  runTest('Speech onset after minSpeechMs', testSpeechOnset);
+  runTest('Hangover before speech_end', testHangover);
+  runTest('Pre-roll length', testPreRoll);
+  runTest('Frame duration from real elapsed time', testFrameDuration);
+
+  let failedCount = 0;
+
+  results.forEach((result) => {
+    const status = result.passed ? '✓ PASS' : '✗ FAIL';
+    const color = result.passed ? '\x1b[32m' : '\x1b[31m';
+    const reset = '\x1b[0m';
+
+    console.log(`${color}${status}${reset} ${result.name}`);
+
+    if (!result.passed) {
+      console.log(`  Error: ${result.error}`);
+      failedCount++;
+    }
+  });
+
+  console.log('');
+  console.log(`Total: ${results.length}`);
+  console.log(`Passed: ${results.length - failedCount}`);
+  console.log(`Failed: ${failedCount}`);
+
+  // Exit with error code if any test failed
+  if (failedCount > 0) {
+    process.exit(1);
+  }
+}
+
+runVadTests();